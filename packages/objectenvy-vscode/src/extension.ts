@@ -25,27 +25,6 @@ async function getObjectenvyModule(): Promise<typeof import('objectenvy')> {
   return objectenvyModulePromise;
 }
 
-/**
- * Parse .env content string into a key-value record
- */
-function parseEnvContent(content: string): Record<string, string> {
-  const env: Record<string, string> = {};
-  const lines = content.split('\n');
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
-    const equalsIndex = trimmed.indexOf('=');
-    if (equalsIndex === -1) continue;
-    const key = trimmed.substring(0, equalsIndex).trim();
-    const value = trimmed
-      .substring(equalsIndex + 1)
-      .trim()
-      .replace(/^["']|["']$/g, '');
-    env[key] = value;
-  }
-  return env;
-}
-
 /**
  * Type guard to check if a value is a ConfigValue.
 
@@ -303,9 +282,9 @@ async function handleGenerateTypes(outputChannel: vscode.OutputChannel): Promise
 
     const content = document.getText();
 
-    const env = parseEnvContent(content);
+    const { objectify, parseEnv } = await getObjectenvyModule();
 
-    const { objectify } = await getObjectenvyModule();
+    const env = parseEnv(content);
 
     // Convert to nested object
     const configObj = objectify({ env, coerce: true });
@@ -421,7 +400,7 @@ async function handleConvertRequest(
       try {
         outputChannel.appendLine(`Converting from ${message.from} to ${message.to}`);
 
-        const { objectify, envy } = await getObjectenvyModule();
+        const { objectify, envy, parseEnv } = await getObjectenvyModule();
 
         let output = '';
 
@@ -433,7 +412,7 @@ async function handleConvertRequest(
         } else if (message.from === 'json') {
           intermediateObj = JSON.parse(message.input);
         } else if (message.from === 'env') {
-          const env = parseEnvContent(message.input);
+          const env = parseEnv(message.input);
           intermediateObj = objectify({ env, coerce: true });
         } else {
           throw new Error(`Unsupported input format: ${message.from}`);
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { envFingerprint } from './cache.js';
+
+describe('envFingerprint', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('changes with the values of the given keys only', () => {
+    const env: Record<string, string | undefined> = { APP_PORT: '80', HOME: '/root' };
+    const before = envFingerprint(env, ['APP_PORT']);
+    env['HOME'] = '/home';
+    expect(envFingerprint(env, ['APP_PORT'])).toBe(before);
+    env['APP_PORT'] = '81';
+    expect(envFingerprint(env, ['APP_PORT'])).not.toBe(before);
+  });
+
+  it('ignores key order and tells empty from unset', () => {
+    const env = { A: '1', B: '' };
+    expect(envFingerprint(env, ['A', 'B'])).toBe(envFingerprint(env, ['B', 'A']));
+    expect(envFingerprint(env, ['B'])).not.toBe(envFingerprint({ B: undefined }, ['B']));
+  });
+
+  it('changes when an env file appears or is rewritten', () => {
+    const missing = envFingerprint({}, [], ['.env'], dir);
+    writeFileSync(join(dir, '.env'), 'A=1\n');
+    const written = envFingerprint({}, [], ['.env'], dir);
+    expect(written).not.toBe(missing);
+    writeFileSync(join(dir, '.env'), 'A=12\n');
+    expect(envFingerprint({}, [], ['.env'], dir)).not.toBe(written);
+  });
+});
@@ -0,0 +1,26 @@
+import { createHash } from 'node:crypto';
+import { statSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * Fingerprint of what a config is built from: the values of `keys` in `env`, and the size and
+ * modification time of each env file (relative to `cwd`). A cached config is current while the
+ * fingerprint it was built with still matches.
+ */
+export function envFingerprint(
+  env: Record<string, string | undefined>,
+  keys: string[],
+  files: string[] = [],
+  cwd = process.cwd()
+): string {
+  const hash = createHash('sha1');
+  for (const key of [...keys].sort()) {
+    const value = env[key];
+    hash.update(value === undefined ? `${key}\0\u0001` : `${key}\0${value}\0`);
+  }
+  for (const file of files) {
+    const stats = statSync(resolve(cwd, file), { throwIfNoEntry: false });
+    hash.update(stats ? `${file}\0${stats.size}\0${stats.mtimeMs}\0` : `${file}\0\u0001`);
+  }
+  return hash.digest('base64');
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { builtinCoercers, createCoercerRegistry, schemaCoercerName } from './coercers.js';
+
+describe('builtinCoercers', () => {
+  it('reads durations as milliseconds', () => {
+    expect(builtinCoercers.duration('250ms')).toBe(250);
+    expect(builtinCoercers.duration('5s')).toBe(5000);
+    expect(builtinCoercers.duration('1h30m')).toBe(5_400_000);
+    expect(builtinCoercers.duration('1.5 S')).toBe(1500);
+    expect(builtinCoercers.duration('2d')).toBe(172_800_000);
+    expect(builtinCoercers.duration('1500')).toBe(1500);
+  });
+
+  it('rejects malformed durations', () => {
+    expect(() => builtinCoercers.duration('5 seconds')).toThrow('Expected a duration');
+    expect(() => builtinCoercers.duration('s5')).toThrow();
+    expect(() => builtinCoercers.duration('')).toThrow();
+  });
+
+  it('reads byte sizes with binary units', () => {
+    expect(builtinCoercers.bytes('512')).toBe(512);
+    expect(builtinCoercers.bytes('64kb')).toBe(65_536);
+    expect(builtinCoercers.bytes('10MB')).toBe(10_485_760);
+    expect(builtinCoercers.bytes('10M')).toBe(10_485_760);
+    expect(builtinCoercers.bytes('1.5GiB')).toBe(1_610_612_736);
+    expect(builtinCoercers.bytes('8 B')).toBe(8);
+  });
+
+  it('rejects malformed byte sizes', () => {
+    expect(() => builtinCoercers.bytes('10 megs')).toThrow('Expected a byte size');
+    expect(() => builtinCoercers.bytes('-1kb')).toThrow();
+  });
+
+  it('reads absolute URLs', () => {
+    const url = builtinCoercers.url('https://example.com:8443/api');
+    expect(url).toBeInstanceOf(URL);
+    expect((url as URL).port).toBe('8443');
+    expect(() => builtinCoercers.url('/relative')).toThrow('Expected an absolute URL');
+  });
+
+  it('reads ISO dates and date-times', () => {
+    expect(builtinCoercers.date('2024-01-01')).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(builtinCoercers.date('2024-01-01T09:30:00+02:00')).toEqual(
+      new Date('2024-01-01T07:30:00Z')
+    );
+    expect(() => builtinCoercers.date('01/02/2024')).toThrow('Expected an ISO 8601 date');
+    expect(() => builtinCoercers.date('2024-13-45')).toThrow();
+  });
+
+  it('reads integers of any size as bigints', () => {
+    expect(builtinCoercers.bigint('9007199254740993')).toBe(9_007_199_254_740_993n);
+    expect(builtinCoercers.bigint('-1')).toBe(-1n);
+    expect(() => builtinCoercers.bigint('1.5')).toThrow('Expected an integer');
+  });
+});
+
+describe('createCoercerRegistry', () => {
+  it('finds built-ins by name', () => {
+    expect(createCoercerRegistry().byName('duration').coerce('1s')).toBe(1000);
+  });
+
+  it('matches paths by pattern, ignoring case and separators', () => {
+    const registry = createCoercerRegistry({ duration: ['*Timeout'], bytes: ['upload.max'] });
+    expect(registry.forPath(['http', 'requestTimeout'])?.name).toBe('duration');
+    expect(registry.forPath(['upload', 'max'])?.name).toBe('bytes');
+    expect(registry.forPath(['port'])).toBeUndefined();
+  });
+
+  it('registers custom coercers and lets them replace built-ins', () => {
+    const registry = createCoercerRegistry({
+      semver: { paths: ['minVersion'], coerce: (raw) => raw.replace(/^v/, '') },
+      duration: { coerce: () => 42 }
+    });
+    expect(registry.forPath(['minVersion'])?.coerce('v1.2.3')).toBe('1.2.3');
+    expect(registry.byName('duration').coerce('1s')).toBe(42);
+  });
+
+  it('throws on unknown names', () => {
+    expect(() => createCoercerRegistry({ semver: ['version'] })).toThrow(
+      'Unknown coercer "semver"'
+    );
+    expect(() => createCoercerRegistry().byName('semver')).toThrow('Unknown coercer "semver"');
+  });
+});
+
+describe('schemaCoercerName', () => {
+  it('reads .meta() and @coerce description tags', () => {
+    expect(schemaCoercerName(z.number().meta({ coerce: 'duration' }))).toBe('duration');
+    expect(schemaCoercerName(z.number().describe('Upload limit @coerce bytes'))).toBe('bytes');
+    expect(schemaCoercerName(z.date().meta({ coerce: 'date' }).optional())).toBe('date');
+    expect(schemaCoercerName(z.number())).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+import type { EnviableValue } from './types.js';
+import { pathPatternMatcher } from './utils.js';
+
+/**
+ * Converts a raw env string into a config value. Throw to reject the value: `objectify()` reports
+ * the error message in an `ObjectEnvyError` issue naming the variable.
+ *
+ * @category Coercion
+ */
+export type Coercer = (value: string) => EnviableValue;
+
+/**
+ * Where a named coercer applies, and (for names that are not built in) what it does.
+ *
+ * @config
+ * @category Coercion
+ */
+export interface CoercerDefinition {
+  /**
+   * Config paths or key patterns the coercer applies to, with the same syntax as the `sensitive`
+   * option: case and `.`/`_` separators are ignored and `*` matches any run of characters.
+   * @example ['*Timeout', 'retry.delay']
+   */
+  paths?: string[];
+
+  /**
+   * The conversion. Required unless the name is a built-in coercer; given for a built-in name, it
+   * replaces the built-in.
+   */
+  coerce?: Coercer;
+}
+
+/**
+ * Names of the coercers that ship with objectenvy.
+ *
+ * @category Coercion
+ */
+export type BuiltinCoercerName = 'duration' | 'bytes' | 'url' | 'date' | 'bigint';
+
+const durationUnits: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000
+};
+
+const byteUnits: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+  pb: 1024 ** 5
+};
+
+const durationPattern = /^(?:\d+(?:\.\d+)?\s*(?:ms|s|m|h|d|w)\s*)+$/i;
+const durationPartPattern = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)/gi;
+const bytesPattern = /^(\d+(?:\.\d+)?)\s*(?:([kmgtp])(?:i?b)?|b)?$/i;
+const isoDatePattern =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Coercers available by name in the `coercers` option and in schema tags.
+ *
+ * @remarks
+ * - `duration` — `'250ms'`, `'5s'`, `'1h30m'`, `'2d'` (units `ms`, `s`, `m`, `h`, `d`, `w`) →
+ *   milliseconds as a number. A bare number is already milliseconds.
+ * - `bytes` — `'512'`, `'64kb'`, `'10MB'`, `'1.5GiB'` → bytes as a number. Units are binary
+ *   (`1KB` = 1024 bytes, same as `1KiB`) and case-insensitive.
+ * - `url` — an absolute URL → a `URL` instance.
+ * - `date` — an ISO 8601 date or date-time (`'2024-01-01'`, `'2024-01-01T09:30:00Z'`) → a `Date`.
+ * - `bigint` — an integer of any size → a `bigint`. `JSON.stringify()` throws on bigints unless
+ *   the config was built with `redact: true`, whose `toJSON` hook writes them as strings.
+ *
+ * Each throws on input it cannot read.
+ *
+ * @example
+ * import { builtinCoercers } from 'objectenvy';
+ * builtinCoercers.duration('1h30m'); // 5400000
+ * builtinCoercers.bytes('10MB');     // 10485760
+ *
+ * @category Coercion
+ */
+export const builtinCoercers: Record<BuiltinCoercerName, Coercer> = {
+  duration(value) {
+    const text = value.trim();
+    if (/^\d+(?:\.\d+)?$/.test(text)) return Number(text);
+    if (!durationPattern.test(text)) {
+      throw new Error('Expected a duration such as "500ms", "5s" or "1h30m"');
+    }
+    let total = 0;
+    for (const [, amount, unit] of text.matchAll(durationPartPattern)) {
+      total += Number(amount) * durationUnits[unit!.toLowerCase()]!;
+    }
+    return total;
+  },
+
+  bytes(value) {
+    const match = bytesPattern.exec(value.trim());
+    if (!match) throw new Error('Expected a byte size such as "512kb" or "10MB"');
+    const [, amount, unit = ''] = match;
+    return Math.round(Number(amount) * byteUnits[`${unit.toLowerCase()}b`]!);
+  },
+
+  url(value) {
+    try {
+      return new URL(value.trim());
+    } catch {
+      throw new Error('Expected an absolute URL');
+    }
+  },
+
+  date(value) {
+    const text = value.trim();
+    const date = new Date(text);
+    if (!isoDatePattern.test(text) || Number.isNaN(date.getTime())) {
+      throw new Error('Expected an ISO 8601 date such as "2024-01-01"');
+    }
+    return date;
+  },
+
+  bigint(value) {
+    const text = value.trim();
+    if (!/^-?\d+$/.test(text)) throw new Error('Expected an integer');
+    return BigInt(text);
+  }
+};
+
+/**
+ * A coercer together with the name it was registered under, for error reporting
+ */
+export interface NamedCoercer {
+  name: string;
+  coerce: Coercer;
+}
+
+/**
+ * Resolves coercers by name (for schema tags) and by config path (for `paths` globs)
+ */
+export interface CoercerRegistry {
+  byName(name: string): NamedCoercer;
+  forPath(path: ReadonlyArray<string | number>): NamedCoercer | undefined;
+}
+
+/**
+ * Build the registry for a `coercers` option. Names given as a bare array of paths must be
+ * built in; a name that is neither built in nor given a `coerce` function throws.
+ */
+export function createCoercerRegistry(
+  definitions: Record<string, string[] | CoercerDefinition> = {}
+): CoercerRegistry {
+  const named = new Map<string, NamedCoercer>();
+  for (const [name, coerce] of Object.entries(builtinCoercers)) {
+    named.set(name, { name, coerce });
+  }
+
+  const rules: Array<{ matches: (path: ReadonlyArray<string | number>) => boolean; name: string }> =
+    [];
+  for (const [name, definition] of Object.entries(definitions)) {
+    const { paths = [], coerce } = Array.isArray(definition) ? { paths: definition } : definition;
+    if (coerce) {
+      named.set(name, { name, coerce });
+    } else if (!named.has(name)) {
+      throw new Error(`Unknown coercer "${name}": give it a coerce function`);
+    }
+    if (paths.length > 0) rules.push({ matches: pathPatternMatcher(paths), name });
+  }
+
+  const byName = (name: string): NamedCoercer => {
+    const coercer = named.get(name);
+    if (!coercer) throw new Error(`Unknown coercer "${name}"`);
+    return coercer;
+  };
+
+  return {
+    byName,
+    forPath(path) {
+      const rule = rules.find(({ matches }) => matches(path));
+      return rule ? byName(rule.name) : undefined;
+    }
+  };
+}
+
+/**
+ * The coercer name a schema node is tagged with: `.meta({ coerce: 'duration' })` (Zod v4) or a
+ * description containing `@coerce duration` (`.describe()`, Zod v3 and v4). Tags on schemas wrapped
+ * by optional/default/nullable are found too.
+ */
+export function schemaCoercerName(schema: unknown): string | undefined {
+  if (!schema || typeof schema !== 'object') return undefined;
+  const node = schema as {
+    description?: unknown;
+    meta?: unknown;
+    _def?: Record<string, unknown>;
+  };
+
+  if (typeof node.meta === 'function') {
+    const meta: unknown = (node.meta as () => unknown).call(schema);
+    if (meta && typeof meta === 'object') {
+      const name = (meta as Record<string, unknown>)['coerce'];
+      if (typeof name === 'string') return name;
+    }
+  }
+
+  const description = node.description ?? node._def?.['description'];
+  if (typeof description === 'string') {
+    const match = /@coerce\s+([\w-]+)/.exec(description);
+    if (match) return match[1];
+  }
+
+  return schemaCoercerName(node._def?.['innerType']);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { resolveConflicts } from './conflicts.js';
+
+const writes = [
+  { envKey: 'LOG_LEVEL', path: ['log', 'level'], value: 'debug' },
+  { envKey: 'LOG', path: ['log'], value: true },
+  { envKey: 'PORT', path: ['port'], value: 80 }
+];
+
+describe('resolveConflicts', () => {
+  it('pairs each branch write with the value above it, in any order', () => {
+    const { conflicts } = resolveConflicts(writes, 'branch-wins');
+    expect(conflicts).toEqual([
+      {
+        leaf: { envKey: 'LOG', path: ['log'] },
+        branch: { envKey: 'LOG_LEVEL', path: ['log', 'level'] }
+      }
+    ]);
+  });
+
+  it('drops the value or the writes below it', () => {
+    expect(resolveConflicts(writes, 'branch-wins').writes.map((write) => write.envKey)).toEqual([
+      'LOG_LEVEL',
+      'PORT'
+    ]);
+    expect(resolveConflicts(writes, 'leaf-wins').writes.map((write) => write.envKey)).toEqual([
+      'LOG',
+      'PORT'
+    ]);
+  });
+
+  it('moves the value to _value under value-key', () => {
+    expect(resolveConflicts(writes, 'value-key').writes).toEqual([
+      { envKey: 'LOG_LEVEL', path: ['log', 'level'], value: 'debug' },
+      { envKey: 'LOG', path: ['log', '_value'], value: true },
+      { envKey: 'PORT', path: ['port'], value: 80 }
+    ]);
+  });
+
+  it('reports a chain of values against the nearest one', () => {
+    const chain = [
+      { envKey: 'A', path: ['a'], value: 1 },
+      { envKey: 'A_B', path: ['a', 'b'], value: 2 },
+      { envKey: 'A_B_C', path: ['a', 'b', 'c'], value: 3 }
+    ];
+    const { conflicts, writes: kept } = resolveConflicts(chain, 'branch-wins');
+    expect(conflicts.map(({ leaf, branch }) => [leaf.envKey, branch.envKey])).toEqual([
+      ['A', 'A_B'],
+      ['A_B', 'A_B_C']
+    ]);
+    expect(kept.map((write) => write.envKey)).toEqual(['A_B_C']);
+    expect(resolveConflicts(chain, 'leaf-wins').writes.map((write) => write.envKey)).toEqual(['A']);
+  });
+
+  it('leaves objects and arrays written at a parent path alone', () => {
+    const merged = [
+      { envKey: 'DB', path: ['db'], value: { host: 'a' } },
+      { envKey: 'DB_PORT', path: ['db', 'port'], value: 1 },
+      { envKey: 'HOSTS', path: ['hosts'], value: ['a', 'b'] },
+      { envKey: 'HOSTS_2', path: ['hosts', 2], value: 'c' }
+    ];
+    expect(resolveConflicts(merged, 'error')).toEqual({ writes: merged, conflicts: [] });
+  });
+});
@@ -0,0 +1,78 @@
+import type { ConflictPolicy } from './types.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * Field a value moves to under the `'value-key'` policy when its path is also a parent:
+ * `LOG=true` becomes `log._value`
+ */
+export const VALUE_KEY = '_value';
+
+/**
+ * A value an env variable writes into the config
+ */
+export interface ConfigWrite {
+  envKey: string;
+  path: Array<string | number>;
+  value: unknown;
+}
+
+/**
+ * A variable setting a path to a value (`leaf`) while another sets a field below it (`branch`)
+ */
+export interface KeyConflict {
+  leaf: { envKey: string; path: Array<string | number> };
+  branch: { envKey: string; path: Array<string | number> };
+}
+
+/**
+ * Objects and arrays can hold fields; anything else written at a path is a value
+ */
+function isLeaf(value: unknown): boolean {
+  return !isPlainObject(value) && !Array.isArray(value);
+}
+
+/**
+ * Find writes whose path is below a path another write sets to a value, and apply `policy`:
+ * drop the branch writes (`'leaf-wins'`), drop the values (`'branch-wins'`, also used for
+ * `'error'`) or move the values to {@link VALUE_KEY}. Each conflict pairs a branch write with the
+ * nearest value above it, whatever order the writes come in.
+ */
+export function resolveConflicts<W extends ConfigWrite>(
+  writes: W[],
+  policy: ConflictPolicy
+): { writes: W[]; conflicts: KeyConflict[] } {
+  const leaves = new Map<string, W>();
+  for (const write of writes) {
+    if (isLeaf(write.value)) leaves.set(write.path.join('.'), write);
+  }
+
+  const conflicts: KeyConflict[] = [];
+  // Values that are also parents, and branch writes below any value
+  const parents = new Set<W>();
+  const shadowed = new Set<W>();
+  for (const write of writes) {
+    for (let length = write.path.length - 1; length > 0; length--) {
+      const leaf = leaves.get(write.path.slice(0, length).join('.'));
+      if (!leaf) continue;
+      if (shadowed.has(write)) {
+        parents.add(leaf);
+        continue;
+      }
+      conflicts.push({
+        leaf: { envKey: leaf.envKey, path: leaf.path },
+        branch: { envKey: write.envKey, path: write.path }
+      });
+      parents.add(leaf);
+      shadowed.add(write);
+    }
+  }
+  if (conflicts.length === 0) return { writes, conflicts };
+
+  const resolved = writes.flatMap((write): W[] => {
+    if (policy === 'leaf-wins') return shadowed.has(write) ? [] : [write];
+    if (!parents.has(write)) return [write];
+    if (policy === 'value-key') return [{ ...write, path: [...write.path, VALUE_KEY] }];
+    return [];
+  });
+  return { writes: resolved, conflicts };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseConfigPath, resolveDeprecations } from './deprecations.js';
+import { ObjectEnvyError } from './errors.js';
+
+const envKeyFor = (path: Array<string | number>) =>
+  `APP_${path.map((segment) => String(segment).toUpperCase()).join('_')}`;
+const isAbsent = (value: string | undefined) => value === undefined || value === '';
+const now = new Date('2026-06-01T00:00:00Z');
+
+describe('parseConfigPath', () => {
+  it('splits on dots and turns numeric segments into indices', () => {
+    expect(parseConfigPath('database.host')).toEqual(['database', 'host']);
+    expect(parseConfigPath('servers.0.host')).toEqual(['servers', 0, 'host']);
+  });
+});
+
+describe('resolveDeprecations', () => {
+  it('maps a set deprecated variable to its path and warns', () => {
+    const result = resolveDeprecations(
+      { DB_HOST: 'db' },
+      { DB_HOST: 'database.host' },
+      envKeyFor,
+      isAbsent,
+      now
+    );
+    expect(result.env).toEqual({ DB_HOST: 'db' });
+    expect(result.paths).toEqual(new Map([['DB_HOST', ['database', 'host']]]));
+    expect(result.warnings).toEqual([
+      {
+        code: 'deprecated_key',
+        envKey: 'DB_HOST',
+        message: 'Deprecated; use APP_DATABASE_HOST instead',
+        replacement: 'APP_DATABASE_HOST'
+      }
+    ]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('drops the deprecated variable when its replacement is set', () => {
+    const result = resolveDeprecations(
+      { DB_HOST: 'old', APP_DATABASE_HOST: 'new' },
+      { DB_HOST: { path: 'database.host', sunset: '2027-01-01' } },
+      envKeyFor,
+      isAbsent,
+      now
+    );
+    expect(result.env).toEqual({ APP_DATABASE_HOST: 'new' });
+    expect(result.paths.size).toBe(0);
+    expect(result.warnings[0]?.message).toBe(
+      'Deprecated and ignored because APP_DATABASE_HOST is set (stops working on 2027-01-01)'
+    );
+  });
+
+  it('reports variables set past their sunset', () => {
+    const result = resolveDeprecations(
+      { DB_HOST: 'db' },
+      { DB_HOST: { path: 'database.host', sunset: new Date('2026-01-01T00:00:00Z') } },
+      envKeyFor,
+      isAbsent,
+      now
+    );
+    expect(result.env).toEqual({});
+    expect(result.warnings).toEqual([]);
+    expect(result.issues).toEqual([
+      {
+        path: ['database', 'host'],
+        envKey: 'DB_HOST',
+        rawValue: 'db',
+        expected: undefined,
+        message: 'Removed on 2026-01-01; use APP_DATABASE_HOST instead',
+        code: 'deprecated_key'
+      }
+    ]);
+  });
+
+  it('ignores deprecated variables that are not set', () => {
+    const result = resolveDeprecations(
+      { DB_HOST: '' },
+      { DB_HOST: 'database.host', DB_PORT: 'database.port' },
+      envKeyFor,
+      isAbsent,
+      now
+    );
+    expect(result.paths.size).toBe(0);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('lists the path of every replacement variable, set or not', () => {
+    const result = resolveDeprecations({}, { DB_HOST: 'database.host' }, envKeyFor, isAbsent, now);
+    expect(result.replacements).toEqual(new Map([['APP_DATABASE_HOST', ['database', 'host']]]));
+  });
+
+  it('rejects invalid sunsets whether or not the variable is set', () => {
+    for (const sunset of ['2020-13-45', '2020-02-30', 'soon', new Date('nope')]) {
+      expect(() =>
+        resolveDeprecations(
+          {},
+          { DB_HOST: { path: 'database.host', sunset } },
+          envKeyFor,
+          isAbsent,
+          now
+        )
+      ).toThrow(ObjectEnvyError);
+    }
+    try {
+      resolveDeprecations(
+        { DB_HOST: 'db' },
+        { DB_HOST: { path: 'database.host', sunset: '2020-13-45' } },
+        envKeyFor,
+        isAbsent,
+        now
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues).toEqual([
+        {
+          path: ['database', 'host'],
+          envKey: 'DB_HOST',
+          rawValue: 'db',
+          expected: 'a YYYY-MM-DD date',
+          message: 'Invalid sunset "2020-13-45" in deprecations',
+          code: 'invalid_sunset'
+        }
+      ]);
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { ObjectEnvyError } from './errors.js';
+import type { ObjectEnvyIssue } from './errors.js';
+import type { ConfigWarning, DeprecatedKey } from './types.js';
+
+/**
+ * Split a dot-joined config path; numeric segments become array indices (`'servers.0.host'`)
+ */
+export function parseConfigPath(path: string): Array<string | number> {
+  return path
+    .split('.')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * `YYYY-MM-DD` for a sunset date, as it appears in messages
+ */
+function formatSunset(sunset: string | Date): string {
+  return typeof sunset === 'string' ? sunset : sunset.toISOString().slice(0, 10);
+}
+
+/**
+ * The moment a sunset takes effect, or undefined when it is not a valid date. A `YYYY-MM-DD`
+ * string must name a real day (`2020-02-30` does not roll over into March).
+ */
+function parseSunset(sunset: string | Date): Date | undefined {
+  const date = new Date(sunset);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (typeof sunset === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(sunset)) {
+    return date.toISOString().slice(0, 10) === sunset ? date : undefined;
+  }
+  return date;
+}
+
+interface ResolvedDeprecations {
+  /** The env with deprecated variables that lost to their replacement removed */
+  env: Record<string, string | undefined>;
+  /** Config path fed by each deprecated variable still in `env` */
+  paths: Map<string, Array<string | number>>;
+  warnings: ConfigWarning[];
+  /** Deprecated variables set past their sunset */
+  issues: ObjectEnvyIssue[];
+  /**
+   * Config path of each replacement variable, so it lands where its deprecated name would even
+   * when heuristic nesting would place it elsewhere
+   */
+  replacements: Map<string, Array<string | number>>;
+}
+
+/**
+ * Route the deprecated variables set in `env` to their replacement paths. `envKeyFor` names the
+ * variable that feeds a path today; when that one is set too, it wins and the old one is dropped.
+ *
+ * @throws {ObjectEnvyError} When a `sunset` is not a valid date, whether or not its variable is set.
+ */
+export function resolveDeprecations(
+  env: Record<string, string | undefined>,
+  deprecations: Record<string, string | DeprecatedKey>,
+  envKeyFor: (path: Array<string | number>) => string,
+  isAbsent: (value: string | undefined, envKey: string) => boolean,
+  now = new Date()
+): ResolvedDeprecations {
+  const result = { ...env };
+  const paths = new Map<string, Array<string | number>>();
+  const warnings: ConfigWarning[] = [];
+  const issues: ObjectEnvyIssue[] = [];
+  const replacements = new Map<string, Array<string | number>>();
+
+  const definitions = Object.entries(deprecations).map(([envKey, definition]) => {
+    const { path: target, sunset } =
+      typeof definition === 'string' ? { path: definition, sunset: undefined } : definition;
+    const path = parseConfigPath(target);
+    return {
+      envKey,
+      path,
+      sunset,
+      sunsetDate: sunset === undefined ? undefined : parseSunset(sunset)
+    };
+  });
+  const invalid = definitions.filter(
+    ({ sunset, sunsetDate }) => sunset !== undefined && !sunsetDate
+  );
+  if (invalid.length > 0) {
+    throw new ObjectEnvyError(
+      invalid.map(({ envKey, path, sunset }) => ({
+        path,
+        envKey,
+        rawValue: env[envKey],
+        expected: 'a YYYY-MM-DD date',
+        message: `Invalid sunset ${typeof sunset === 'string' ? `"${sunset}"` : 'date'} in deprecations`,
+        code: 'invalid_sunset'
+      }))
+    );
+  }
+
+  for (const { envKey, path, sunset, sunsetDate } of definitions) {
+    const replacement = envKeyFor(path);
+    replacements.set(replacement, path);
+    if (isAbsent(env[envKey], envKey)) continue;
+
+    if (sunset !== undefined && sunsetDate && now >= sunsetDate) {
+      issues.push({
+        path,
+        envKey,
+        rawValue: env[envKey],
+        expected: undefined,
+        message: `Removed on ${formatSunset(sunset)}; use ${replacement} instead`,
+        code: 'deprecated_key'
+      });
+      delete result[envKey];
+      continue;
+    }
+
+    const until = sunset === undefined ? '' : ` (stops working on ${formatSunset(sunset)})`;
+    if (!isAbsent(env[replacement], replacement)) {
+      delete result[envKey];
+      warnings.push({
+        code: 'deprecated_key',
+        envKey,
+        message: `Deprecated and ignored because ${replacement} is set${until}`,
+        replacement
+      });
+      continue;
+    }
+    paths.set(envKey, path);
+    warnings.push({
+      code: 'deprecated_key',
+      envKey,
+      message: `Deprecated; use ${replacement} instead${until}`,
+      replacement
+    });
+  }
+
+  return { env: result, paths, warnings, issues, replacements };
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseEnv, loadEnv, loadEnvFiles, resolveEnvFiles } from './dotenv.js';
+
+describe('parseEnv', () => {
+  it('parses simple assignments', () => {
+    expect(parseEnv('PORT=3000\nHOST=localhost')).toEqual({ PORT: '3000', HOST: 'localhost' });
+  });
+
+  it('skips blank lines and comment lines', () => {
+    expect(parseEnv('# comment\n\n  # indented comment\nPORT=3000\n')).toEqual({ PORT: '3000' });
+  });
+
+  it('strips export prefixes', () => {
+    expect(parseEnv('export PORT=3000\nexport  HOST = localhost')).toEqual({
+      PORT: '3000',
+      HOST: 'localhost'
+    });
+  });
+
+  it('strips inline comments from unquoted values', () => {
+    expect(parseEnv('PORT=3000 # web port\nEMPTY= # nothing')).toEqual({ PORT: '3000', EMPTY: '' });
+  });
+
+  it('keeps # that is not preceded by whitespace', () => {
+    expect(parseEnv('URL=http://example.com/#anchor')).toEqual({
+      URL: 'http://example.com/#anchor'
+    });
+  });
+
+  it('handles single, double and backtick quotes', () => {
+    const env = parseEnv(`A='single # not a comment'\nB="double"\nC=\`back'tick"\``);
+    expect(env).toEqual({ A: 'single # not a comment', B: 'double', C: `back'tick"` });
+  });
+
+  it('ignores comments after a closing quote', () => {
+    expect(parseEnv('NAME="value" # comment')).toEqual({ NAME: 'value' });
+  });
+
+  it('expands escape sequences in double-quoted values only', () => {
+    const env = parseEnv(`A="line1\\nline2\\t\\"quoted\\" \\\\"\nB='line1\\nline2'`);
+    expect(env['A']).toBe('line1\nline2\t"quoted" \\');
+    expect(env['B']).toBe('line1\\nline2');
+  });
+
+  it('keeps unknown escape sequences verbatim', () => {
+    expect(parseEnv('A="cost \\$5"')).toEqual({ A: 'cost \\$5' });
+  });
+
+  it('parses multi-line quoted values', () => {
+    const content = 'KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1';
+    expect(parseEnv(content)).toEqual({ KEY: '-----BEGIN-----\nabc\n-----END-----', NEXT: '1' });
+  });
+
+  it('falls back to the raw line when a quote is never closed', () => {
+    expect(parseEnv('A="unterminated\nB=2')).toEqual({ A: '"unterminated', B: '2' });
+  });
+
+  it('normalizes CRLF line endings', () => {
+    expect(parseEnv('A=1\r\nB="x\r\ny"\r\n')).toEqual({ A: '1', B: 'x\ny' });
+  });
+
+  it('lets the last assignment win', () => {
+    expect(parseEnv('A=1\nA=2')).toEqual({ A: '2' });
+  });
+
+  it('ignores lines without an assignment', () => {
+    expect(parseEnv('not an assignment\nA=1')).toEqual({ A: '1' });
+  });
+});
+
+describe('loadEnv', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges files in order with later files winning', () => {
+    writeFileSync(join(dir, '.env'), 'PORT=3000\nHOST=localhost');
+    writeFileSync(join(dir, '.env.local'), 'PORT=4000');
+    expect(loadEnv(['.env', '.env.local'], { cwd: dir })).toEqual({
+      PORT: '4000',
+      HOST: 'localhost'
+    });
+  });
+
+  it('skips missing files', () => {
+    writeFileSync(join(dir, '.env'), 'PORT=3000');
+    expect(loadEnv(['.env', '.env.missing'], { cwd: dir })).toEqual({ PORT: '3000' });
+  });
+
+  it('accepts absolute paths', () => {
+    writeFileSync(join(dir, '.env'), 'PORT=3000');
+    expect(loadEnv([join(dir, '.env')])).toEqual({ PORT: '3000' });
+  });
+
+  it('rethrows read errors other than a missing file', () => {
+    mkdirSync(join(dir, '.env'));
+    expect(() => loadEnv(['.env'], { cwd: dir })).toThrow();
+  });
+});
+
+describe('resolveEnvFiles', () => {
+  it('returns the base layers without a mode', () => {
+    expect(resolveEnvFiles()).toEqual(['.env', '.env.local']);
+  });
+
+  it('appends mode layers in precedence order', () => {
+    expect(resolveEnvFiles('staging')).toEqual([
+      '.env',
+      '.env.local',
+      '.env.staging',
+      '.env.staging.local'
+    ]);
+  });
+});
+
+describe('loadEnvFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the file each key came from', () => {
+    writeFileSync(join(dir, '.env'), 'HOST=localhost\nPORT=3000');
+    writeFileSync(join(dir, '.env.production'), 'HOST=prod.example.com');
+    const { env, sources } = loadEnvFiles(resolveEnvFiles('production'), { cwd: dir });
+    expect(env).toEqual({ HOST: 'prod.example.com', PORT: '3000' });
+    expect(sources).toEqual({ HOST: '.env.production', PORT: '.env' });
+  });
+
+  it('lets empty values override earlier layers by default', () => {
+    writeFileSync(join(dir, '.env'), 'PROXY=http://proxy');
+    writeFileSync(join(dir, '.env.local'), 'PROXY=');
+    expect(loadEnvFiles(['.env', '.env.local'], { cwd: dir }).env).toEqual({ PROXY: '' });
+  });
+
+  it('keeps earlier non-empty values with skipEmpty', () => {
+    writeFileSync(join(dir, '.env'), 'PROXY=http://proxy');
+    writeFileSync(join(dir, '.env.local'), 'PROXY=');
+    const { env, sources } = loadEnvFiles(['.env', '.env.local'], { cwd: dir, skipEmpty: true });
+    expect(env).toEqual({ PROXY: 'http://proxy' });
+    expect(sources).toEqual({ PROXY: '.env' });
+  });
+
+  it('decides per key with a skipEmpty function', () => {
+    writeFileSync(join(dir, '.env'), 'PROXY=http://proxy\nHOST=a');
+    writeFileSync(join(dir, '.env.local'), 'PROXY=\nHOST=');
+    const { env } = loadEnvFiles(['.env', '.env.local'], {
+      cwd: dir,
+      skipEmpty: (key) => key !== 'PROXY'
+    });
+    expect(env).toEqual({ PROXY: '', HOST: 'a' });
+  });
+});
@@ -0,0 +1,269 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * Options for {@link loadEnv}.
+ *
+ * @config
+ * @category Parsing
+ */
+export interface LoadEnvOptions {
+  /**
+   * Directory that relative file paths are resolved against.
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * When `true`, an empty value in a later file does not override a non-empty value from an
+   * earlier file — the same "non-absent values win" rule `objectify()` applies when `coerce` is on.
+   * A function decides per key.
+   * @default false
+   */
+  skipEmpty?: boolean | ((key: string) => boolean);
+}
+
+/**
+ * Result of {@link loadEnvFiles}: the merged record plus the file each key was taken from.
+ *
+ * @category Parsing
+ */
+export interface LoadedEnv {
+  /** Merged key/value record from all files that exist. */
+  env: Record<string, string>;
+  /** Maps each key in `env` to the file (as listed) whose value won. */
+  sources: Record<string, string>;
+}
+
+// KEY=value, optionally preceded by `export`. Keys follow the POSIX-ish convention used by dotenv.
+const assignmentPattern = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+const escapeSequences: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\'
+};
+
+/**
+ * Find the index of the closing quote in `body`, honouring backslash escapes for double quotes
+ */
+function findClosingQuote(body: string, quote: string): number {
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote === '"' && char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === quote) return i;
+  }
+  return -1;
+}
+
+/**
+ * Expand escape sequences inside a double-quoted value. Unknown escapes are kept verbatim.
+ */
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\(.)/g, (sequence, char: string) => escapeSequences[char] ?? sequence);
+}
+
+/**
+ * Strip an inline comment (a `#` preceded by whitespace) from an unquoted value
+ */
+function stripInlineComment(value: string): string {
+  if (value.startsWith('#')) return '';
+  return value.replace(/\s+#.*$/, '').trim();
+}
+
+/**
+ * Parse the contents of a `.env` file into a flat key/value record.
+ *
+ * @remarks
+ * Supports the dotenv syntax most tooling agrees on:
+ * - `KEY=value` and `export KEY=value` assignments; blank lines and `#` comment lines are skipped.
+ * - Unquoted values are trimmed, and anything after a whitespace-preceded `#` is an inline comment.
+ * - Single-quoted (`'...'`) and backtick (`` `...` ``) values are taken literally.
+ * - Double-quoted (`"..."`) values expand `\n`, `\r`, `\t`, `\"` and `\\`; other escapes are kept as written.
+ * - Quoted values may span multiple lines; the value runs until the matching closing quote.
+ *
+ * When a key appears more than once, the last assignment wins. A quoted value with no closing quote
+ * falls back to being read as an unquoted single-line value.
+ *
+ * @param content - Raw `.env` file contents.
+ * @returns A record of env keys to their unquoted string values.
+ *
+ * @useWhen
+ * - You have `.env` text from somewhere other than the filesystem (an editor buffer, a secret store).
+ * - You want to feed file-style config into `objectify({ env })` without depending on `dotenv`.
+ *
+ * @avoidWhen
+ * - You are reading files from disk — use `loadEnv()` or `objectify({ files })` instead.
+ *
+ * @pitfalls
+ * - NEVER expect `${VAR}` references to be expanded here — BECAUSE `parseEnv` returns values exactly as
+ *   written; interpolation is a separate concern.
+ * - NEVER write `KEY=value#comment` and expect the comment stripped — BECAUSE an inline comment must be
+ *   preceded by whitespace, otherwise `#` is part of the value (URLs with fragments depend on this).
+ *
+ * @example
+ * import { parseEnv } from 'objectenvy';
+ * parseEnv('export PORT=3000 # web\nGREETING="hello\\nworld"');
+ * // { PORT: '3000', GREETING: 'hello\nworld' }
+ *
+ * @category Parsing
+ * @see {@link loadEnv} for reading and parsing files from disk
+ */
+export function parseEnv(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = assignmentPattern.exec(lines[i]!);
+    if (!match) continue;
+
+    const key = match[1]!;
+    const rest = match[2]!.trim();
+    const quote = rest[0];
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      let body = rest.slice(1);
+      let end = findClosingQuote(body, quote);
+      let lineIndex = i;
+
+      // Multi-line values keep consuming lines until the closing quote is found
+      while (end === -1 && lineIndex + 1 < lines.length) {
+        lineIndex++;
+        body += `\n${lines[lineIndex]}`;
+        end = findClosingQuote(body, quote);
+      }
+
+      if (end !== -1) {
+        const value = body.slice(0, end);
+        env[key] = quote === '"' ? unescapeDoubleQuoted(value) : value;
+        i = lineIndex;
+        continue;
+      }
+    }
+
+    env[key] = stripInlineComment(rest);
+  }
+
+  return env;
+}
+
+/**
+ * List the `.env` files for a mode, from lowest to highest precedence.
+ *
+ * @remarks
+ * Follows the layering used by Vite and Next.js:
+ *
+ * 1. `.env` — shared defaults, committed
+ * 2. `.env.local` — local overrides, git-ignored
+ * 3. `.env.<mode>` — mode-specific values, committed
+ * 4. `.env.<mode>.local` — local mode-specific overrides, git-ignored
+ *
+ * Without a mode only the first two layers are returned. The actual process env sits above all of
+ * them when the files are loaded through `objectify({ mode })`.
+ *
+ * @param mode - Profile name such as `'development'`, `'staging'` or `'production'`.
+ * @returns File names relative to the project root, lowest precedence first.
+ *
+ * @example
+ * import { resolveEnvFiles } from 'objectenvy';
+ * resolveEnvFiles('staging');
+ * // ['.env', '.env.local', '.env.staging', '.env.staging.local']
+ *
+ * @category Parsing
+ * @see {@link loadEnvFiles} to load the resulting chain with per-key provenance
+ */
+export function resolveEnvFiles(mode?: string): string[] {
+  const files = ['.env', '.env.local'];
+  if (mode) {
+    files.push(`.env.${mode}`, `.env.${mode}.local`);
+  }
+  return files;
+}
+
+/**
+ * Read and parse `.env` files in order, recording which file each key came from.
+ *
+ * @remarks
+ * Behaves like {@link loadEnv} — later files win, missing files are skipped — and additionally
+ * returns a `sources` map from each key to the file (as listed in `files`) that supplied its final
+ * value. Use it to answer "where did this value come from?" when several layers define the same key.
+ *
+ * @param files - File paths, resolved against `options.cwd` when relative.
+ * @param options - Loader options.
+ * @returns The merged record and the per-key source file.
+ *
+ * @example
+ * import { loadEnvFiles, resolveEnvFiles } from 'objectenvy';
+ * const { env, sources } = loadEnvFiles(resolveEnvFiles('production'));
+ * // sources.DATABASE_HOST === '.env.production'
+ *
+ * @category Parsing
+ * @see {@link resolveEnvFiles} for the standard mode chain
+ */
+export function loadEnvFiles(files: string[], options: LoadEnvOptions = {}): LoadedEnv {
+  const { cwd = process.cwd(), skipEmpty = false } = options;
+  const env: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = readFileSync(resolve(cwd, file), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    for (const [key, value] of Object.entries(parseEnv(content))) {
+      const skip = typeof skipEmpty === 'function' ? skipEmpty(key) : skipEmpty;
+      if (skip && value === '' && env[key]) continue;
+      env[key] = value;
+      sources[key] = file;
+    }
+  }
+
+  return { env, sources };
+}
+
+/**
+ * Read and parse one or more `.env` files, merging them in order.
+ *
+ * @remarks
+ * Files are parsed with {@link parseEnv} and merged left to right, so a key defined in a later file
+ * overrides the same key from an earlier one. Files that do not exist are skipped silently, which lets
+ * you list optional files such as `.env.local` unconditionally. Any other read error (permissions, a
+ * directory instead of a file) is rethrown.
+ *
+ * Reads are synchronous so the result can be passed straight into the synchronous `objectify()`.
+ *
+ * @param files - File paths, resolved against `options.cwd` when relative.
+ * @param options - Loader options.
+ * @returns The merged key/value record from all files that exist.
+ *
+ * @useWhen
+ * - You want the raw merged record from several `.env` files, e.g. to inspect or log it.
+ *
+ * @avoidWhen
+ * - You only need the final config object — pass `files` to `objectify()` and skip the intermediate record.
+ *
+ * @pitfalls
+ * - NEVER rely on `loadEnv()` to mutate `process.env` — BECAUSE it only returns a new record; combine it
+ *   with `process.env` yourself (or use `objectify({ files })`, where real env values win).
+ *
+ * @example
+ * import { loadEnv } from 'objectenvy';
+ * const env = loadEnv(['.env', '.env.local']);
+ * // values from .env.local override values from .env
+ *
+ * @category Parsing
+ * @see {@link parseEnv} for the underlying parser
+ * @see {@link loadEnvFiles} to also get the file each key came from
+ */
+export function loadEnv(files: string[], options: LoadEnvOptions = {}): Record<string, string> {
+  return loadEnvFiles(files, options).env;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ObjectEnvyError, issuesFromZodError } from './errors.js';
+
+describe('issuesFromZodError', () => {
+  const locate = (path: Array<string | number>) => ({
+    envKey: `APP_${path.join('_').toUpperCase()}`,
+    rawValue: path[0] === 'port' ? undefined : 'verbose'
+  });
+
+  it('maps type issues with the expected type', () => {
+    const result = z.object({ port: z.number() }).safeParse({});
+    expect(result.success).toBe(false);
+    const [issue] = issuesFromZodError(result.error!, locate);
+    expect(issue).toMatchObject({
+      path: ['port'],
+      envKey: 'APP_PORT',
+      rawValue: undefined,
+      expected: 'number',
+      code: 'invalid_type'
+    });
+  });
+
+  it('describes enum issues by their accepted values', () => {
+    const schema = z.object({ log: z.object({ level: z.enum(['debug', 'info']) }) });
+    const result = schema.safeParse({ log: { level: 'verbose' } });
+    const [issue] = issuesFromZodError(result.error!, locate);
+    expect(issue).toMatchObject({
+      path: ['log', 'level'],
+      envKey: 'APP_LOG_LEVEL',
+      rawValue: 'verbose',
+      expected: "'debug' | 'info'"
+    });
+  });
+
+  it('leaves expected undefined for custom issues', () => {
+    const schema = z.object({ name: z.string().refine(() => false, 'nope') });
+    const [issue] = issuesFromZodError(schema.safeParse({ name: 'x' }).error!, locate);
+    expect(issue).toMatchObject({ expected: undefined, message: 'nope', code: 'custom' });
+  });
+});
+
+describe('ObjectEnvyError', () => {
+  const issues = [
+    {
+      path: ['log', 'level'],
+      envKey: 'APP_LOG_LEVEL',
+      rawValue: 'verbose',
+      expected: "'debug' | 'info'",
+      message: 'Invalid option',
+      code: 'invalid_value'
+    },
+    {
+      path: ['port'],
+      envKey: 'APP_PORT',
+      rawValue: undefined,
+      expected: 'number',
+      message: 'Invalid input',
+      code: 'invalid_type'
+    }
+  ];
+
+  it('formats one line per issue', () => {
+    const error = new ObjectEnvyError(issues);
+    expect(error.format()).toBe(
+      [
+        'Invalid environment configuration (2 issues):',
+        `  APP_LOG_LEVEL (log.level): Invalid option — expected 'debug' | 'info', received "verbose"`,
+        '  APP_PORT (port): Invalid input — expected number, not set'
+      ].join('\n')
+    );
+  });
+
+  it('uses the formatted text as its message', () => {
+    const error = new ObjectEnvyError(issues.slice(1));
+    expect(error.message).toBe(error.format());
+    expect(error.message).toContain('(1 issue)');
+    expect(error.name).toBe('ObjectEnvyError');
+  });
+
+  it('keeps the original error as cause', () => {
+    const cause = new Error('original');
+    expect(new ObjectEnvyError(issues, { cause }).cause).toBe(cause);
+  });
+});
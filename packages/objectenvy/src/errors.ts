@@ -0,0 +1,184 @@
+import { REDACTED } from './redact.js';
+import type { StandardSchemaV1 } from './standardSchema.js';
+
+/**
+ * A single validation failure, mapped back from the config path to the env variable it came from.
+ *
+ * @category Parsing
+ */
+export interface ObjectEnvyIssue {
+  /** Path in the config object, e.g. `['log', 'level']`. */
+  path: Array<string | number>;
+  /** Env variable that feeds this path, with prefix and delimiter applied, e.g. `APP_LOG_LEVEL`. */
+  envKey: string;
+  /** Raw string value read from the env, or `undefined` when the variable was not set. */
+  rawValue: string | undefined;
+  /** Human-readable description of the expected type, when the validator reports one. */
+  expected: string | undefined;
+  /** Validator message for this issue. */
+  message: string;
+  /** Validator issue code, e.g. `invalid_type`. */
+  code: string;
+}
+
+/**
+ * Where a config path was read from — used to map validator issues back to env variables.
+ */
+export interface IssueSource {
+  envKey: string;
+  rawValue: string | undefined;
+  /** The path holds a secret: its raw value is masked, in the validator message too */
+  sensitive?: boolean;
+}
+
+/**
+ * Error thrown by `objectify()` (and returned by `safeObjectify()`) when the built config fails
+ * schema validation.
+ *
+ * @remarks
+ * Validators report paths in config terms (`['log', 'level']`), but operators only see env
+ * variable names. Each entry in `issues` carries both, along with the raw string that was read and
+ * the expected type, so startup logs can say exactly which variable to fix. With a Zod schema the
+ * original `ZodError` is preserved as `cause`; other validators' results are not attached, since
+ * they carry the raw input.
+ *
+ * `message` is the same multi-line text returned by {@link ObjectEnvyError.format}.
+ *
+ * @example
+ * import { objectify, ObjectEnvyError } from 'objectenvy';
+ * try {
+ *   objectify({ prefix: 'APP', schema });
+ * } catch (error) {
+ *   if (error instanceof ObjectEnvyError) {
+ *     console.error(error.format());
+ *     process.exit(1);
+ *   }
+ *   throw error;
+ * }
+ *
+ * @category Parsing
+ */
+export class ObjectEnvyError extends Error {
+  constructor(
+    public issues: ObjectEnvyIssue[],
+    options?: { cause?: unknown }
+  ) {
+    super(formatIssues(issues), options);
+    this.name = 'ObjectEnvyError';
+  }
+
+  /**
+   * Render every issue as one line per env variable, suitable for startup logs.
+   *
+   * @example
+   * // Invalid environment configuration (2 issues):
+   * //   APP_LOG_LEVEL (log.level): Invalid option — expected 'debug' | 'info', received "verbose"
+   * //   APP_PORT (port): Invalid input — expected number, not set
+   */
+  format(): string {
+    return formatIssues(this.issues);
+  }
+}
+
+/**
+ * Build the multi-line summary shared by `message` and `format()`
+ */
+function formatIssues(issues: ObjectEnvyIssue[]): string {
+  const count = `${issues.length} issue${issues.length === 1 ? '' : 's'}`;
+  const lines = issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    const details: string[] = [];
+    if (issue.expected) details.push(`expected ${issue.expected}`);
+    details.push(
+      issue.rawValue === undefined ? 'not set' : `received ${JSON.stringify(issue.rawValue)}`
+    );
+    return `  ${issue.envKey} (${path}): ${issue.message} — ${details.join(', ')}`;
+  });
+  return [`Invalid environment configuration (${count}):`, ...lines].join('\n');
+}
+
+/**
+ * Describe the expected type of a Zod issue (v3 and v4 shapes)
+ */
+function describeExpected(issue: Record<string, unknown>): string | undefined {
+  if (typeof issue['expected'] === 'string') {
+    return issue['expected'];
+  }
+
+  // Enum / literal issues list the accepted values (v4: `values`, v3: `options`)
+  const values = (issue['values'] ?? issue['options']) as unknown[] | undefined;
+  if (Array.isArray(values) && values.length > 0) {
+    return values
+      .map((value) => (typeof value === 'string' ? `'${value}'` : String(value)))
+      .join(' | ');
+  }
+
+  return undefined;
+}
+
+/**
+ * Mask every rendering of the values in `message`, for validators that quote the input they got
+ */
+function maskValues(message: string, values: unknown[]): string {
+  let masked = message;
+  for (const value of values) {
+    if (typeof value === 'string' && value !== '') {
+      masked = masked.replaceAll(JSON.stringify(value), JSON.stringify(REDACTED));
+      masked = masked.replaceAll(value, REDACTED);
+    } else if (['number', 'bigint', 'boolean'].includes(typeof value)) {
+      masked = masked.replaceAll(String(value), REDACTED);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Convert the issues of a Zod error into {@link ObjectEnvyIssue}s, resolving each path to the env
+ * variable it came from via `locate`. Values of sensitive paths are masked.
+ */
+export function issuesFromZodError(
+  error: { issues: ReadonlyArray<unknown> },
+  locate: (path: Array<string | number>) => IssueSource
+): ObjectEnvyIssue[] {
+  return error.issues.map((raw) => {
+    const issue = raw as Record<string, unknown>;
+    const path = ((issue['path'] as Array<string | number | symbol> | undefined) ?? []).map(
+      (segment) => (typeof segment === 'symbol' ? String(segment) : segment)
+    );
+    const { envKey, rawValue, sensitive } = locate(path);
+    const message = String(issue['message'] ?? 'Invalid value');
+    return {
+      path,
+      envKey,
+      rawValue: sensitive && rawValue !== undefined ? REDACTED : rawValue,
+      expected: describeExpected(issue),
+      message: sensitive ? maskValues(message, [rawValue, issue['input']]) : message,
+      code: String(issue['code'] ?? 'custom')
+    };
+  });
+}
+
+/**
+ * Convert Standard Schema issues into {@link ObjectEnvyIssue}s. Path segments may be wrapped as
+ * `{ key }`; validators that report `expected` or a `code`/`type` (Valibot) keep them.
+ */
+export function issuesFromStandardSchema(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>,
+  locate: (path: Array<string | number>) => IssueSource
+): ObjectEnvyIssue[] {
+  return issuesFromZodError(
+    {
+      issues: issues.map((issue) => {
+        const extra = issue as unknown as Record<string, unknown>;
+        return {
+          ...issue,
+          code: extra['code'] ?? extra['type'],
+          path: issue.path?.map((segment) =>
+            typeof segment === 'object' && segment !== null ? segment.key : segment
+          )
+        };
+      })
+    },
+    locate
+  );
+}
@@ -1,10 +1,48 @@
-export { objectify, safeObjectify, objectEnvy, envy, override, merge, defaultNonNestingPrefixes } from './objectEnvy.js';
+export { objectify, objectifyWithMeta, objectifyAsync, safeObjectify, objectEnvy, envy, override, merge, defaultNonNestingPrefixes } from './objectEnvy.js';
 export { toCamelCase, toSnakeCase, coerceValue } from './utils.js';
+export { parseEnv, loadEnv, loadEnvFiles, resolveEnvFiles } from './dotenv.js';
+export { expandEnv, InterpolationError } from './interpolate.js';
+export { ObjectEnvyError } from './errors.js';
+export { SecretResolutionError } from './resolvers.js';
+export { redact, defaultSensitivePatterns, REDACTED } from './redact.js';
+export { builtinCoercers } from './coercers.js';
+export { builtinSchemaAdapters } from './schemaAdapters.js';
 export type {
   ObjectEnvyOptions,
+  AsyncObjectEnvyOptions,
   EnviableObject as ConfigObject,
   EnviableValue as ConfigValue,
   MergeOptions,
-  ArrayMergeStrategy
+  ArrayMergeStrategy,
+  ArrayEncoding,
+  EnvyOptions,
+  ConfigMeta,
+  ConfigPathMeta,
+  ConfigSource,
+  ConfigChange,
+  ConfigEvent,
+  ConfigWatcher,
+  WatchOptions,
+  DeprecatedKey,
+  ConfigWarning,
+  ConflictPolicy,
+  EmptyValue,
+  CoercionPolicy
 } from './types.js';
-export type { ToEnv, FromEnv, WithPrefix, WithoutPrefix, SchemaToEnv } from './typeUtils.js';
+export type { LoadEnvOptions, LoadedEnv } from './dotenv.js';
+export type { SecretResolver } from './resolvers.js';
+export type { ObjectEnvyIssue } from './errors.js';
+export type { RedactOptions } from './redact.js';
+export type { Coercer, CoercerDefinition, BuiltinCoercerName } from './coercers.js';
+export type { SchemaAdapter, SchemaDescription, SchemaDefinition } from './schemaAdapters.js';
+export type { StandardSchemaV1 } from './standardSchema.js';
+export type { JsonSchema } from './jsonSchema.js';
+export type {
+  ToEnv,
+  FromEnv,
+  WithPrefix,
+  WithoutPrefix,
+  SchemaToEnv,
+  CoercedType,
+  CoercerOutputs
+} from './typeUtils.js';
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { expandEnv, InterpolationError } from './interpolate.js';
+
+describe('expandEnv', () => {
+  it('expands ${VAR} references', () => {
+    const env = expandEnv({
+      DB_USER: 'app',
+      DB_HOST: 'db',
+      DATABASE_URL: 'postgres://${DB_USER}@${DB_HOST}:5432'
+    });
+    expect(env['DATABASE_URL']).toBe('postgres://app@db:5432');
+  });
+
+  it('expands references recursively', () => {
+    const env = expandEnv({ A: '${B}/a', B: '${C}/b', C: 'c' });
+    expect(env).toEqual({ A: 'c/b/a', B: 'c/b', C: 'c' });
+  });
+
+  it('replaces unset references with an empty string', () => {
+    expect(expandEnv({ A: 'x${MISSING}y' })).toEqual({ A: 'xy' });
+  });
+
+  it('uses ${VAR:-default} when the variable is unset or empty', () => {
+    const env = expandEnv({
+      EMPTY: '',
+      A: '${MISSING:-fallback}',
+      B: '${EMPTY:-fallback}',
+      C: '${SET:-fallback}',
+      SET: 'value'
+    });
+    expect(env['A']).toBe('fallback');
+    expect(env['B']).toBe('fallback');
+    expect(env['C']).toBe('value');
+  });
+
+  it('expands references inside defaults', () => {
+    expect(expandEnv({ HOST: 'db', URL: '${MISSING:-http://${HOST}}' })['URL']).toBe('http://db');
+  });
+
+  it('throws on ${VAR:?error} when the variable is unset', () => {
+    expect(() => expandEnv({ URL: '${HOST:?must be set}' })).toThrow(
+      'HOST must be set (referenced by URL)'
+    );
+  });
+
+  it('uses a generic message for ${VAR:?} without text', () => {
+    expect(() => expandEnv({ URL: '${HOST:?}' })).toThrow('HOST is required');
+  });
+
+  it('reports reference cycles with the full chain', () => {
+    let caught: unknown;
+    try {
+      expandEnv({ A: '${B}', B: '${C}', C: '${A}' });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(InterpolationError);
+    expect((caught as InterpolationError).chain).toEqual(['A', 'B', 'C', 'A']);
+    expect((caught as InterpolationError).key).toBe('A');
+    expect((caught as InterpolationError).message).toContain('A -> B -> C -> A');
+  });
+
+  it('detects self references', () => {
+    expect(() => expandEnv({ A: 'x${A}' })).toThrow('A -> A');
+  });
+
+  it('treats \\$ as a literal dollar sign', () => {
+    expect(expandEnv({ A: 'cost \\${PRICE}', PRICE: '5' })['A']).toBe('cost ${PRICE}');
+  });
+
+  it('leaves malformed references untouched', () => {
+    expect(expandEnv({ A: '$HOME ${1X} ${UNCLOSED' })).toEqual({ A: '$HOME ${1X} ${UNCLOSED' });
+  });
+
+  it('only expands the requested keys', () => {
+    const env = expandEnv({ A: '${B}', B: 'b', OTHER: '${B}' }, ['A']);
+    expect(env).toEqual({ A: 'b', B: 'b', OTHER: '${B}' });
+  });
+});
@@ -0,0 +1,195 @@
+import type { EnvLike } from './types.js';
+
+/**
+ * Error thrown when `${VAR}` expansion fails — either a reference cycle or a `${VAR:?message}`
+ * reference to an unset variable.
+ *
+ * @remarks
+ * `key` is the env key whose value could not be expanded. For cycles, `chain` lists every key in the
+ * cycle in resolution order, ending with the key that closes the loop (e.g. `['A', 'B', 'A']`). For
+ * required-variable failures, `chain` is the resolution path that led to the missing variable.
+ *
+ * @example
+ * import { objectify, InterpolationError } from 'objectenvy';
+ * try {
+ *   objectify({ env: { A: '${B}', B: '${A}' }, expand: true });
+ * } catch (error) {
+ *   if (error instanceof InterpolationError) console.error(error.chain.join(' -> ')); // A -> B -> A
+ * }
+ *
+ * @category Parsing
+ */
+export class InterpolationError extends Error {
+  constructor(
+    message: string,
+    public key: string,
+    public chain: string[]
+  ) {
+    super(message);
+    this.name = 'InterpolationError';
+  }
+}
+
+const referenceNamePattern = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Find the index of the `}` closing a `${` that starts at `start`, accounting for nested references
+ */
+function findClosingBrace(value: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '$' && value[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (value[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Expand `${VAR}` references in env values, resolving against the env itself.
+ *
+ * @remarks
+ * Supported forms:
+ * - `${VAR}` — the value of `VAR`, or an empty string when `VAR` is unset.
+ * - `${VAR:-default}` — the value of `VAR`, or `default` when `VAR` is unset or empty. The default
+ *   may itself contain references.
+ * - `${VAR:?message}` — the value of `VAR`; throws an {@link InterpolationError} carrying `message`
+ *   when `VAR` is unset or empty.
+ * - `\$` — a literal `$`; the backslash is removed and no expansion happens.
+ *
+ * References are resolved recursively, so a value may reference a key that itself contains
+ * references. A reference cycle throws an {@link InterpolationError} whose `chain` lists the keys
+ * involved. Anything that is not a well-formed reference (`$VAR`, `${1X}`, an unclosed `${`) is left
+ * as written.
+ *
+ * @param env - The env record to expand. Not mutated.
+ * @param keys - Keys whose values should be expanded. Defaults to every key; references may point at
+ *   any key in `env` regardless.
+ * @returns A new record with the selected values expanded and all other entries copied unchanged.
+ *
+ * @throws {InterpolationError} On a reference cycle or an unsatisfied `${VAR:?message}`.
+ *
+ * @useWhen
+ * - Your `.env` files compose values from other variables (`DATABASE_URL=postgres://${DB_HOST}`).
+ *
+ * @avoidWhen
+ * - Values legitimately contain `${...}` text that must survive untouched — leave `expand` off, or
+ *   escape the `$` as `\$`.
+ *
+ * @pitfalls
+ * - NEVER expand every key of `process.env` when only a prefix matters — BECAUSE unrelated shell
+ *   variables may contain `${...}` sequences; `objectify({ expand: true })` only expands prefixed keys.
+ *
+ * @example
+ * import { expandEnv } from 'objectenvy';
+ * expandEnv({ DB_HOST: 'db', DATABASE_URL: 'postgres://${DB_USER:-app}@${DB_HOST}' });
+ * // { DB_HOST: 'db', DATABASE_URL: 'postgres://app@db' }
+ *
+ * @category Parsing
+ * @see {@link objectify} which applies this when `expand: true`
+ */
+export function expandEnv(
+  env: EnvLike,
+  keys: string[] = Object.keys(env)
+): Record<string, string | undefined> {
+  const resolved = new Map<string, string>();
+  const stack: string[] = [];
+
+  function resolveKey(key: string): string | undefined {
+    const cached = resolved.get(key);
+    if (cached !== undefined) return cached;
+
+    const raw = env[key];
+    if (raw === undefined) return undefined;
+
+    const cycleStart = stack.indexOf(key);
+    if (cycleStart !== -1) {
+      const chain = [...stack.slice(cycleStart), key];
+      throw new InterpolationError(
+        `Circular reference in env interpolation: ${chain.join(' -> ')}`,
+        key,
+        chain
+      );
+    }
+
+    stack.push(key);
+    const value = expandValue(raw);
+    stack.pop();
+
+    resolved.set(key, value);
+    return value;
+  }
+
+  function expandReference(expression: string): string | null {
+    const nameMatch = referenceNamePattern.exec(expression);
+    if (!nameMatch) return null;
+
+    const name = nameMatch[0];
+    const modifier = expression.slice(name.length);
+    const value = resolveKey(name);
+
+    if (modifier === '') {
+      return value ?? '';
+    }
+
+    if (modifier.startsWith(':-')) {
+      return value === undefined || value === '' ? expandValue(modifier.slice(2)) : value;
+    }
+
+    if (modifier.startsWith(':?')) {
+      if (value === undefined || value === '') {
+        const message = modifier.slice(2) || 'is required';
+        const owner = stack[stack.length - 1] ?? name;
+        throw new InterpolationError(`${name} ${message} (referenced by ${owner})`, owner, [
+          ...stack,
+          name
+        ]);
+      }
+      return value;
+    }
+
+    return null;
+  }
+
+  function expandValue(value: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < value.length) {
+      const char = value[i]!;
+
+      if (char === '\\' && value[i + 1] === '$') {
+        result += '$';
+        i += 2;
+        continue;
+      }
+
+      if (char === '$' && value[i + 1] === '{') {
+        const end = findClosingBrace(value, i);
+        if (end !== -1) {
+          const expanded = expandReference(value.slice(i + 2, end));
+          if (expanded !== null) {
+            result += expanded;
+            i = end + 1;
+            continue;
+          }
+        }
+      }
+
+      result += char;
+      i++;
+    }
+
+    return result;
+  }
+
+  const expanded: Record<string, string | undefined> = { ...env };
+  for (const key of keys) {
+    expanded[key] = resolveKey(key);
+  }
+  return expanded;
+}
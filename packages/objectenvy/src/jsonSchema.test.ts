@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { describeJsonSchema, isJsonSchema, validateJsonSchema } from './jsonSchema.js';
+import type { JsonSchema } from './jsonSchema.js';
+
+describe('isJsonSchema', () => {
+  it('recognizes documents by $schema or object type with properties', () => {
+    expect(isJsonSchema({ $schema: 'https://json-schema.org/draft/2020-12/schema' })).toBe(true);
+    expect(isJsonSchema({ type: 'object', properties: {} })).toBe(true);
+    expect(isJsonSchema({ type: ['object', 'null'], properties: {} })).toBe(true);
+  });
+
+  it('leaves plain-object shape schemas alone', () => {
+    expect(isJsonSchema({ port: 0, log: { level: '' } })).toBe(false);
+    expect(isJsonSchema({ type: 'object', entries: {} })).toBe(false);
+  });
+});
+
+describe('describeJsonSchema', () => {
+  it('describes properties, optionality and types', () => {
+    expect(
+      describeJsonSchema({
+        type: 'object',
+        required: ['port'],
+        properties: {
+          port: { type: 'integer' },
+          name: { type: ['string', 'null'] },
+          level: { enum: ['debug', 'info'] }
+        }
+      })
+    ).toEqual({
+      _def: {
+        type: 'object',
+        shape: {
+          port: { _def: { type: 'number' } },
+          name: { _def: { type: 'optional', innerType: { _def: { type: 'string' } } } },
+          level: {
+            _def: {
+              type: 'optional',
+              innerType: { _def: { type: 'literal', values: ['debug', 'info'] } }
+            }
+          }
+        }
+      }
+    });
+  });
+
+  it('carries x-sensitive and x-coerce as metadata', () => {
+    const described = describeJsonSchema({
+      type: 'string',
+      'x-sensitive': true,
+      'x-coerce': 'url'
+    });
+    expect(described.meta?.()).toEqual({ sensitive: true, coerce: 'url' });
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['port', 'log'],
+    properties: {
+      port: { type: 'integer', minimum: 1, maximum: 65535 },
+      host: { type: 'string', format: 'hostname', default: 'localhost' },
+      log: {
+        type: 'object',
+        required: ['level'],
+        properties: { level: { enum: ['debug', 'info'] } }
+      },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 }
+    }
+  };
+
+  it('applies defaults and drops undeclared properties', () => {
+    expect(validateJsonSchema(schema, { port: 80, log: { level: 'info' }, extra: 1 })).toEqual({
+      value: { port: 80, host: 'localhost', log: { level: 'info' } }
+    });
+  });
+
+  it('keeps undeclared properties additionalProperties allows', () => {
+    expect(
+      validateJsonSchema(
+        { type: 'object', properties: {}, additionalProperties: { type: 'number' } },
+        { a: 1, b: 'x' }
+      ).issues
+    ).toEqual([
+      {
+        path: ['b'],
+        code: 'invalid_type',
+        expected: 'number',
+        message: 'Invalid input: expected number, received string'
+      }
+    ]);
+  });
+
+  it('reports type, required, enum, format and range issues with their paths', () => {
+    const { issues } = validateJsonSchema(schema, {
+      port: 70000,
+      host: 'not a host',
+      log: { level: 'verbose' },
+      tags: ['a', 'b', 3]
+    });
+    expect(issues).toEqual([
+      {
+        path: ['port'],
+        code: 'too_big',
+        message: 'Too big: expected number to be <=65535'
+      },
+      {
+        path: ['host'],
+        code: 'invalid_format',
+        expected: 'hostname',
+        message: 'Invalid hostname'
+      },
+      {
+        path: ['log', 'level'],
+        code: 'invalid_value',
+        values: ['debug', 'info'],
+        message: 'Invalid option: expected one of "debug" | "info"'
+      },
+      {
+        path: ['tags'],
+        code: 'too_big',
+        message: 'Too big: expected array to have <=2 items'
+      },
+      {
+        path: ['tags', 2],
+        code: 'invalid_type',
+        expected: 'string',
+        message: 'Invalid input: expected string, received number'
+      }
+    ]);
+    expect(validateJsonSchema(schema, {}).issues?.map((issue) => issue.path)).toEqual([
+      ['port'],
+      ['log']
+    ]);
+  });
+
+  it('checks date formats for impossible dates', () => {
+    const date: JsonSchema = { type: 'string', format: 'date' };
+    expect(validateJsonSchema(date, '2024-02-29').issues).toBeUndefined();
+    expect(validateJsonSchema(date, '2024-02-31').issues?.[0]?.code).toBe('invalid_format');
+  });
+
+  it('resolves local $refs and matches anyOf / oneOf members', () => {
+    const withRefs: JsonSchema = {
+      $defs: { port: { type: 'integer' } },
+      type: 'object',
+      properties: {
+        port: { $ref: '#/$defs/port' },
+        target: { anyOf: [{ type: 'integer' }, { type: 'string', format: 'uri' }] },
+        mode: { oneOf: [{ type: 'number' }, { type: 'integer' }] }
+      }
+    };
+    expect(
+      validateJsonSchema(withRefs, { port: 1, target: 'https://a.example' }).issues
+    ).toBeUndefined();
+    expect(validateJsonSchema(withRefs, { port: 'x' }).issues?.[0]?.path).toEqual(['port']);
+    expect(validateJsonSchema(withRefs, { target: 'nope' }).issues?.[0]?.code).toBe(
+      'invalid_union'
+    );
+    expect(validateJsonSchema(withRefs, { mode: 1 }).issues?.[0]?.message).toBe(
+      'Invalid input: matches more than one option'
+    );
+    expect(() => validateJsonSchema({ $ref: '#/$defs/missing' }, 1)).toThrow(
+      'Cannot resolve $ref "#/$defs/missing"'
+    );
+  });
+});
@@ -0,0 +1,419 @@
+import type { SchemaDescription } from './schemaAdapters.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * A JSON Schema document (draft-07 / 2019-09 / 2020-12), limited to the keywords objectenvy reads.
+ * Types are kept loose so schemas imported from `.json` files are accepted as they are.
+ *
+ * @remarks
+ * `x-sensitive: true` (or `@sensitive` in `description`) marks a field sensitive, and
+ * `x-coerce: 'duration'` (or `@coerce duration`) names its coercer, like Zod's `.meta()` tags.
+ *
+ * @category Schema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: string | readonly string[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | readonly JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  enum?: readonly unknown[];
+  const?: unknown;
+  default?: unknown;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: readonly JsonSchema[];
+  oneOf?: readonly JsonSchema[];
+  allOf?: readonly JsonSchema[];
+  description?: string;
+  'x-sensitive'?: boolean;
+  'x-coerce'?: string;
+}
+
+/**
+ * A validation failure, in the issue shape Zod reports (`code`, `expected`, `values`)
+ */
+export interface JsonSchemaIssue {
+  path: Array<string | number>;
+  message: string;
+  code: string;
+  expected?: string;
+  values?: unknown[];
+}
+
+/**
+ * Whether a value is a JSON Schema document: it declares `$schema`, or it is an object schema with
+ * `properties`. Plain-object shape schemas have neither.
+ */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  if (!isPlainObject(value)) return false;
+  if (typeof value['$schema'] === 'string') return true;
+  const { type } = value;
+  return (
+    isPlainObject(value['properties']) &&
+    (type === 'object' || (Array.isArray(type) && type.includes('object')))
+  );
+}
+
+/**
+ * Follow a local `$ref` (`#/$defs/name`, `#/definitions/name`) to the schema it points at
+ */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  for (let hops = 0; current.$ref !== undefined; hops++) {
+    const ref = current.$ref;
+    if (!ref.startsWith('#') || hops > 32) throw new Error(`Cannot resolve $ref "${ref}"`);
+    let target: unknown = root;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+      const key = decodeURIComponent(part).replaceAll('~1', '/').replaceAll('~0', '~');
+      target = isPlainObject(target) ? target[key] : undefined;
+    }
+    if (!isPlainObject(target)) throw new Error(`Cannot resolve $ref "${ref}"`);
+    current = target;
+  }
+  return current;
+}
+
+/** The declared types, without `null` (which env values never take) */
+function declaredTypes(schema: JsonSchema): string[] | undefined {
+  if (schema.type === undefined) return undefined;
+  return (typeof schema.type === 'string' ? [schema.type] : [...schema.type]).filter(
+    (type) => type !== 'null'
+  );
+}
+
+/**
+ * Describe a JSON Schema in the layout path extraction reads, so `properties` drive key mapping
+ * and `type` drives conversion. `$ref`s become lazy nodes, so recursive schemas terminate.
+ */
+export function describeJsonSchema(
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  described = new Map<JsonSchema, SchemaDescription>()
+): SchemaDescription {
+  const existing = described.get(schema);
+  if (existing) return existing;
+
+  const node = (def: SchemaDescription['_def']): SchemaDescription => {
+    const description: SchemaDescription = { _def: def };
+    if (schema.description !== undefined) description.description = schema.description;
+    if (schema['x-sensitive'] !== undefined || schema['x-coerce'] !== undefined) {
+      const meta = { sensitive: schema['x-sensitive'], coerce: schema['x-coerce'] };
+      description.meta = () => meta;
+    }
+    described.set(schema, description);
+    return description;
+  };
+  const describe = (child: JsonSchema) => describeJsonSchema(child, root, described);
+
+  if (schema.$ref !== undefined) {
+    return node({ type: 'lazy', getter: () => describe(resolveRef(schema, root)) });
+  }
+
+  const members = (schema.anyOf ?? schema.oneOf)?.filter((member) => member.type !== 'null');
+  if (members) {
+    return members.length === 1
+      ? describe(members[0]!)
+      : node({ type: 'union', options: members.map(describe) });
+  }
+  if (schema.allOf) return node({ type: 'intersection', options: schema.allOf.map(describe) });
+  if (schema.const !== undefined) return node({ type: 'literal', values: [schema.const] });
+  if (schema.enum) {
+    return node({ type: 'literal', values: schema.enum.filter((value) => value !== null) });
+  }
+
+  const types = declaredTypes(schema) ?? (schema.properties ? ['object'] : []);
+  if (types.length > 1) {
+    return node({
+      type: 'union',
+      options: types.map((type) => describe({ ...schema, type }))
+    });
+  }
+
+  switch (types[0]) {
+    case 'object': {
+      if (schema.properties) {
+        const required = new Set(schema.required ?? []);
+        const shape: Record<string, SchemaDescription> = {};
+        for (const [key, property] of Object.entries(schema.properties)) {
+          const value = describe(property);
+          shape[key] = required.has(key) ? value : { _def: { type: 'optional', innerType: value } };
+        }
+        return node({ type: 'object', shape });
+      }
+      const values = isPlainObject(schema.additionalProperties)
+        ? describe(schema.additionalProperties)
+        : { _def: { type: 'unknown' as const } };
+      return node({ type: 'record', valueType: values });
+    }
+    case 'array':
+      if (Array.isArray(schema.items)) return node({ type: 'tuple' });
+      return node({
+        type: 'array',
+        element: schema.items ? describe(schema.items as JsonSchema) : { _def: { type: 'unknown' } }
+      });
+    case 'integer':
+    case 'number':
+      return node({ type: 'number' });
+    case 'string':
+    case 'boolean':
+      return node({ type: types[0] });
+    default:
+      return node({ type: 'unknown' });
+  }
+}
+
+const formatPatterns: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/,
+  time: /^\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ipv4: /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  ipv6: /^[0-9a-f:.]*:[0-9a-f:.]*$/i,
+  hostname:
+    /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i
+};
+
+/**
+ * Whether a string has the given `format`. Unknown formats pass, as the spec allows.
+ */
+function matchesFormat(value: string, format: string): boolean {
+  if (format === 'uri' || format === 'url') return URL.canParse(value);
+  const pattern = formatPatterns[format];
+  if (!pattern) return true;
+  if (!pattern.test(value)) return false;
+  // Reject well-formed but impossible dates such as 2024-02-31
+  if (format === 'date' || format === 'date-time') {
+    const date = new Date(format === 'date' ? `${value}T00:00:00Z` : value);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value.slice(0, 10);
+  }
+  return true;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return typeName(value) === type;
+  }
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** The type a schema expects, for "expected X" in messages */
+function expectedType(schema: JsonSchema): string {
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  if (schema.type === undefined) return schema.properties ? 'object' : 'value';
+  return typeof schema.type === 'string' ? schema.type : schema.type.join(' | ');
+}
+
+/**
+ * Validate a value against a JSON Schema, applying `default`s to missing properties. Like a Zod
+ * object, the output keeps only declared properties unless `additionalProperties` allows others.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown
+): { value: unknown; issues?: JsonSchemaIssue[] } {
+  const issues: JsonSchemaIssue[] = [];
+  const output = check(schema, value, [], schema, issues);
+  return issues.length > 0 ? { value: output, issues } : { value: output };
+}
+
+function check(
+  node: JsonSchema,
+  value: unknown,
+  path: Array<string | number>,
+  root: JsonSchema,
+  issues: JsonSchemaIssue[]
+): unknown {
+  const schema = resolveRef(node, root);
+  const fail = (issue: Omit<JsonSchemaIssue, 'path'>) => {
+    issues.push({ path, ...issue });
+    return value;
+  };
+
+  const members = schema.anyOf ?? schema.oneOf;
+  if (members) {
+    const results = members.map((member) => {
+      const memberIssues: JsonSchemaIssue[] = [];
+      return { value: check(member, value, path, root, memberIssues), issues: memberIssues };
+    });
+    const matches = results.filter((result) => result.issues.length === 0);
+    if (matches.length === 0 || (schema.oneOf && matches.length > 1)) {
+      return fail({
+        code: 'invalid_union',
+        message:
+          matches.length === 0 ? 'Invalid input' : 'Invalid input: matches more than one option'
+      });
+    }
+    value = matches[0]!.value;
+  }
+
+  if (schema.allOf) {
+    const parts = schema.allOf.map((member) => check(member, value, path, root, issues));
+    if (isPlainObject(value)) value = Object.assign({}, ...parts) as unknown;
+  }
+
+  if (schema.const !== undefined && !sameValue(value, schema.const)) {
+    return fail({
+      code: 'invalid_value',
+      values: [schema.const],
+      message: `Invalid input: expected ${JSON.stringify(schema.const)}`
+    });
+  }
+
+  if (schema.enum && !schema.enum.some((option) => sameValue(value, option))) {
+    return fail({
+      code: 'invalid_value',
+      values: [...schema.enum],
+      message: `Invalid option: expected one of ${expectedType(schema)}`
+    });
+  }
+
+  const types = schema.type === undefined ? undefined : [schema.type].flat();
+  if (types && !types.some((type) => matchesType(value, type))) {
+    const expected = expectedType(schema);
+    return fail({
+      code: 'invalid_type',
+      expected,
+      message: `Invalid input: expected ${expected}, received ${typeName(value)}`
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail({
+        code: 'too_small',
+        message: `Too small: expected string to have >=${schema.minLength} characters`
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail({
+        code: 'too_big',
+        message: `Too big: expected string to have <=${schema.maxLength} characters`
+      });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail({
+        code: 'invalid_format',
+        expected: 'pattern',
+        message: `Invalid string: must match pattern /${schema.pattern}/`
+      });
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) {
+      fail({
+        code: 'invalid_format',
+        expected: schema.format,
+        message: `Invalid ${schema.format}`
+      });
+    }
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+    if (minimum !== undefined && value < minimum) {
+      fail({ code: 'too_small', message: `Too small: expected number to be >=${minimum}` });
+    }
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+      fail({ code: 'too_small', message: `Too small: expected number to be >${exclusiveMinimum}` });
+    }
+    if (maximum !== undefined && value > maximum) {
+      fail({ code: 'too_big', message: `Too big: expected number to be <=${maximum}` });
+    }
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+      fail({ code: 'too_big', message: `Too big: expected number to be <${exclusiveMaximum}` });
+    }
+    if (multipleOf !== undefined && !Number.isInteger(value / multipleOf)) {
+      fail({
+        code: 'not_multiple_of',
+        message: `Invalid number: must be a multiple of ${multipleOf}`
+      });
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail({
+        code: 'too_small',
+        message: `Too small: expected array to have >=${schema.minItems} items`
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail({
+        code: 'too_big',
+        message: `Too big: expected array to have <=${schema.maxItems} items`
+      });
+    }
+    const { items } = schema;
+    if (items === undefined) return value;
+    return value.map((item, index) => {
+      const itemSchema = Array.isArray(items) ? (items[index] as JsonSchema | undefined) : items;
+      return itemSchema
+        ? check(itemSchema as JsonSchema, item, [...path, index], root, issues)
+        : item;
+    });
+  }
+
+  if (
+    isPlainObject(value) &&
+    (schema.properties || schema.required || schema.additionalProperties !== undefined)
+  ) {
+    const properties = schema.properties ?? {};
+    const output: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const resolved = resolveRef(property, root);
+      const item = value[key] === undefined ? structuredClone(resolved.default) : value[key];
+      if (item !== undefined) output[key] = check(property, item, [...path, key], root, issues);
+    }
+    for (const key of schema.required ?? []) {
+      if (output[key] !== undefined || value[key] !== undefined) continue;
+      const property = properties[key];
+      const expected = property ? expectedType(resolveRef(property, root)) : 'value';
+      issues.push({
+        path: [...path, key],
+        code: 'invalid_type',
+        expected,
+        message: `Invalid input: expected ${expected}, received undefined`
+      });
+    }
+    const { additionalProperties: extra } = schema;
+    if (extra === true || isPlainObject(extra)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (key in properties) continue;
+        output[key] =
+          extra === true ? item : check(extra as JsonSchema, item, [...path, key], root, issues);
+      }
+    }
+    return output;
+  }
+
+  return value;
+}
@@ -1,8 +1,23 @@
-import { describe, it, expect, expectTypeOf } from 'vitest';
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { z } from 'zod';
-import { objectify, safeObjectify, objectEnvy, envy, override, merge, defaultNonNestingPrefixes } from './objectEnvy.js';
+import { z as z3 } from 'zod/v3';
+import { objectify, objectifyWithMeta, objectifyAsync, safeObjectify, objectEnvy, envy, override, merge, defaultNonNestingPrefixes } from './objectEnvy.js';
+import { InterpolationError } from './interpolate.js';
+import { ObjectEnvyError } from './errors.js';
+import { SecretResolutionError } from './resolvers.js';
+import { redact, REDACTED, defaultSensitivePatterns } from './redact.js';
+import { inspect } from 'node:util';
 import type { ToEnv, FromEnv } from './typeUtils.js';
-import type { EnvLike } from './types.js';
+import type { StandardSchemaV1 } from './standardSchema.js';
+import type {
+  EnvLike,
+  EnviableObject as ConfigObject,
+  EnviableValue as ConfigValue,
+  ConfigWarning
+} from './types.js';
 
 describe('objectify', () => {
   describe('FromEnv type mapping', () => {
@@ -307,6 +322,81 @@ describe('objectify', () => {
       expect(() => objectify({ env, schema })).toThrow();
     });
 
+    it('throws ObjectEnvyError mapping issues back to env keys', () => {
+      const schema = z.object({
+        port: z.number(),
+        log: z.object({ level: z.enum(['debug', 'info']) })
+      });
+
+      let caught: unknown;
+      try {
+        objectify({ env: { APP_LOG_LEVEL: 'verbose' }, prefix: 'APP', schema });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ObjectEnvyError);
+      const error = caught as ObjectEnvyError;
+      expect(error.cause).toBeInstanceOf(z.ZodError);
+      expect(error.issues).toHaveLength(2);
+      expect(error.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            path: ['port'],
+            envKey: 'APP_PORT',
+            rawValue: undefined,
+            expected: 'number'
+          }),
+          expect.objectContaining({
+            path: ['log', 'level'],
+            envKey: 'APP_LOG_LEVEL',
+            rawValue: 'verbose',
+            expected: "'debug' | 'info'"
+          })
+        ])
+      );
+      expect(error.format()).toContain('APP_LOG_LEVEL (log.level)');
+    });
+
+    it('reports the raw string before coercion', () => {
+      const schema = z.object({ port: z.number().min(1000) });
+      const result = safeObjectify({ env: { PORT: '80' }, schema });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect((result.error as ObjectEnvyError).issues[0]).toMatchObject({
+          envKey: 'PORT',
+          rawValue: '80'
+        });
+      }
+    });
+
+    it('applies the delimiter when naming unset env keys', () => {
+      const schema = z.object({ log: z.object({ level: z.string(), filePath: z.string() }) });
+      const result = safeObjectify({
+        env: { APP__LOG__LEVEL: 'debug' },
+        prefix: 'APP',
+        delimiter: '__',
+        schema
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect((result.error as ObjectEnvyError).issues[0]!.envKey).toBe('APP__LOG__FILE_PATH');
+      }
+    });
+
+    it('resolves array element issues to the array env key', () => {
+      const schema = z.object({ ports: z.array(z.number()) });
+      const result = safeObjectify({ env: { PORTS: '80,http' }, schema });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect((result.error as ObjectEnvyError).issues[0]).toMatchObject({
+          path: ['ports', 1],
+          envKey: 'PORTS',
+          rawValue: '80,http'
+        });
+      }
+    });
+
     it('provides type safety with schema', () => {
       const schema = z.object({
         portNumber: z.number(),
@@ -638,6 +728,76 @@ describe('objectEnvy (config loader factory)', () => {
     expect((result2 as Record<string, unknown>)['tag']).toBe('second');
   });
 
+  it('rebuilds the config when prefixed env values change', () => {
+    const env: Record<string, string> = { APP_PORT: '3000', OTHER: 'a' };
+    const { objectify: loadConfig } = objectEnvy({ prefix: 'APP', env });
+
+    const config1 = loadConfig();
+    env['OTHER'] = 'b';
+    expect(loadConfig()).toBe(config1);
+
+    env['APP_PORT'] = '4000';
+    expect(loadConfig()).toEqual({ port: 4000 });
+  });
+
+  it('rebuilds the config when an env file changes', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'objectenvy-cache-'));
+    try {
+      writeFileSync(join(dir, '.env'), 'APP_PORT=3000\n');
+      const { objectify: loadConfig } = objectEnvy({
+        prefix: 'APP',
+        env: {},
+        files: ['.env'],
+        cwd: dir
+      });
+      expect(loadConfig()).toEqual({ port: 3000 });
+      writeFileSync(join(dir, '.env'), 'APP_PORT=40000\n');
+      expect(loadConfig()).toEqual({ port: 40000 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('drops cached configs on invalidate() and rebuilds on refresh()', () => {
+    let calls = 0;
+    const instance = objectEnvy({
+      prefix: 'APP',
+      env: { APP_PORT: '3000' },
+      transform: (config) => ({ ...config, calls: ++calls }),
+      cacheKey: 'counted'
+    });
+
+    expect(instance.objectify()).toEqual({ port: 3000, calls: 1 });
+    expect(instance.objectify()).toEqual({ port: 3000, calls: 1 });
+    instance.invalidate();
+    expect(instance.objectify()).toEqual({ port: 3000, calls: 2 });
+    expect(instance.refresh()).toEqual({ port: 3000, calls: 3 });
+    expect(instance.objectify()).toEqual({ port: 3000, calls: 3 });
+  });
+
+  it('caches configs built with transform or defaults per cacheKey', () => {
+    const factory = objectEnvy({ env: { MY_PORT: '3000' } });
+    const tag = (name: string) => (config: EnviableObject) => ({ ...config, tag: name });
+    const first = factory.objectify({ transform: tag('first'), cacheKey: 'first' });
+    expect(factory.objectify({ transform: tag('first'), cacheKey: 'first' })).toBe(first);
+    expect(factory.objectify({ transform: tag('second'), cacheKey: 'second' })).toEqual({
+      myPort: 3000,
+      tag: 'second'
+    });
+
+    const env: Record<string, string> = { APP_HOST: 'a', MODE: 'dev' };
+    const withDefaults = objectEnvy({
+      prefix: 'APP',
+      env,
+      defaults: (raw) => ({ APP_MODE: raw['MODE'] }),
+      cacheKey: 'defaults'
+    });
+    expect(withDefaults.objectify()).toEqual({ host: 'a', mode: 'dev' });
+    // The defaults factory can read unprefixed keys, so those are tracked too
+    env['MODE'] = 'prod';
+    expect(withDefaults.objectify()).toEqual({ host: 'a', mode: 'prod' });
+  });
+
 
   it('returns typed env for nested config', () => {
     type NestedConfig = {
@@ -689,6 +849,155 @@ describe('objectEnvy (config loader factory)', () => {
   });
 });
 
+describe('objectEnvy live reload', () => {
+  it('emits the new config and the changed paths on reload', () => {
+    const env: Record<string, string> = { APP_PORT: '80', APP_PASSWORD: 'a' };
+    const instance = objectEnvy({ prefix: 'APP', env });
+    const events: unknown[] = [];
+    instance.subscribe((event) => events.push(event));
+
+    expect(instance.objectify()).toEqual({ port: 80, password: 'a' });
+    expect(instance.reload()).toEqual({ port: 80, password: 'a' });
+    expect(events).toEqual([]);
+
+    env['APP_PORT'] = '81';
+    env['APP_PASSWORD'] = 'b';
+    expect(instance.reload()).toEqual({ port: 81, password: 'b' });
+    expect(instance.objectify()).toEqual({ port: 81, password: 'b' });
+    expect(events).toEqual([
+      {
+        type: 'change',
+        config: { port: 81, password: 'b' },
+        previous: { port: 80, password: 'a' },
+        changes: [
+          { path: 'port', kind: 'changed', previous: 80, value: 81, sensitive: false },
+          { path: 'password', kind: 'changed', previous: 'a', value: 'b', sensitive: true }
+        ]
+      }
+    ]);
+  });
+
+  it('keeps the last good config and emits an error when a reload fails validation', () => {
+    const env: Record<string, string> = { APP_PORT: '80' };
+    const instance = objectEnvy({ prefix: 'APP', env, schema: z.object({ port: z.number() }) });
+    const events: Array<{ type: string }> = [];
+    instance.subscribe((event) => events.push(event));
+    instance.reload();
+
+    env['APP_PORT'] = 'not a number';
+    expect(instance.reload()).toEqual({ port: 80 });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'error', config: { port: 80 } });
+    expect((events[0] as { error: unknown }).error).toBeInstanceOf(ObjectEnvyError);
+  });
+
+  it('reports a throwing listener as a warning and still calls the others', () => {
+    const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    const env: Record<string, string> = { APP_PORT: '80' };
+    const instance = objectEnvy({ prefix: 'APP', env });
+    let calls = 0;
+    instance.subscribe(() => {
+      throw new Error('listener broke');
+    });
+    instance.subscribe(() => calls++);
+    instance.reload();
+
+    env['APP_PORT'] = '81';
+    expect(instance.reload()).toEqual({ port: 81 });
+    expect(calls).toBe(1);
+    expect(emitWarning).toHaveBeenCalledWith('A config listener threw: listener broke', {
+      type: 'ObjectEnvyWarning',
+      code: 'OBJECTENVY_LISTENER_ERROR'
+    });
+    emitWarning.mockRestore();
+  });
+
+  it('stops notifying unsubscribed listeners', () => {
+    const env: Record<string, string> = { APP_PORT: '80' };
+    const instance = objectEnvy({ prefix: 'APP', env });
+    let calls = 0;
+    const unsubscribe = instance.subscribe(() => calls++);
+    instance.reload();
+
+    env['APP_PORT'] = '81';
+    instance.reload();
+    unsubscribe();
+    env['APP_PORT'] = '82';
+    instance.reload();
+    expect(calls).toBe(1);
+  });
+
+  describe('watch', () => {
+    let dir: string;
+    let stop: (() => void) | undefined;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'objectenvy-live-'));
+      writeFileSync(join(dir, '.env'), 'APP_PORT=80\n');
+    });
+
+    afterEach(() => {
+      stop?.();
+      stop = undefined;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reloads when a watched env file changes', async () => {
+      const instance = objectEnvy({ prefix: 'APP', env: {}, files: ['.env'], cwd: dir });
+      const ports: unknown[] = [];
+      instance.subscribe((event) => {
+        if (event.type === 'change') ports.push(event.config['port']);
+      });
+      stop = instance.watch({ debounce: 10 });
+
+      writeFileSync(join(dir, '.env'), 'APP_PORT=81\n');
+      const start = Date.now();
+      while (ports.length === 0 && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(ports).toEqual([81]);
+      expect(instance.objectify()).toEqual({ port: 81 });
+    });
+
+    it('throws when the config is invalid before watching starts', () => {
+      writeFileSync(join(dir, '.env'), 'APP_PORT=x\n');
+      const instance = objectEnvy({
+        prefix: 'APP',
+        env: {},
+        files: ['.env'],
+        cwd: dir,
+        schema: z.object({ port: z.number() })
+      });
+      expect(() => instance.watch()).toThrow(ObjectEnvyError);
+    });
+
+    it('keeps serving the last good config from objectify after a bad edit', async () => {
+      const instance = objectEnvy({
+        prefix: 'APP',
+        env: {},
+        files: ['.env'],
+        cwd: dir,
+        schema: z.object({ port: z.number() })
+      });
+      const events: string[] = [];
+      instance.subscribe((event) => events.push(event.type));
+      stop = instance.watch({ debounce: 10 });
+
+      writeFileSync(join(dir, '.env'), 'APP_PORT=x\n');
+      const start = Date.now();
+      while (events.length === 0 && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(events).toEqual(['error']);
+      expect(instance.objectify()).toEqual({ port: 80 });
+      expect(() => instance.objectify({ prefix: 'APP' })).toThrow(ObjectEnvyError);
+
+      stop();
+      expect(() => instance.objectify()).toThrow(ObjectEnvyError);
+    });
+  });
+});
+
 describe('filtering with include/exclude', () => {
   it('includes only matching fields with include option', () => {
     const env = {
@@ -769,6 +1078,154 @@ describe('filtering with include/exclude', () => {
   });
 });
 
+describe('keyMap option', () => {
+  it('pins variables to paths regardless of the other variables', () => {
+    const keyMap = { REDIS_URL: 'cache.url' };
+    expect(objectify({ env: { REDIS_URL: 'redis://a' }, keyMap })).toEqual({
+      cache: { url: 'redis://a' }
+    });
+    expect(objectify({ env: { REDIS_URL: 'redis://a', REDIS_TTL: '60' }, keyMap })).toEqual({
+      cache: { url: 'redis://a' },
+      redisTtl: 60
+    });
+  });
+
+  it('maps variables outside the prefix, into arrays, and through a schema', () => {
+    const schema = z.object({
+      cache: z.object({ url: z.string(), ttl: z.number() }),
+      hosts: z.array(z.string())
+    });
+    const config = objectify({
+      prefix: 'APP',
+      env: { REDIS_URL: 'redis://a', APP_CACHE_TTL: '60', PRIMARY_HOST: 'h0' },
+      schema,
+      strict: 'error',
+      keyMap: { REDIS_URL: 'cache.url', PRIMARY_HOST: 'hosts.0' }
+    });
+    expect(config).toEqual({ cache: { url: 'redis://a', ttl: 60 }, hosts: ['h0'] });
+  });
+
+  it('names the mapped variable as the replacement of a deprecated one', () => {
+    const warnings: ConfigWarning[] = [];
+    objectify({
+      env: { OLD_REDIS: 'redis://a' },
+      keyMap: { REDIS_URL: 'cache.url' },
+      deprecations: { OLD_REDIS: 'cache.url' },
+      onWarning: (warning) => warnings.push(warning)
+    });
+    expect(warnings[0]?.replacement).toBe('REDIS_URL');
+  });
+});
+
+describe('groups option', () => {
+  it("nests a group with 'nested' even when it has a single variable", () => {
+    expect(objectify({ env: { REDIS_URL: 'x', PORT: '1' }, groups: { REDIS: 'nested' } })).toEqual({
+      redis: { url: 'x' },
+      port: 1
+    });
+  });
+
+  it("keeps a group flat with 'flat' even when it has several variables", () => {
+    expect(
+      objectify({ env: { REDIS_URL: 'x', REDIS_TTL: '60' }, groups: { REDIS: 'flat' } })
+    ).toEqual({ redisUrl: 'x', redisTtl: 60 });
+  });
+
+  it('puts a group under a path with one flat field per variable', () => {
+    expect(
+      objectify({
+        prefix: 'APP',
+        env: { APP_REDIS_URL: 'x', APP_REDIS_MAX_CONNS: '5', APP_REDIS_HOSTS_0: 'h0' },
+        groups: { REDIS: { path: 'cache.redis' } },
+        indexedArrays: true
+      })
+    ).toEqual({ cache: { redis: { url: 'x', maxConns: 5, hosts: ['h0'] } } });
+  });
+
+  it('prefers the longest matching group', () => {
+    expect(
+      objectify({
+        env: { DATABASE_HOST: 'a', DATABASE_REPLICA_HOST: 'b', DATABASE_PORT: '1' },
+        groups: { DATABASE: 'flat', DATABASE_REPLICA: { path: 'replica' } }
+      })
+    ).toEqual({ databaseHost: 'a', databasePort: 1, replica: { host: 'b' } });
+  });
+});
+
+describe('nestingDelimiter option', () => {
+  it('nests only at the nesting delimiter, keeping words together', () => {
+    const env = {
+      APP__DATABASE__HOST: 'db',
+      APP__DATABASE__MAX_POOL_SIZE: '10',
+      APP__MAX_RETRIES: '3',
+      APP__LOG_LEVEL: 'info'
+    };
+    expect(objectify({ prefix: 'APP', env, nestingDelimiter: '__' })).toEqual({
+      database: { host: 'db', maxPoolSize: 10 },
+      maxRetries: 3,
+      logLevel: 'info'
+    });
+  });
+
+  it('gives each key the same shape whatever other keys exist', () => {
+    const single = objectify({ env: { REDIS__URL: 'x' }, nestingDelimiter: '__' });
+    const several = objectify({
+      env: { REDIS__URL: 'x', REDIS_TTL: '60', MAX_CONN: '1', MAX_WAIT: '2' },
+      nestingDelimiter: '__'
+    });
+    expect(single).toEqual({ redis: { url: 'x' } });
+    expect(several).toEqual({ redis: { url: 'x' }, redisTtl: 60, maxConn: 1, maxWait: 2 });
+  });
+
+  it('accepts either delimiter after the prefix and reads array indices', () => {
+    const env = { APP_SERVERS__0__HOST: 'a', APP__SERVERS__1__HOST: 'b' };
+    expect(objectify({ prefix: 'APP', env, nestingDelimiter: '__', indexedArrays: true })).toEqual({
+      servers: [{ host: 'a' }, { host: 'b' }]
+    });
+  });
+
+  it('matches schema paths level by level', () => {
+    const schema = z.object({
+      databaseHost: z.string().optional(),
+      database: z.object({ maxPoolSize: z.number() }),
+      labels: z.record(z.string(), z.string()).optional()
+    });
+    const env = {
+      APP__DATABASE__MAX_POOL_SIZE: '10',
+      APP__DATABASE_HOST: 'flat',
+      APP__LABELS__TEAM_NAME: 'core'
+    };
+    expect(objectify({ prefix: 'APP', env, schema, nestingDelimiter: '__' })).toEqual({
+      databaseHost: 'flat',
+      database: { maxPoolSize: 10 },
+      labels: { teamName: 'core' }
+    });
+  });
+
+  it('round-trips through envy', () => {
+    const config = { database: { host: 'db', maxPoolSize: 10 }, logLevel: 'info' };
+    const env = envy(config, { prefix: 'APP', nestingDelimiter: '__' });
+    expect(env).toEqual({
+      APP__DATABASE__HOST: 'db',
+      APP__DATABASE__MAX_POOL_SIZE: '10',
+      APP__LOG_LEVEL: 'info'
+    });
+    expect(objectify({ prefix: 'APP', env, nestingDelimiter: '__' })).toEqual(config);
+  });
+
+  it('names nested env keys in validation errors', () => {
+    const result = safeObjectify({
+      prefix: 'APP',
+      env: {},
+      schema: z.object({ database: z.object({ host: z.string() }).prefault({}) }),
+      nestingDelimiter: '__'
+    });
+    expect(!result.success && (result.error as ObjectEnvyError).issues[0]?.envKey).toBe(
+      'APP__DATABASE__HOST'
+    );
+  });
+});
+
 describe('override', () => {
   it('applies default values to empty config', () => {
     const config = {};
@@ -1136,279 +1593,2289 @@ describe('array value support', () => {
   });
 });
 
-describe('envy (reverse transformation)', () => {
-  it('converts flat camelCase config to SCREAMING_SNAKE_CASE env', () => {
-    const config = {
-      port: 3000,
-      debug: true,
-      host: 'localhost'
+describe('indexed arrays', () => {
+  it('builds arrays of objects from indexed keys', () => {
+    const config = objectify({
+      env: { SERVERS_0_HOST: 'a', SERVERS_0_PORT: '80', SERVERS_1_HOST: 'b', PORT: '3000' },
+      indexedArrays: true
+    });
+    expect(config).toEqual({ servers: [{ host: 'a', port: 80 }, { host: 'b' }], port: 3000 });
+  });
+
+  it('keeps numeric segments in flat keys unless asked', () => {
+    expect(objectify({ env: { SERVERS_0_HOST: 'a' } })).toEqual({ servers0Host: 'a' });
+    expect(objectify({ env: { OAUTH_2_CLIENT_ID: 'id' } })).toEqual({ oauth2ClientId: 'id' });
+    expect(objectify({ env: { REDIS_DB_0: '1' } })).toEqual({ redisDb0: 1 });
+  });
+
+  it('keeps numeric segments in flat keys that start no array', () => {
+    const warnings: ConfigWarning[] = [];
+    const options = {
+      indexedArrays: true,
+      onWarning: (warning: ConfigWarning) => warnings.push(warning)
     };
+    const env = { OAUTH_2_CLIENT_ID: 'id', REDIS_DB_0: '1' };
+    expect(objectify({ env, ...options })).toEqual({ oauth2ClientId: 'id', redisDb: [1] });
+    expect(objectify({ env: { APP_OAUTH_2_CLIENT_ID: 'id' }, prefix: 'APP', ...options })).toEqual({
+      oauth2ClientId: 'id'
+    });
+    expect(warnings.map(({ envKey, message }) => `${envKey}: ${message}`)).toEqual([
+      'OAUTH_2_CLIENT_ID: Index 2 skips 0; read as oauth2ClientId',
+      'APP_OAUTH_2_CLIENT_ID: Index 2 skips 0; read as oauth2ClientId'
+    ]);
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      PORT: '3000',
-      DEBUG: 'true',
-      HOST: 'localhost'
+  it('nests a single indexed key', () => {
+    expect(objectify({ env: { SERVERS_0_HOST: 'a' }, indexedArrays: true })).toEqual({
+      servers: [{ host: 'a' }]
     });
   });
 
-  it('converts nested config to flattened SCREAMING_SNAKE_CASE env', () => {
-    const config = {
-      portNumber: 3000,
-      log: {
-        level: 'debug',
-        path: '/var/log'
-      }
+  it('builds arrays of primitives', () => {
+    expect(objectify({ env: { HOSTS_0: 'a', HOSTS_1: 'b,c' }, indexedArrays: true })).toEqual({
+      hosts: ['a', ['b', 'c']]
+    });
+  });
+
+  it('builds no array with a gap, a leading zero or too many items, and warns', () => {
+    const warnings: ConfigWarning[] = [];
+    const options = {
+      indexedArrays: true,
+      onWarning: (warning: ConfigWarning) => warnings.push(warning)
     };
+    expect(objectify({ env: { SERVERS_3_HOST: 'a' }, ...options })).toEqual({ servers3Host: 'a' });
+    expect(objectify({ env: { SERVERS_0_HOST: 'a', SERVERS_2_HOST: 'c' }, ...options })).toEqual({
+      servers: { '0': { host: 'a' }, '2': { host: 'c' } }
+    });
+    expect(objectify({ env: { X_99999999_Y: '1' }, ...options })).toEqual({ x99999999Y: 1 });
+    expect(objectify({ env: { TAGS_01: 'a' }, ...options })).toEqual({ tags01: 'a' });
+    expect(warnings).toEqual([
+      {
+        code: 'sparse_index',
+        envKey: 'SERVERS_3_HOST',
+        message: 'Index 3 skips 0; read as servers3Host'
+      },
+      {
+        code: 'sparse_index',
+        envKey: 'SERVERS_0_HOST',
+        message: 'Not an array item: index 2 skips 1; read as servers.0.host'
+      },
+      {
+        code: 'sparse_index',
+        envKey: 'SERVERS_2_HOST',
+        message: 'Index 2 skips 1; read as servers.2.host'
+      },
+      {
+        code: 'sparse_index',
+        envKey: 'X_99999999_Y',
+        message: 'Index 99999999 is over the limit of 999; read as x99999999Y'
+      }
+    ]);
+    warnings.length = 0;
+    const many = Object.fromEntries(
+      Array.from({ length: 1001 }, (_, index) => [`T_${index}`, 'x'])
+    );
+    expect(Array.isArray(objectify({ env: many, ...options }).t)).toBe(false);
+    expect(warnings).toHaveLength(1001);
+    expect(warnings.at(-1)?.message).toBe('Index 1000 is over the limit of 999; read as t.1000');
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      PORT_NUMBER: '3000',
-      LOG_LEVEL: 'debug',
-      LOG_PATH: '/var/log'
+  it('camelCases item fields and supports nested indices', () => {
+    const config = objectify({
+      env: { APP_SERVERS_0_HOST_NAME: 'a', APP_SERVERS_0_ALIASES_0: 'x' },
+      prefix: 'APP',
+      indexedArrays: true
     });
+    expect(config).toEqual({ servers: [{ hostName: 'a', aliases: ['x'] }] });
   });
 
-  it('converts deeply nested structures', () => {
-    const config = {
-      database: {
-        connection: {
-          host: 'localhost',
-          port: 5432
-        },
-        pool: {
-          min: 2,
-          max: 10
-        }
-      }
-    };
+  it('honours a custom delimiter', () => {
+    const config = objectify({
+      env: { APP__SERVERS__0__HOST_NAME: 'a', APP__SERVERS__1__HOST_NAME: 'b' },
+      prefix: 'APP',
+      delimiter: '__',
+      indexedArrays: true
+    });
+    expect(config).toEqual({ servers: [{ hostName: 'a' }, { hostName: 'b' }] });
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      DATABASE_CONNECTION_HOST: 'localhost',
-      DATABASE_CONNECTION_PORT: '5432',
-      DATABASE_POOL_MIN: '2',
-      DATABASE_POOL_MAX: '10'
+  it('follows the element schema', () => {
+    const schema = z.object({
+      servers: z.array(z.object({ hostName: z.string(), tls: z.object({ certPath: z.string() }) }))
+    });
+    const config = objectify({
+      env: { SERVERS_0_HOST_NAME: 'a', SERVERS_0_TLS_CERT_PATH: '/a.pem' },
+      schema
     });
+    expect(config).toEqual({ servers: [{ hostName: 'a', tls: { certPath: '/a.pem' } }] });
   });
 
-  it('converts boolean values to string', () => {
-    const config = {
-      debug: true,
-      production: false,
-      verbose: true
-    };
+  it('looks through optional arrays in the schema', () => {
+    const schema = z.object({ tags: z.array(z.string()).optional() });
+    expect(objectify({ env: { TAGS_0: 'red', TAGS_1: 'blue' }, schema })).toEqual({
+      tags: ['red', 'blue']
+    });
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      DEBUG: 'true',
-      PRODUCTION: 'false',
-      VERBOSE: 'true'
+  it('keeps schema keys that end in digits', () => {
+    const schema = z.object({ http2: z.boolean() });
+    expect(objectify({ env: { HTTP_2: 'true' }, schema })).toEqual({ http2: true });
+  });
+
+  it('only indexes fields the schema types as arrays', () => {
+    const schema = z.object({
+      servers: z.array(z.object({ host: z.string() })).optional(),
+      oauth2ClientId: z.string().optional(),
+      redisDb0: z.number().optional()
+    });
+    const env = { SERVERS_0_HOST: 'a', OAUTH_2_CLIENT_ID: 'id', REDIS_DB_0: '1' };
+    expect(objectify({ env, schema })).toEqual({
+      servers: [{ host: 'a' }],
+      oauth2ClientId: 'id',
+      redisDb0: 1
     });
   });
 
-  it('converts arrays to comma-separated strings', () => {
-    const config = {
-      tags: ['api', 'v1', 'beta'],
-      hosts: ['host1', 'host2']
+  it('reports schema array variables whose indices skip one or pass the limit', () => {
+    const schema = z.object({ servers: z.array(z.object({ host: z.string() })).optional() });
+    const issues = (env: Record<string, string>) => {
+      const result = safeObjectify({ env, schema });
+      return result.success
+        ? []
+        : result.error.issues.map(({ envKey, message, code }) => ({ envKey, message, code }));
     };
+    expect(issues({ SERVERS_0_HOST: 'a', SERVERS_2_HOST: 'c' })).toEqual([
+      {
+        envKey: 'SERVERS_0_HOST',
+        message: 'Not an array item: index 2 skips 1',
+        code: 'sparse_index'
+      },
+      { envKey: 'SERVERS_2_HOST', message: 'Index 2 skips 1', code: 'sparse_index' }
+    ]);
+    expect(issues({ SERVERS_1_HOST: 'a', SERVERS_2_HOST: 'b' })).toEqual([
+      { envKey: 'SERVERS_1_HOST', message: 'Index 1 skips 0', code: 'sparse_index' },
+      { envKey: 'SERVERS_2_HOST', message: 'Index 2 skips 0', code: 'sparse_index' }
+    ]);
+    expect(issues({ SERVERS_5000_HOST: 'a' })).toEqual([
+      {
+        envKey: 'SERVERS_5000_HOST',
+        message: 'Index 5000 is over the limit of 999',
+        code: 'sparse_index'
+      }
+    ]);
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      TAGS: 'api,v1,beta',
-      HOSTS: 'host1,host2'
+  it('names the missing indexed variable in validation errors', () => {
+    const schema = z.object({
+      servers: z.array(z.object({ host: z.string(), port: z.number().optional() }))
+    });
+    try {
+      objectify({ env: { SERVERS_0_HOST: 'a', SERVERS_1_PORT: '80' }, schema });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues[0]).toMatchObject({
+        path: ['servers', 1, 'host'],
+        envKey: 'SERVERS_1_HOST',
+        rawValue: undefined
+      });
+    }
+  });
+
+  it('redacts sensitive fields inside array items', () => {
+    const schema = z.object({
+      servers: z.array(z.object({ host: z.string(), dsn: z.string().meta({ sensitive: true }) }))
     });
+    const config = objectify({ env: { SERVERS_0_HOST: 'a', SERVERS_0_DSN: 'pg://x' }, schema });
+    expect(redact(config)).toEqual({ servers: [{ host: 'a', dsn: REDACTED }] });
   });
 
-  it('handles mixed nested and array values', () => {
+  it('round-trips arrays of objects through envy', () => {
     const config = {
-      server: {
-        port: 3000,
-        hosts: ['localhost', '127.0.0.1']
-      },
-      debug: false
+      servers: [
+        { host: 'a', port: 80 },
+        { host: 'b', port: 81 }
+      ],
+      tags: ['red', 'blue']
     };
-
     const env = envy(config);
     expect(env).toEqual({
-      SERVER_PORT: '3000',
-      SERVER_HOSTS: 'localhost,127.0.0.1',
-      DEBUG: 'false'
+      SERVERS_0_HOST: 'a',
+      SERVERS_0_PORT: '80',
+      SERVERS_1_HOST: 'b',
+      SERVERS_1_PORT: '81',
+      TAGS: 'red,blue'
     });
+    expect(objectify({ env, indexedArrays: true })).toEqual(config);
   });
 
-  it('is reversible with objectify', () => {
-    const originalEnv = {
-      PORT: '3000',
-      HOST: 'localhost',
-      DEBUG: 'true'
-    };
-
-    const config = objectify({ env: originalEnv });
-    const recoveredEnv = envy(config);
+  it('writes every array as indexed keys with arrayEncoding: indexed', () => {
+    const env = envy({ tags: ['x'] }, { arrayEncoding: 'indexed', prefix: 'APP' });
+    expect(env).toEqual({ APP_TAGS_0: 'x' });
+    expect(objectify({ env, prefix: 'APP', indexedArrays: true })).toEqual({ tags: ['x'] });
+  });
+});
 
-    expect(recoveredEnv).toEqual(originalEnv);
+describe('JSON values', () => {
+  it('comma-splits JSON by default', () => {
+    expect(objectify({ env: { FEATURE_FLAGS: '{"a":true,"b":false}' } })).toEqual({
+      featureFlags: ['{"a":true', '"b":false}']
+    });
   });
 
-  it('is reversible with nested structures', () => {
-    const originalEnv = {
-      PORT_NUMBER: '3000',
-      LOG_LEVEL: 'debug',
-      LOG_PATH: '/var/log'
+  it('parses JSON objects and arrays with json: true', () => {
+    const config = objectify({
+      env: { FEATURE_FLAGS: '{"a":true,"b":{"c":1}}', HOSTS: ' ["a","b"] ', PORT: '3000' },
+      json: true
+    });
+    expect(config).toEqual({
+      featureFlags: { a: true, b: { c: 1 } },
+      hosts: ['a', 'b'],
+      port: 3000
+    });
+  });
+
+  it('leaves JSON strings inside the document uncoerced', () => {
+    expect(objectify({ env: { LIMITS: '{"max":"10","on":"yes"}' }, json: true })).toEqual({
+      limits: { max: '10', on: 'yes' }
+    });
+  });
+
+  it('parses values for object, record and array schema fields without json: true', () => {
+    const schema = z.object({
+      featureFlags: z.object({ a: z.boolean(), b: z.boolean() }),
+      labels: z.record(z.string(), z.string()),
+      hosts: z.array(z.string()),
+      name: z.string()
+    });
+    const config = objectify({
+      env: {
+        FEATURE_FLAGS: '{"a":true,"b":false}',
+        LABELS: '{"team":"core","tier":"1"}',
+        HOSTS: '["a","b"]',
+        NAME: '{"not":"parsed"}'
+      },
+      schema
+    });
+    expect(config).toEqual({
+      featureFlags: { a: true, b: false },
+      labels: { team: 'core', tier: '1' },
+      hosts: ['a', 'b'],
+      name: '{"not":"parsed"}'
+    });
+  });
+
+  it('still comma-splits non-JSON values for array schema fields', () => {
+    const schema = z.object({ hosts: z.array(z.string()) });
+    expect(objectify({ env: { HOSTS: 'a,b' }, schema })).toEqual({ hosts: ['a', 'b'] });
+  });
+
+  it('finds nested and optional object fields', () => {
+    const schema = z.object({
+      db: z.object({ pool: z.object({ min: z.number(), max: z.number() }).optional() })
+    });
+    expect(objectify({ env: { DB_POOL: '{"min":1,"max":5}' }, schema })).toEqual({
+      db: { pool: { min: 1, max: 5 } }
+    });
+  });
+
+  it('merges JSON objects with individual variables, which win', () => {
+    const schema = z.object({
+      featureFlags: z.object({ a: z.boolean(), b: z.boolean(), c: z.boolean().optional() })
+    });
+    for (const env of [
+      { FEATURE_FLAGS: '{"a":true,"b":true}', FEATURE_FLAGS_B: 'false' },
+      { FEATURE_FLAGS_B: 'false', FEATURE_FLAGS: '{"a":true,"b":true}' }
+    ]) {
+      expect(objectify({ env, schema })).toEqual({ featureFlags: { a: true, b: false } });
+    }
+  });
+
+  it('reports malformed JSON with the env key', () => {
+    const schema = z.object({ featureFlags: z.object({ a: z.boolean() }) });
+    try {
+      objectify({ env: { APP_FEATURE_FLAGS: '{"a":tru}' }, prefix: 'APP', schema });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ObjectEnvyError);
+      expect((error as ObjectEnvyError).issues).toEqual([
+        {
+          path: ['featureFlags'],
+          envKey: 'APP_FEATURE_FLAGS',
+          rawValue: '{"a":tru}',
+          expected: 'JSON',
+          message: expect.stringContaining('Invalid JSON'),
+          code: 'invalid_json'
+        }
+      ]);
+    }
+  });
+
+  it('reports malformed JSON without a schema', () => {
+    const result = safeObjectify({ env: { HOSTS: '[a,b]' }, json: true });
+    expect(result.success).toBe(false);
+    expect((result as { error: ObjectEnvyError }).error.issues[0]).toMatchObject({
+      envKey: 'HOSTS',
+      code: 'invalid_json'
+    });
+  });
+
+  it('redacts malformed sensitive JSON in the error', () => {
+    try {
+      objectify({ env: { DB_PASSWORD: '{oops}' }, json: true });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues[0]!.rawValue).toBe(REDACTED);
+    }
+  });
+
+  it('maps validation issues inside a JSON value to its env key', () => {
+    const schema = z.object({ featureFlags: z.object({ a: z.boolean() }) });
+    try {
+      objectify({ env: { FEATURE_FLAGS: '{"a":"maybe"}' }, schema });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues[0]).toMatchObject({
+        path: ['featureFlags', 'a'],
+        envKey: 'FEATURE_FLAGS',
+        rawValue: '{"a":"maybe"}'
+      });
+    }
+  });
+
+  it('does not parse JSON when coerce is false', () => {
+    expect(objectify({ env: { FLAGS: '{"a":1}' }, json: true, coerce: false })).toEqual({
+      flags: '{"a":1}'
+    });
+  });
+
+  it('round-trips arrayEncoding: json through envy', () => {
+    const config = { hosts: ['a', 'b,c'], ports: [80, 443] };
+    const env = envy(config, { arrayEncoding: 'json' });
+    expect(objectify({ env, json: true })).toEqual(config);
+  });
+});
+
+describe('coercers option', () => {
+  const env = {
+    APP_HTTP_TIMEOUT: '5s',
+    APP_UPLOAD_MAX_SIZE: '10MB',
+    APP_STARTED_AT: '2024-01-01',
+    APP_API_URL: 'https://api.example.com',
+    APP_PORT: '3000'
+  };
+
+  it('applies built-in coercers by path pattern', () => {
+    const config = objectify({
+      env,
+      prefix: 'APP',
+      coercers: {
+        duration: ['*Timeout'],
+        bytes: ['upload.maxSize'],
+        date: ['startedAt'],
+        url: ['api.url']
+      }
+    });
+    expect(config).toEqual({
+      httpTimeout: 5000,
+      uploadMaxSize: 10_485_760,
+      startedAt: new Date('2024-01-01T00:00:00Z'),
+      apiUrl: new URL('https://api.example.com'),
+      port: 3000
+    });
+  });
+
+  it('leaves values outside the patterns to the default coercion', () => {
+    expect(objectify({ env, prefix: 'APP', coercers: { duration: ['*Timeout'] } })).toMatchObject({
+      uploadMaxSize: '10MB',
+      startedAt: '2024-01-01'
+    });
+  });
+
+  it('replaces comma splitting for matched paths', () => {
+    const config = objectify({
+      env: { TAGS: 'a,b' },
+      coercers: { csv: { paths: ['tags'], coerce: (raw) => raw.split(',').reverse().join('|') } }
+    });
+    expect(config).toEqual({ tags: 'b|a' });
+  });
+
+  it('applies coercers named by schema tags', () => {
+    const schema = z.object({
+      http: z.object({ timeout: z.number().meta({ coerce: 'duration' }) }),
+      upload: z.object({ maxSize: z.number().describe('@coerce bytes') }),
+      startedAt: z.date().meta({ coerce: 'date' }),
+      api: z.object({ url: z.instanceof(URL).meta({ coerce: 'url' }) }),
+      maxId: z.bigint().meta({ coerce: 'bigint' }).optional(),
+      port: z.number()
+    });
+    const config = objectify({
+      env: { ...env, APP_MAX_ID: '9007199254740993' },
+      prefix: 'APP',
+      schema
+    });
+    expect(config.http.timeout).toBe(5000);
+    expect(config.upload.maxSize).toBe(10_485_760);
+    expect(config.startedAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(config.api.url.hostname).toBe('api.example.com');
+    expect(config.maxId).toBe(9_007_199_254_740_993n);
+  });
+
+  it('prefers a schema tag over a path pattern', () => {
+    const schema = z.object({ retryDelay: z.number().meta({ coerce: 'duration' }) });
+    const config = objectify({
+      env: { RETRY_DELAY: '2s' },
+      schema,
+      coercers: { bytes: ['retryDelay'] }
+    });
+    expect(config).toEqual({ retryDelay: 2000 });
+  });
+
+  it('applies tags inside array items', () => {
+    const schema = z.object({
+      jobs: z.array(z.object({ every: z.number().meta({ coerce: 'duration' }) }))
+    });
+    expect(objectify({ env: { JOBS_0_EVERY: '1m', JOBS_1_EVERY: '1h' }, schema })).toEqual({
+      jobs: [{ every: 60_000 }, { every: 3_600_000 }]
+    });
+  });
+
+  it('reports rejected values with the env key and coercer name', () => {
+    try {
+      objectify({
+        env: { APP_HTTP_TIMEOUT: 'soon' },
+        prefix: 'APP',
+        coercers: { duration: ['*Timeout'] }
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ObjectEnvyError);
+      expect((error as ObjectEnvyError).issues).toEqual([
+        {
+          path: ['httpTimeout'],
+          envKey: 'APP_HTTP_TIMEOUT',
+          rawValue: 'soon',
+          expected: 'duration',
+          message: expect.stringContaining('Expected a duration'),
+          code: 'invalid_format'
+        }
+      ]);
+    }
+  });
+
+  it('throws on unknown coercer names', () => {
+    const schema = z.object({ version: z.string().meta({ coerce: 'semver' }) });
+    expect(() => objectify({ env: { VERSION: '1.0.0' }, schema })).toThrow(
+      'Unknown coercer "semver"'
+    );
+  });
+
+  it('does not coerce when coerce is false', () => {
+    expect(
+      objectify({ env: { TIMEOUT: '5s' }, coerce: false, coercers: { duration: ['timeout'] } })
+    ).toEqual({ timeout: '5s' });
+  });
+
+  it('records coerced values in meta', () => {
+    const { meta } = objectifyWithMeta({
+      env: { TIMEOUT: '5s' },
+      coercers: { duration: ['timeout'] }
+    });
+    expect(meta['timeout']).toMatchObject({ rawValue: '5s', coerced: true });
+  });
+
+  it('keeps Date and URL values whole through merge, redact and envy', () => {
+    const config = objectify({
+      env,
+      prefix: 'APP',
+      coercers: { date: ['startedAt'], url: ['api.url'] }
+    });
+    const merged = merge({ startedAt: new Date(0) }, config);
+    expect(merged.startedAt).toBeInstanceOf(Date);
+    expect(redact(config)['startedAt']).toBeInstanceOf(Date);
+    expect(envy(config, { prefix: 'APP' })).toMatchObject({
+      APP_STARTED_AT: '2024-01-01T00:00:00.000Z',
+      APP_API_URL: 'https://api.example.com/'
+    });
+  });
+
+  it('keeps Date serialisation intact with redact: true', () => {
+    const config = objectify({
+      env: { STARTED_AT: '2024-01-01', API_TOKEN: 'abc' },
+      coercers: { date: ['startedAt'] },
+      redact: true
+    });
+    expect(JSON.stringify(config)).toBe(
+      `{"startedAt":"2024-01-01T00:00:00.000Z","apiToken":"${REDACTED}"}`
+    );
+  });
+
+  it('round-trips through envy', () => {
+    const coercers = { date: ['startedAt'], bigint: ['maxId'], duration: ['timeout'] };
+    const config = objectify({
+      env: { STARTED_AT: '2024-01-01T10:00:00Z', MAX_ID: '9007199254740993', TIMEOUT: '1s' },
+      coercers
+    });
+    expect(objectify({ env: envy(config), coercers })).toEqual(config);
+  });
+});
+
+describe('schema-directed coercion', () => {
+  it('keeps string fields as written', () => {
+    const schema = z.object({ zipCode: z.string(), name: z.string(), tags: z.string() });
+    expect(objectify({ env: { ZIP_CODE: '02134', NAME: 'yes', TAGS: 'a,b' }, schema })).toEqual({
+      zipCode: '02134',
+      name: 'yes',
+      tags: 'a,b'
+    });
+  });
+
+  it('converts number and boolean fields', () => {
+    const schema = z.object({
+      zipCode: z.number(),
+      ratio: z.number(),
+      limit: z.number(),
+      debug: z.boolean(),
+      verbose: z.boolean(),
+      quiet: z.boolean()
+    });
+    const env = {
+      ZIP_CODE: '02134',
+      RATIO: '.5',
+      LIMIT: '1e3',
+      DEBUG: 'on',
+      VERBOSE: '1',
+      QUIET: 'No'
     };
+    expect(objectify({ env, schema })).toEqual({
+      zipCode: 2134,
+      ratio: 0.5,
+      limit: 1000,
+      debug: true,
+      verbose: true,
+      quiet: false
+    });
+  });
 
-    const config = objectify({ env: originalEnv });
-    const recoveredEnv = envy(config);
+  it('passes values that do not read as the field type to the schema unchanged', () => {
+    const schema = z.object({ port: z.number(), debug: z.boolean() });
+    try {
+      objectify({ env: { PORT: '80,443', DEBUG: 'maybe' }, schema });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues).toMatchObject([
+        { envKey: 'PORT', rawValue: '80,443', expected: 'number' },
+        { envKey: 'DEBUG', rawValue: 'maybe', expected: 'boolean' }
+      ]);
+    }
+  });
+
+  it('splits array fields and converts each item to the element type', () => {
+    const schema = z.object({
+      ports: z.array(z.number()),
+      codes: z.array(z.string()),
+      hosts: z.array(z.string())
+    });
+    expect(
+      objectify({ env: { PORTS: '80, 443', CODES: '007,010', HOSTS: 'localhost' }, schema })
+    ).toEqual({ ports: [80, 443], codes: ['007', '010'], hosts: ['localhost'] });
+  });
+
+  it('converts indexed primitive items to the element type', () => {
+    const schema = z.object({ codes: z.array(z.string()), ports: z.array(z.number()) });
+    expect(objectify({ env: { CODES_0: '007', CODES_1: 'true', PORTS_0: '80' }, schema })).toEqual({
+      codes: ['007', 'true'],
+      ports: [80]
+    });
+  });
+
+  it('follows enums and literals', () => {
+    const schema = z.object({
+      level: z.enum(['1', '2']),
+      version: z.literal(3),
+      mode: z.literal(['on', 'off'])
+    });
+    expect(objectify({ env: { LEVEL: '1', VERSION: '3', MODE: 'on' }, schema })).toEqual({
+      level: '1',
+      version: 3,
+      mode: 'on'
+    });
+  });
+
+  it('converts bigint and date fields', () => {
+    const schema = z.object({ maxId: z.bigint(), startedAt: z.date() });
+    expect(
+      objectify({ env: { MAX_ID: '9007199254740993', STARTED_AT: '2024-01-01' }, schema })
+    ).toEqual({ maxId: 9_007_199_254_740_993n, startedAt: new Date('2024-01-01T00:00:00Z') });
+  });
+
+  it('looks through wrappers and into the input of transforms', () => {
+    const schema = z.object({
+      code: z.string().optional(),
+      retries: z.number().default(1),
+      name: z.string().transform((value) => value.length)
+    });
+    expect(objectify({ env: { CODE: '007', RETRIES: '3', NAME: '12345' }, schema })).toEqual({
+      code: '007',
+      retries: 3,
+      name: 5
+    });
+  });
+
+  it('falls back to sniffing for unions and unknown keys', () => {
+    const schema = z.object({ value: z.union([z.number(), z.string()]) }).loose();
+    expect(objectify({ env: { VALUE: '42', EXTRA: 'true' }, schema })).toEqual({
+      value: 42,
+      extra: true
+    });
+  });
+
+  it('prefers a coercer over the field type', () => {
+    const schema = z.object({ timeout: z.number().meta({ coerce: 'duration' }) });
+    expect(objectify({ env: { TIMEOUT: '2s' }, schema })).toEqual({ timeout: 2000 });
+  });
+
+  it('works with Zod v3 schemas', () => {
+    const schema = z3.object({
+      zipCode: z3.string(),
+      port: z3.number(),
+      tags: z3.array(z3.number()),
+      level: z3.enum(['1', '2']).optional()
+    });
+    const config = objectify({
+      env: { ZIP_CODE: '02134', PORT: '80', TAGS: '1', LEVEL: '2' },
+      schema
+    });
+    expectTypeOf(config).toEqualTypeOf<z3.infer<typeof schema>>();
+    expect(config).toEqual({ zipCode: '02134', port: 80, tags: [1], level: '2' });
+  });
+});
+
+describe('schema path extraction', () => {
+  const storage = z.discriminatedUnion('driver', [
+    z.object({
+      driver: z.literal('s3'),
+      s3: z.object({ bucket: z.string(), region: z.string().optional() })
+    }),
+    z.object({ driver: z.literal('fs'), rootDir: z.string() })
+  ]);
+
+  it('maps every member of a discriminated union', () => {
+    const schema = z.object({ storage });
+    expect(
+      objectify({
+        env: { STORAGE_DRIVER: 's3', STORAGE_S3_BUCKET: 'assets', STORAGE_S3_REGION: 'eu-1' },
+        schema
+      })
+    ).toEqual({ storage: { driver: 's3', s3: { bucket: 'assets', region: 'eu-1' } } });
+    expect(objectify({ env: { STORAGE_DRIVER: 'fs', STORAGE_ROOT_DIR: '/data' }, schema })).toEqual(
+      { storage: { driver: 'fs', rootDir: '/data' } }
+    );
+  });
+
+  it('maps plain unions and intersections of objects', () => {
+    const schema = z.object({
+      cache: z.union([z.object({ url: z.string() }), z.object({ maxItems: z.number() })]),
+      server: z.intersection(z.object({ hostName: z.string() }), z.object({ port: z.number() }))
+    });
+    expect(
+      objectify({
+        env: { CACHE_MAX_ITEMS: '100', SERVER_HOST_NAME: 'a', SERVER_PORT: '80' },
+        schema
+      })
+    ).toEqual({ cache: { maxItems: 100 }, server: { hostName: 'a', port: 80 } });
+  });
+
+  it('keeps a value type only where union members agree', () => {
+    const schema = z.object({
+      mode: z.union([
+        z.object({ value: z.string() }),
+        z.object({ value: z.number(), code: z.string() })
+      ])
+    });
+    expect(objectify({ env: { MODE_VALUE: '42', MODE_CODE: '007' }, schema })).toEqual({
+      mode: { value: 42, code: '007' }
+    });
+  });
+
+  it('maps record keys, converting values to the record value type', () => {
+    const schema = z.object({ labels: z.record(z.string(), z.string()) });
+    expect(objectify({ env: { LABELS_TEAM: 'core', LABELS_COST_CENTER: '042' }, schema })).toEqual({
+      labels: { team: 'core', costCenter: '042' }
+    });
+  });
+
+  it('maps records of objects, taking the shortest key that leaves a value path', () => {
+    const schema = z.object({
+      databases: z.record(
+        z.string(),
+        z.object({ host: z.string(), port: z.number().optional(), password: z.string().optional() })
+      )
+    });
+    const config = objectify({
+      env: {
+        DATABASES_PRIMARY_HOST: 'db1',
+        DATABASES_PRIMARY_PORT: '5432',
+        DATABASES_READ_REPLICA_HOST: 'db2',
+        DATABASES_READ_REPLICA_PASSWORD: 'hunter2'
+      },
+      schema
+    });
+    expect(config).toEqual({
+      databases: {
+        primary: { host: 'db1', port: 5432 },
+        readReplica: { host: 'db2', password: 'hunter2' }
+      }
+    });
+    expect(redact(config).databases.readReplica).toEqual({ host: 'db2', password: REDACTED });
+  });
+
+  it('masks schema-tagged fields under any record key', () => {
+    const schema = z.object({
+      tenants: z.record(z.string(), z.object({ dsn: z.string().meta({ sensitive: true }) }))
+    });
+    const config = objectify({ env: { TENANTS_ACME_DSN: 'pg://a' }, schema });
+    expect(redact(config)).toEqual({ tenants: { acme: { dsn: REDACTED } } });
+  });
+
+  it('maps arrays of objects inside union members', () => {
+    const schema = z.object({
+      pool: z.union([
+        z.object({ servers: z.array(z.object({ host: z.string() })) }),
+        z.object({ url: z.string() })
+      ])
+    });
+    expect(objectify({ env: { POOL_SERVERS_0_HOST: 'a' }, schema })).toEqual({
+      pool: { servers: [{ host: 'a' }] }
+    });
+  });
+
+  it('expands recursive lazy schemas a few levels deep', () => {
+    interface Node {
+      name: string;
+      child?: Node;
+    }
+    const node: z.ZodType<Node> = z.lazy(() =>
+      z.object({ name: z.string(), child: node.optional() })
+    );
+    const schema = z.object({ tree: node });
+    expect(objectify({ env: { TREE_NAME: 'root', TREE_CHILD_NAME: 'leaf' }, schema })).toEqual({
+      tree: { name: 'root', child: { name: 'leaf' } }
+    });
+  });
+
+  it('maps the input side of pipes and transforms', () => {
+    const schema = z.object({
+      db: z
+        .object({ host: z.string(), port: z.number() })
+        .transform((db) => `${db.host}:${db.port}`),
+      retries: z.string().pipe(z.coerce.number())
+    });
+    expect(objectify({ env: { DB_HOST: 'h', DB_PORT: '5432', RETRIES: '3' }, schema })).toEqual({
+      db: 'h:5432',
+      retries: 3
+    });
+  });
+
+  it('emits union and record paths from envy', () => {
+    const schema = z.object({ storage, labels: z.record(z.string(), z.string()) });
+    const config = { storage: { driver: 'fs', rootDir: '/data' }, labels: { team: 'core' } };
+    const env = envy(config, { schema });
+    expect(env).toEqual({ STORAGE_DRIVER: 'fs', STORAGE_ROOT_DIR: '/data', LABELS_TEAM: 'core' });
+    expect(objectify({ env, schema })).toEqual(config);
+  });
+
+  it('supports the same constructs in Zod v3', () => {
+    const schema = z3.object({
+      storage: z3.discriminatedUnion('driver', [
+        z3.object({ driver: z3.literal('s3'), s3: z3.object({ bucket: z3.string() }) }),
+        z3.object({ driver: z3.literal('fs'), rootDir: z3.string() })
+      ]),
+      labels: z3.record(z3.string(), z3.string()),
+      db: z3.object({ port: z3.number() }).transform((db) => db.port),
+      tree: z3.lazy(() => z3.object({ name: z3.string() })),
+      limits: z3.object({ max: z3.number() }).pipe(z3.object({ max: z3.number().max(10) }))
+    });
+    const env = {
+      STORAGE_DRIVER: 's3',
+      STORAGE_S3_BUCKET: 'assets',
+      LABELS_COST_CENTER: '042',
+      DB_PORT: '5432',
+      TREE_NAME: 'root',
+      LIMITS_MAX: '5'
+    };
+    const config = objectify({ env, schema });
+    expectTypeOf(config).toEqualTypeOf<z3.infer<typeof schema>>();
+    expect(config).toEqual({
+      storage: { driver: 's3', s3: { bucket: 'assets' } },
+      labels: { costCenter: '042' },
+      db: 5432,
+      tree: { name: 'root' },
+      limits: { max: 5 }
+    });
+  });
+
+  it('matches long keys against deep schemas without enumerating groupings', () => {
+    const schema = z.object({
+      a: z.object({
+        b: z.object({
+          c: z.object({ d: z.object({ veryLongSettingNameWithManyWords: z.number() }) })
+        })
+      }),
+      other: z.string().optional()
+    });
+    const words = Array.from({ length: 24 }, (_, index) => `W${index}`);
+    const env = {
+      A_B_C_D_VERY_LONG_SETTING_NAME_WITH_MANY_WORDS: '1',
+      [`OTHER_${words.join('_')}`]: 'x'
+    };
+    const config = objectify({ env, schema }) as { a: unknown };
+    expect(config.a).toEqual({ b: { c: { d: { veryLongSettingNameWithManyWords: 1 } } } });
+  });
+});
+
+describe('Standard Schema', () => {
+  interface AppConfig {
+    port: number;
+    zipCode: string;
+    apiKey?: string;
+    log: { level: 'debug' | 'info' };
+  }
+
+  // A Valibot-shaped schema with a hand-written validator standing in for Valibot's
+  function valibotLike(
+    validate: (value: any) => StandardSchemaV1.Result<AppConfig>
+  ): StandardSchemaV1<unknown, AppConfig> & Record<string, unknown> {
+    return {
+      kind: 'schema',
+      type: 'object',
+      entries: {
+        port: { type: 'number' },
+        zipCode: { type: 'string' },
+        apiKey: {
+          type: 'optional',
+          wrapped: { type: 'string', pipe: [{ type: 'metadata', metadata: { sensitive: true } }] }
+        },
+        log: {
+          type: 'object',
+          entries: { level: { type: 'picklist', options: ['debug', 'info'] } }
+        }
+      },
+      '~standard': { version: 1, vendor: 'valibot', validate }
+    };
+  }
+
+  const schema = valibotLike((value) =>
+    typeof value.port === 'number'
+      ? { value }
+      : {
+          issues: [
+            { message: 'Invalid type', path: [{ key: 'port' }], expected: 'number', type: 'number' }
+          ]
+        }
+  );
+
+  it('maps keys through the adapter and returns the validated output', () => {
+    const config = objectify({
+      env: { PORT: '3000', ZIP_CODE: '02134', LOG_LEVEL: 'debug' },
+      schema
+    });
+    expect(config).toEqual({ port: 3000, zipCode: '02134', log: { level: 'debug' } });
+    expectTypeOf(config).toEqualTypeOf<AppConfig>();
+  });
+
+  it('returns the value the validator produces', () => {
+    const trimming = valibotLike((value) => ({ value: { ...value, zipCode: 'normalized' } }));
+    expect(objectify({ env: { PORT: '1', ZIP_CODE: '02134' }, schema: trimming }).zipCode).toBe(
+      'normalized'
+    );
+  });
+
+  it('reports validator issues against env variables', () => {
+    const error = (() => {
+      try {
+        objectify({ env: { APP_PORT: 'abc' }, prefix: 'APP', schema });
+      } catch (caught) {
+        return caught;
+      }
+    })() as ObjectEnvyError;
+    expect(error).toBeInstanceOf(ObjectEnvyError);
+    expect(error.issues).toEqual([
+      {
+        path: ['port'],
+        envKey: 'APP_PORT',
+        rawValue: 'abc',
+        expected: 'number',
+        message: 'Invalid type',
+        code: 'number'
+      }
+    ]);
+  });
+
+  it('masks fields tagged sensitive through adapter metadata', () => {
+    const config = objectify({ env: { PORT: '1', API_KEY: 'secret' }, schema });
+    expect(redact(config).apiKey).toBe(REDACTED);
+  });
+
+  it('validates schemas without an adapter, nesting heuristically', () => {
+    const acme = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'acme',
+        validate: (value: unknown) =>
+          (value as { log?: unknown }).log
+            ? { value: value as { log: { level: string; path: string } } }
+            : { issues: [{ message: 'Required', path: ['log'] }] }
+      }
+    };
+    expect(objectify({ env: { LOG_LEVEL: 'debug', LOG_PATH: '/tmp' }, schema: acme })).toEqual({
+      log: { level: 'debug', path: '/tmp' }
+    });
+    expect(() => objectify({ env: {}, schema: acme })).toThrow(ObjectEnvyError);
+  });
+
+  it('uses schemaAdapters for other vendors', () => {
+    const acme = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'acme',
+        validate: (value: unknown) => ({ value: value as { logLevel: string } })
+      }
+    };
+    const config = objectify({
+      env: { LOG_LEVEL: '42' },
+      schema: acme,
+      schemaAdapters: [
+        {
+          vendor: 'acme',
+          describe: () => ({
+            _def: { type: 'object', shape: { logLevel: { _def: { type: 'string' } } } }
+          })
+        }
+      ]
+    });
+    expect(config).toEqual({ logLevel: '42' });
+  });
+
+  it('rejects asynchronous validation', () => {
+    const asyncSchema = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'acme',
+        validate: async (value: unknown) => ({ value: value as Record<string, string> })
+      }
+    };
+    expect(() => objectify({ env: {}, schema: asyncSchema })).toThrow(TypeError);
+  });
+
+  it('narrows envy output to the schema paths', () => {
+    const config = { port: 1, zipCode: '02134', log: { level: 'info' }, extra: true };
+    expect(envy(config, { schema })).toEqual({ PORT: '1', ZIP_CODE: '02134', LOG_LEVEL: 'info' });
+  });
+});
+
+describe('JSON Schema', () => {
+  const schema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    required: ['port', 'log'],
+    properties: {
+      port: { type: 'integer' },
+      zipCode: { type: 'string', pattern: '^\\d{5}$' },
+      debug: { type: 'boolean', default: false },
+      hosts: { type: 'array', items: { type: 'string', format: 'hostname' } },
+      databaseUrl: { type: 'string', format: 'uri', 'x-sensitive': true },
+      log: {
+        type: 'object',
+        required: ['level'],
+        properties: {
+          level: { enum: ['debug', 'info'] },
+          filePath: { type: 'string' }
+        }
+      }
+    }
+  };
+
+  it('maps keys through properties and converts by type', () => {
+    const config = objectify<{ port: number; log: { level: string } }>({
+      env: {
+        APP_PORT: '3000',
+        APP_ZIP_CODE: '02134',
+        APP_HOSTS: 'a.example',
+        APP_LOG_LEVEL: 'debug',
+        APP_LOG_FILE_PATH: '/var/log/app.log'
+      },
+      prefix: 'APP',
+      schema
+    });
+    expect(config).toEqual({
+      port: 3000,
+      zipCode: '02134',
+      debug: false,
+      hosts: ['a.example'],
+      log: { level: 'debug', filePath: '/var/log/app.log' }
+    });
+    expectTypeOf(config).toEqualTypeOf<{ port: number; log: { level: string } }>();
+  });
+
+  it('reports required, enum and format failures against env variables', () => {
+    const error = (() => {
+      try {
+        objectify({
+          env: { APP_LOG_LEVEL: 'verbose', APP_DATABASE_URL: 'not a url' },
+          prefix: 'APP',
+          schema
+        });
+      } catch (caught) {
+        return caught;
+      }
+    })() as ObjectEnvyError;
+    expect(error).toBeInstanceOf(ObjectEnvyError);
+    expect(error.issues).toEqual([
+      {
+        path: ['databaseUrl'],
+        envKey: 'APP_DATABASE_URL',
+        rawValue: REDACTED,
+        expected: 'uri',
+        message: 'Invalid uri',
+        code: 'invalid_format'
+      },
+      {
+        path: ['log', 'level'],
+        envKey: 'APP_LOG_LEVEL',
+        rawValue: 'verbose',
+        expected: "'debug' | 'info'",
+        message: 'Invalid option: expected one of "debug" | "info"',
+        code: 'invalid_value'
+      },
+      {
+        path: ['port'],
+        envKey: 'APP_PORT',
+        rawValue: undefined,
+        expected: 'integer',
+        message: 'Invalid input: expected integer, received undefined',
+        code: 'invalid_type'
+      }
+    ]);
+  });
+
+  it('masks x-sensitive fields', () => {
+    const config = objectify({
+      env: { PORT: '1', LOG_LEVEL: 'info', DATABASE_URL: 'postgres://u:p@db/app' },
+      schema
+    });
+    expect(redact(config).databaseUrl).toBe(REDACTED);
+  });
+
+  it('follows $ref definitions', () => {
+    const withRefs = {
+      type: 'object',
+      $defs: { endpoint: { type: 'object', properties: { host: { type: 'string' } } } },
+      properties: { primary: { $ref: '#/$defs/endpoint' }, replica: { $ref: '#/$defs/endpoint' } }
+    };
+    expect(objectify({ env: { PRIMARY_HOST: '10', REPLICA_HOST: 'b' }, schema: withRefs })).toEqual(
+      { primary: { host: '10' }, replica: { host: 'b' } }
+    );
+  });
+
+  it('narrows envy output to the schema paths', () => {
+    expect(envy({ port: 1, log: { level: 'info' }, extra: 'x' }, { schema })).toEqual({
+      PORT: '1',
+      LOG_LEVEL: 'info'
+    });
+  });
+});
+
+describe('envy (reverse transformation)', () => {
+  it('converts flat camelCase config to SCREAMING_SNAKE_CASE env', () => {
+    const config = {
+      port: 3000,
+      debug: true,
+      host: 'localhost'
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      PORT: '3000',
+      DEBUG: 'true',
+      HOST: 'localhost'
+    });
+  });
+
+  it('converts nested config to flattened SCREAMING_SNAKE_CASE env', () => {
+    const config = {
+      portNumber: 3000,
+      log: {
+        level: 'debug',
+        path: '/var/log'
+      }
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      PORT_NUMBER: '3000',
+      LOG_LEVEL: 'debug',
+      LOG_PATH: '/var/log'
+    });
+  });
+
+  it('converts deeply nested structures', () => {
+    const config = {
+      database: {
+        connection: {
+          host: 'localhost',
+          port: 5432
+        },
+        pool: {
+          min: 2,
+          max: 10
+        }
+      }
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      DATABASE_CONNECTION_HOST: 'localhost',
+      DATABASE_CONNECTION_PORT: '5432',
+      DATABASE_POOL_MIN: '2',
+      DATABASE_POOL_MAX: '10'
+    });
+  });
+
+  it('converts boolean values to string', () => {
+    const config = {
+      debug: true,
+      production: false,
+      verbose: true
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      DEBUG: 'true',
+      PRODUCTION: 'false',
+      VERBOSE: 'true'
+    });
+  });
+
+  it('converts arrays to comma-separated strings', () => {
+    const config = {
+      tags: ['api', 'v1', 'beta'],
+      hosts: ['host1', 'host2']
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      TAGS: 'api,v1,beta',
+      HOSTS: 'host1,host2'
+    });
+  });
+
+  it('handles mixed nested and array values', () => {
+    const config = {
+      server: {
+        port: 3000,
+        hosts: ['localhost', '127.0.0.1']
+      },
+      debug: false
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      SERVER_PORT: '3000',
+      SERVER_HOSTS: 'localhost,127.0.0.1',
+      DEBUG: 'false'
+    });
+  });
+
+  it('is reversible with objectify', () => {
+    const originalEnv = {
+      PORT: '3000',
+      HOST: 'localhost',
+      DEBUG: 'true'
+    };
+
+    const config = objectify({ env: originalEnv });
+    const recoveredEnv = envy(config);
+
+    expect(recoveredEnv).toEqual(originalEnv);
+  });
+
+  it('is reversible with nested structures', () => {
+    const originalEnv = {
+      PORT_NUMBER: '3000',
+      LOG_LEVEL: 'debug',
+      LOG_PATH: '/var/log'
+    };
+
+    const config = objectify({ env: originalEnv });
+    const recoveredEnv = envy(config);
+
+    expect(recoveredEnv).toEqual(originalEnv);
+  });
+
+  it('handles empty object', () => {
+    const config = {};
+    const env = envy(config);
+    expect(env).toEqual({});
+  });
+
+  it('handles null and undefined values', () => {
+    const config = {
+      port: 3000,
+      // null values should be skipped
+      nullValue: null as any,
+      // undefined values should be skipped
+      undefinedValue: undefined as any,
+      host: 'localhost'
+    };
+
+    const env = envy(config);
+    expect(env).toEqual({
+      PORT: '3000',
+      HOST: 'localhost'
+    });
+  });
+});
+
+describe('envy options', () => {
+  const config = { port: 3000, log: { level: 'debug', filePath: '/var/log' }, hosts: ['a', 'b'] };
+
+  it('adds the prefix with the delimiter', () => {
+    const env = envy(config, { prefix: 'APP' });
+    expectTypeOf(env).toHaveProperty('APP_LOG_LEVEL');
+    expect(env).toEqual({
+      APP_PORT: '3000',
+      APP_LOG_LEVEL: 'debug',
+      APP_LOG_FILE_PATH: '/var/log',
+      APP_HOSTS: 'a,b'
+    });
+  });
+
+  it('joins nesting levels with a custom delimiter and words with underscores', () => {
+    expect(envy(config, { prefix: 'APP', delimiter: '__' })).toEqual({
+      APP__PORT: '3000',
+      APP__LOG__LEVEL: 'debug',
+      APP__LOG__FILE_PATH: '/var/log',
+      APP__HOSTS: 'a,b'
+    });
+  });
+
+  it('does not double a delimiter already ending the prefix', () => {
+    expect(envy({ port: 1 }, { prefix: 'APP_' })).toEqual({ APP_PORT: '1' });
+  });
+
+  it('encodes arrays as JSON', () => {
+    expect(envy({ hosts: ['a', 'b'], ports: [1, 2] }, { arrayEncoding: 'json' })).toEqual({
+      HOSTS: '["a","b"]',
+      PORTS: '[1,2]'
+    });
+  });
+
+  it('emits only schema paths when given a Zod schema', () => {
+    const schema = z.object({ port: z.number(), log: z.object({ level: z.string() }) });
+    expect(envy({ ...config, sessionUrl: 'x' }, { schema })).toEqual({
+      PORT: '3000',
+      LOG_LEVEL: 'debug'
+    });
+  });
+
+  it('accepts the options object used for objectify', () => {
+    const opts = { prefix: 'APP', delimiter: '__' };
+    const env = { APP__LOG__LEVEL: 'debug', APP__LOG__FILE_PATH: '/var/log', APP__PORT: '80' };
+    expect(envy(objectify({ ...opts, env }), opts)).toEqual(env);
+  });
+});
+
+describe('envy/objectify round-trip', () => {
+  // Small seeded PRNG so failures are reproducible from the printed seed
+  function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  const words = [
+    'port',
+    'log',
+    'level',
+    'host',
+    'file',
+    'path',
+    'db',
+    'user',
+    'cache',
+    'ttl',
+    'api',
+    'url'
+  ];
+  const texts = ['debug', 'localhost', '/var/log', 'https://example.com', 'alpha-beta', 'Prod'];
+
+  const pick = <T>(rand: () => number, items: readonly T[]): T =>
+    items[Math.floor(rand() * items.length)]!;
+  const between = (rand: () => number, min: number, max: number) =>
+    min + Math.floor(rand() * (max - min + 1));
+
+  function camelKey(rand: () => number): string {
+    const parts = Array.from({ length: between(rand, 1, 2) }, () => pick(rand, words));
+    return parts
+      .map((part, index) => (index === 0 ? part : part[0]!.toUpperCase() + part.slice(1)))
+      .join('');
+  }
+
+  function leaf(rand: () => number): { value: ConfigValue; schema: z.ZodType } {
+    switch (between(rand, 0, 4)) {
+      case 0:
+        return { value: between(rand, -1000, 100000), schema: z.number() };
+      case 1:
+        return {
+          value: Number(`${between(rand, 0, 999)}.${between(rand, 1, 9)}`),
+          schema: z.number()
+        };
+      case 2:
+        return { value: rand() < 0.5, schema: z.boolean() };
+      case 3:
+        return { value: pick(rand, texts), schema: z.string() };
+      default: {
+        const length = between(rand, 2, 4);
+        return rand() < 0.5
+          ? {
+              value: Array.from({ length }, () => between(rand, 0, 500)),
+              schema: z.array(z.number())
+            }
+          : { value: Array.from({ length }, () => pick(rand, texts)), schema: z.array(z.string()) };
+      }
+    }
+  }
+
+  function node(
+    rand: () => number,
+    depth: number
+  ): { value: ConfigObject; schema: z.ZodObject<any> } {
+    const value: ConfigObject = {};
+    const shape: Record<string, z.ZodType> = {};
+    for (let i = between(rand, 1, 4); i > 0; i--) {
+      const key = camelKey(rand);
+      const child = depth > 0 && rand() < 0.35 ? node(rand, depth - 1) : leaf(rand);
+      value[key] = child.value;
+      shape[key] = child.schema;
+    }
+    return { value, schema: z.object(shape) };
+  }
+
+  function countLeaves(value: ConfigValue): number {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return 1;
+    return Object.values(value).reduce<number>((sum, child) => sum + countLeaves(child), 0);
+  }
+
+  const optionSets = [
+    {},
+    { prefix: 'APP' },
+    { delimiter: '__' },
+    { prefix: 'APP', delimiter: '__' }
+  ];
+
+  it('reproduces any config that matches the schema', () => {
+    let checked = 0;
+    for (let seed = 1; seed <= 300; seed++) {
+      const rand = random(seed);
+      const { value, schema } = node(rand, 2);
+      const opts = { ...pick(rand, optionSets), schema };
+      const env = envy(value, opts);
+      // Paths with the same words in the same order (`log.level` vs `logLevel`) are ambiguous
+      const wordKeys = new Set(Object.keys(env).map((key) => key.replaceAll('__', '_')));
+      if (wordKeys.size !== countLeaves(value)) continue;
+      expect(objectify({ ...opts, env }), `seed ${seed}`).toEqual(value);
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(150);
+  });
+
+  it('is a fixed point for configs built by objectify without a schema', () => {
+    const tokens = [
+      'debug',
+      'localhost',
+      '3000',
+      '007',
+      '-12',
+      '1.50',
+      'yes',
+      'N',
+      'a-b',
+      '/var/log'
+    ];
+    let checked = 0;
+    for (let seed = 1; seed <= 300; seed++) {
+      const rand = random(seed);
+      const opts = { ...pick(rand, optionSets), coerce: rand() < 0.8 };
+      const delimiter = opts.delimiter ?? '_';
+      const keys = Array.from({ length: between(rand, 1, 6) }, () =>
+        Array.from({ length: between(rand, 1, 3) }, () => pick(rand, words).toUpperCase()).join(
+          rand() < 0.5 ? delimiter : '_'
+        )
+      );
+      // A key that is a segment prefix of another (PORT vs PORT_NUMBER) cannot be represented
+      if (
+        keys.some((key, i) =>
+          keys.some((other, j) => i !== j && (other === key || other.startsWith(`${key}_`)))
+        )
+      ) {
+        continue;
+      }
+      const prefix = opts.prefix ? `${opts.prefix}${delimiter}` : '';
+      const source = Object.fromEntries(
+        keys.map((key) => [
+          `${prefix}${key}`,
+          Array.from({ length: between(rand, 1, 3) }, () => pick(rand, tokens)).join(',')
+        ])
+      );
+      const config = objectify({ ...opts, env: source });
+      expect(objectify({ ...opts, env: envy(config, opts) }), `seed ${seed}`).toEqual(config);
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(150);
+  });
+});
+
+describe('defaultNonNestingPrefixes', () => {
+  it('is exported as a mutable string array', () => {
+    expect(Array.isArray(defaultNonNestingPrefixes)).toBe(true);
+    expect(defaultNonNestingPrefixes).toContain('max');
+    expect(defaultNonNestingPrefixes).toContain('is');
+    expect(defaultNonNestingPrefixes).toContain('has');
+    expect(defaultNonNestingPrefixes).toContain('force');
+  });
+
+  it('can be spread to extend without mutation', () => {
+    const extended = [...defaultNonNestingPrefixes, 'lsp', 'ws'];
+    const config = objectify({
+      env: { LSP_URL: 'ws://localhost', LSP_TOKEN: 'abc' },
+      nonNestingPrefixes: extended
+    });
+    expect(config).toEqual({ lspUrl: 'ws://localhost', lspToken: 'abc' });
+  });
+});
+
+describe('transform option', () => {
+  it('applies transform after build when no schema', () => {
+    const config = objectify({
+      env: { WS_URL: 'ws://localhost:3001' },
+      transform: (parsed) => ({ ...parsed, derived: 'added' })
+    });
+    expect(config).toEqual({ wsUrl: 'ws://localhost:3001', derived: 'added' });
+  });
+
+  it('applies transform after Zod parse', () => {
+    const schema = z.object({ wsUrl: z.string() });
+    const config = objectify({
+      env: { WS_URL: 'ws://localhost' },
+      schema,
+      transform: (parsed) => ({ ...parsed, sessionUrl: 'http://localhost/session' })
+    });
+    expect(config).toEqual({ wsUrl: 'ws://localhost', sessionUrl: 'http://localhost/session' });
+  });
+
+  it('transform receives coerced values', () => {
+    const config = objectify({
+      env: { ENABLE_LSP: 'true', PORT: '3000' },
+      transform: (parsed) => {
+        expect(typeof parsed['enableLsp']).toBe('boolean');
+        expect(typeof parsed['port']).toBe('number');
+        return parsed;
+      }
+    });
+    expect(config['enableLsp']).toBe(true);
+  });
+
+  it('identity transform returns same data', () => {
+    const base = objectify({ env: { PORT: '3000' } });
+    const withTransform = objectify({ env: { PORT: '3000' }, transform: (p) => p });
+    expect(withTransform).toEqual(base);
+  });
+
+  it('infers TOut return type when transform adds a field not in schema', () => {
+    const schema = z.object({ wsUrl: z.string() });
+    const config = objectify({
+      env: { WS_URL: 'ws://localhost' },
+      schema,
+      transform: (parsed) => ({ ...parsed, sessionUrl: parsed.wsUrl.replace('ws://', 'http://') })
+    });
+    expectTypeOf(config).toHaveProperty('sessionUrl');
+    expect(config.sessionUrl).toBe('http://localhost');
+  });
+
+  it('infers TOut return type when transform adds a field with no schema', () => {
+    const config = objectify({
+      env: { WS_URL: 'ws://localhost:3001' },
+      transform: (parsed) => ({ ...parsed, sessionUrl: String(parsed['wsUrl']).replace('ws://', 'http://') })
+    });
+    expectTypeOf(config).toHaveProperty('sessionUrl');
+    expect(config.sessionUrl).toBe('http://localhost:3001');
+  });
+});
+
+describe('defaults factory option', () => {
+  it('fills in missing keys', () => {
+    const config = objectify({
+      env: {},
+      defaults: () => ({ WS_URL: 'ws://default:3001' })
+    });
+    expect(config).toEqual({ wsUrl: 'ws://default:3001' });
+  });
+
+  it('actual env values override defaults', () => {
+    const config = objectify({
+      env: { WS_URL: 'ws://override:9000' },
+      defaults: () => ({ WS_URL: 'ws://default:3001' })
+    });
+    expect(config).toEqual({ wsUrl: 'ws://override:9000' });
+  });
+
+  it('undefined env values fall back to defaults', () => {
+    const config = objectify({
+      env: { WS_URL: undefined },
+      defaults: () => ({ WS_URL: 'ws://default:3001' })
+    });
+    expect(config).toEqual({ wsUrl: 'ws://default:3001' });
+  });
+
+  it('defaults factory receives raw env', () => {
+    let receivedEnv: EnvLike | null = null;
+    objectify({
+      env: { APP_MODE: 'production' },
+      defaults: (raw) => {
+        receivedEnv = raw;
+        return {};
+      }
+    });
+    expect(receivedEnv).toEqual({ APP_MODE: 'production' });
+  });
+
+  it('defaults work with Zod schema', () => {
+    const schema = z.object({ port: z.number() });
+    const config = objectify({
+      env: {},
+      schema,
+      defaults: () => ({ PORT: '4000' })
+    });
+    expect(config).toEqual({ port: 4000 });
+  });
+});
+
+describe('files option', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('builds config from .env files', () => {
+    writeFileSync(join(dir, '.env'), 'APP_PORT=3000\nAPP_LOG_LEVEL=debug\nAPP_LOG_PATH="/var/log"');
+    const config = objectify({ env: {}, prefix: 'APP', files: ['.env'], cwd: dir });
+    expect(config).toEqual({ port: 3000, log: { level: 'debug', path: '/var/log' } });
+  });
+
+  it('lets actual env values win over file values', () => {
+    writeFileSync(join(dir, '.env'), 'PORT=3000\nHOST=localhost');
+    const config = objectify({ env: { PORT: '9000', HOST: '' }, files: ['.env'], cwd: dir });
+    expect(config).toEqual({ port: 9000, host: 'localhost' });
+  });
+
+  it('validates file values against a Zod schema', () => {
+    writeFileSync(join(dir, '.env'), 'DATABASE_HOST=db\nDATABASE_PORT=5432');
+    const schema = z.object({ database: z.object({ host: z.string(), port: z.number() }) });
+    const config = objectify({ env: {}, schema, files: ['.env'], cwd: dir });
+    expect(config).toEqual({ database: { host: 'db', port: 5432 } });
+  });
+
+  it('passes file values to the defaults factory', () => {
+    writeFileSync(join(dir, '.env'), 'MODE=production');
+    const config = objectify({
+      env: {},
+      files: ['.env'],
+      cwd: dir,
+      defaults: (raw) => ({ URL: raw['MODE'] === 'production' ? 'https://prod' : 'http://dev' })
+    });
+    expect(config).toEqual({ mode: 'production', url: 'https://prod' });
+  });
+});
+
+describe('mode option', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-'));
+    writeFileSync(join(dir, '.env'), 'APP_HOST=localhost\nAPP_PORT=3000\nAPP_DEBUG=false');
+    writeFileSync(join(dir, '.env.local'), 'APP_DEBUG=true');
+    writeFileSync(join(dir, '.env.production'), 'APP_HOST=prod.example.com\nAPP_DEBUG=false');
+    writeFileSync(join(dir, '.env.production.local'), 'APP_PORT=8080\nAPP_HOST=');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges the layered chain for the mode', () => {
+    const config = objectify({ env: {}, prefix: 'APP', mode: 'production', cwd: dir });
+    expect(config).toEqual({ host: 'prod.example.com', port: 8080, debug: false });
+  });
+
+  it('loads only .env and .env.local for a mode without files', () => {
+    const config = objectify({ env: {}, prefix: 'APP', mode: 'staging', cwd: dir });
+    expect(config).toEqual({ host: 'localhost', port: 3000, debug: true });
+  });
+
+  it('lets the actual env win over every layer', () => {
+    const config = objectify({
+      env: { APP_PORT: '9999', APP_HOST: '' },
+      prefix: 'APP',
+      mode: 'production',
+      cwd: dir
+    });
+    expect(config).toEqual({ host: 'prod.example.com', port: 9999, debug: false });
+  });
+
+  it('keeps empty layer values when coerce is off', () => {
+    const config = objectify({
+      env: {},
+      prefix: 'APP',
+      mode: 'production',
+      cwd: dir,
+      coerce: false
+    });
+    expect(config).toEqual({ host: '', port: '8080', debug: 'false' });
+  });
+
+  it('uses explicit files instead of the mode chain', () => {
+    const config = objectify({
+      env: {},
+      prefix: 'APP',
+      mode: 'production',
+      files: ['.env'],
+      cwd: dir
+    });
+    expect(config).toEqual({ host: 'localhost', port: 3000, debug: false });
+  });
+
+  it('is honoured by objectEnvy and per-call overrides', () => {
+    const loader = objectEnvy({ env: {}, prefix: 'APP', mode: 'production', cwd: dir });
+    expect(loader.objectify()).toEqual({ host: 'prod.example.com', port: 8080, debug: false });
+    expect(loader.objectify({ mode: 'staging' })).toEqual({
+      host: 'localhost',
+      port: 3000,
+      debug: true
+    });
+  });
+});
+
+describe('expand option', () => {
+  it('leaves references untouched by default', () => {
+    const config = objectify({ env: { HOST: 'db', URL: 'http://${HOST}' } });
+    expect(config).toEqual({ host: 'db', url: 'http://${HOST}' });
+  });
+
+  it('expands references before coercion', () => {
+    const config = objectify({
+      env: { APP_PORT: '${BASE_PORT}', BASE_PORT: '3000', APP_DEBUG: '${DEBUG:-true}' },
+      prefix: 'APP',
+      expand: true
+    });
+    expect(config).toEqual({ port: 3000, debug: true });
+  });
+
+  it('resolves references against defaults factory output', () => {
+    const config = objectify({
+      env: { DATABASE_URL: 'postgres://${DB_HOST}/app' },
+      expand: true,
+      defaults: () => ({ DB_HOST: 'localhost' })
+    });
+    expect(config).toEqual({ databaseUrl: 'postgres://localhost/app', dbHost: 'localhost' });
+  });
+
+  it('feeds expanded values into schema validation', () => {
+    const schema = z.object({ database: z.object({ url: z.string(), pool: z.number() }) });
+    const config = objectify({
+      env: {
+        DATABASE_URL: 'postgres://${DB_USER}@db',
+        DATABASE_POOL: '${POOL:-5}',
+        DB_USER: 'app'
+      },
+      schema,
+      expand: true
+    });
+    expect(config).toEqual({ database: { url: 'postgres://app@db', pool: 5 } });
+  });
+
+  it('does not expand keys outside the prefix', () => {
+    const config = objectify({
+      env: { APP_NAME: 'svc', OTHER: '${A}', A: '${OTHER}' },
+      prefix: 'APP',
+      expand: true
+    });
+    expect(config).toEqual({ name: 'svc' });
+  });
+
+  it('throws InterpolationError on cycles', () => {
+    expect(() => objectify({ env: { A: '${B}', B: '${A}' }, expand: true })).toThrow(
+      InterpolationError
+    );
+  });
+});
+
+describe('objectifyWithMeta', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the same config as objectify', () => {
+    const env = { APP_PORT: '3000', APP_LOG_LEVEL: 'debug', APP_LOG_PATH: '/var/log' };
+    const { config } = objectifyWithMeta({ env, prefix: 'APP' });
+    expect(config).toEqual(objectify({ env, prefix: 'APP' }));
+  });
+
+  it('maps each config path to its env key and raw value', () => {
+    const env = { APP_PORT: '3000', APP_LOG_LEVEL: 'debug', APP_LOG_PATH: '/var/log' };
+    const { meta } = objectifyWithMeta({ env, prefix: 'APP' });
+    expect(meta).toEqual({
+      port: {
+        envKey: 'APP_PORT',
+        rawValue: '3000',
+        source: 'env',
+        coerced: true,
+        sensitive: false
+      },
+      'log.level': {
+        envKey: 'APP_LOG_LEVEL',
+        rawValue: 'debug',
+        source: 'env',
+        coerced: false,
+        sensitive: false
+      },
+      'log.path': {
+        envKey: 'APP_LOG_PATH',
+        rawValue: '/var/log',
+        source: 'env',
+        coerced: false,
+        sensitive: false
+      }
+    });
+  });
+
+  it('marks values as uncoerced when coerce is off', () => {
+    const { meta } = objectifyWithMeta({ env: { PORT: '3000' }, coerce: false });
+    expect(meta['port']).toMatchObject({ rawValue: '3000', coerced: false });
+  });
+
+  it('flags comma-separated values split into arrays as coerced', () => {
+    const { meta } = objectifyWithMeta({ env: { HOSTS: 'a,b' } });
+    expect(meta['hosts']).toMatchObject({ rawValue: 'a,b', coerced: true });
+  });
+
+  it('reports the file a value was loaded from', () => {
+    writeFileSync(join(dir, '.env'), 'PORT=3000\nHOST=localhost');
+    writeFileSync(join(dir, '.env.local'), 'HOST=example.com');
+    const { meta } = objectifyWithMeta({
+      env: { PORT: '9000' },
+      files: ['.env', '.env.local'],
+      cwd: dir
+    });
+    expect(meta['port']).toEqual({
+      envKey: 'PORT',
+      rawValue: '9000',
+      source: 'env',
+      coerced: true,
+      sensitive: false
+    });
+    expect(meta['host']).toEqual({
+      envKey: 'HOST',
+      rawValue: 'example.com',
+      source: 'file',
+      file: '.env.local',
+      coerced: false,
+      sensitive: false
+    });
+  });
+
+  it('reports values filled in by the defaults factory', () => {
+    const { meta } = objectifyWithMeta({
+      env: { PORT: '', HOST: 'localhost' },
+      defaults: () => ({ PORT: '8080', HOST: 'default' })
+    });
+    expect(meta['port']).toMatchObject({ rawValue: '8080', source: 'defaults', coerced: true });
+    expect(meta['host']).toMatchObject({ rawValue: 'localhost', source: 'env' });
+  });
+
+  it('lists variables set empty, with or without a schema', () => {
+    const env = { PORT: '', HOST: 'localhost' };
+    const schema = z.object({ port: z.number().optional(), host: z.string() });
+    const results = [objectifyWithMeta({ env }), objectifyWithMeta({ env, schema })];
+    for (const { config, meta } of results) {
+      expect(config).toEqual({ host: 'localhost' });
+      expect(meta['port']).toMatchObject({ envKey: 'PORT', rawValue: '', coerced: false });
+    }
+  });
+
+  it('follows the schema structure', () => {
+    const schema = z.object({ portNumber: z.number(), log: z.object({ level: z.string() }) });
+    const { config, meta } = objectifyWithMeta({
+      env: { PORT_NUMBER: '3000', LOG_LEVEL: 'info' },
+      schema
+    });
+    expectTypeOf(config).toEqualTypeOf<{ portNumber: number; log: { level: string } }>();
+    expect(Object.keys(meta)).toEqual(['portNumber', 'log.level']);
+    expect(meta['portNumber']).toMatchObject({ envKey: 'PORT_NUMBER', coerced: true });
+  });
+
+  it('throws ObjectEnvyError when validation fails', () => {
+    const schema = z.object({ port: z.number() });
+    expect(() => objectifyWithMeta({ env: {}, schema })).toThrow(ObjectEnvyError);
+  });
+});
+
+describe('strict option', () => {
+  const schema = z.object({
+    port: z.number().default(80),
+    database: z
+      .object({ host: z.string().default('localhost'), port: z.number().default(5432) })
+      .prefault({})
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ignores unknown prefixed variables by default', () => {
+    const env = { APP_DATABSE_HOST: 'db.internal' };
+    expect(objectify({ prefix: 'APP', env, schema })).toEqual({
+      port: 80,
+      database: { host: 'localhost', port: 5432 }
+    });
+  });
+
+  it("fails on unknown prefixed variables with 'error', suggesting the expected key", () => {
+    const env = { APP_DATABSE_HOST: 'db.internal', APP_TIMEOUT: '5', OTHER_VALUE: 'x' };
+    try {
+      objectify({ prefix: 'APP', env, schema, strict: 'error' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ObjectEnvyError);
+      expect((error as ObjectEnvyError).issues).toEqual([
+        {
+          path: ['databseHost'],
+          envKey: 'APP_DATABSE_HOST',
+          rawValue: 'db.internal',
+          expected: undefined,
+          message: 'Unknown variable; did you mean APP_DATABASE_HOST?',
+          code: 'unrecognized_key'
+        },
+        {
+          path: ['timeout'],
+          envKey: 'APP_TIMEOUT',
+          rawValue: '5',
+          expected: undefined,
+          message: 'Unknown variable',
+          code: 'unrecognized_key'
+        }
+      ]);
+    }
+  });
+
+  it("emits a warning per unknown variable with 'warn' and still builds the config", () => {
+    const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    const env = { APP_PROT: '81', APP_DATABASE_PORT: '5433' };
+    expect(objectify({ prefix: 'APP', env, schema, strict: 'warn' })).toEqual({
+      port: 80,
+      database: { host: 'localhost', port: 5433 }
+    });
+    expect(emitWarning).toHaveBeenCalledTimes(1);
+    expect(emitWarning).toHaveBeenCalledWith('APP_PROT: Unknown variable; did you mean APP_PORT?', {
+      type: 'ObjectEnvyWarning',
+      code: 'OBJECTENVY_UNKNOWN_KEY'
+    });
+  });
+
+  it('accepts array elements and record entries the schema declares', () => {
+    const withCollections = z.object({
+      hosts: z.array(z.string()),
+      labels: z.record(z.string(), z.string())
+    });
+    const env = { APP_HOSTS_0: 'a', APP_HOSTS_1: 'b', APP_LABELS_TEAM: 'core' };
+    expect(objectify({ prefix: 'APP', env, schema: withCollections, strict: 'error' })).toEqual({
+      hosts: ['a', 'b'],
+      labels: { team: 'core' }
+    });
+  });
+
+  it('only checks variables under a schema field without a prefix', () => {
+    const env = { PATH: '/usr/bin', HOME: '/root', DATABASE_HSOT: 'db', PORT: '81' };
+    try {
+      objectify({ env, schema, strict: 'error' });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ObjectEnvyError).issues).toMatchObject([
+        { envKey: 'DATABASE_HSOT', message: 'Unknown variable; did you mean DATABASE_HOST?' }
+      ]);
+    }
+    expect(objectify({ env: { PATH: '/usr/bin', PORT: '81' }, schema, strict: 'error' })).toEqual({
+      port: 81,
+      database: { host: 'localhost', port: 5432 }
+    });
+  });
+
+  it('does not report variables left out by exclude, and redacts sensitive values', () => {
+    const env = { APP_DEBUG_FLAG: '1', APP_DATABSE_PASSWORD: 'hunter2' };
+    const result = safeObjectify({
+      prefix: 'APP',
+      env,
+      schema,
+      strict: 'error',
+      exclude: ['debug']
+    });
+    expect(result.success).toBe(false);
+    expect(!result.success && (result.error as ObjectEnvyError).issues).toMatchObject([
+      { envKey: 'APP_DATABSE_PASSWORD', rawValue: REDACTED }
+    ]);
+  });
+});
+
+describe('deprecations option', () => {
+  const schema = z.object({
+    database: z.object({ host: z.string(), port: z.number().default(5432) })
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads a deprecated variable into its new path and reports it to onWarning', () => {
+    const warnings: ConfigWarning[] = [];
+    const config = objectify({
+      prefix: 'APP',
+      env: { DB_HOST: 'db.internal', DB_PORT: '6000' },
+      schema,
+      deprecations: { DB_HOST: 'database.host', DB_PORT: 'database.port' },
+      onWarning: (warning) => warnings.push(warning)
+    });
+    expect(config).toEqual({ database: { host: 'db.internal', port: 6000 } });
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Deprecated; use APP_DATABASE_HOST instead',
+      'Deprecated; use APP_DATABASE_PORT instead'
+    ]);
+  });
+
+  it('prefers the replacement variable when both are set', () => {
+    const warnings: ConfigWarning[] = [];
+    const config = objectify({
+      prefix: 'APP',
+      env: { APP_DB_HOST: 'old', APP_DATABASE_HOST: 'new' },
+      schema,
+      strict: 'error',
+      deprecations: { APP_DB_HOST: 'database.host' },
+      onWarning: (warning) => warnings.push(warning)
+    });
+    expect(config).toEqual({ database: { host: 'new', port: 5432 } });
+    expect(warnings).toEqual([
+      {
+        code: 'deprecated_key',
+        envKey: 'APP_DB_HOST',
+        message: 'Deprecated and ignored because APP_DATABASE_HOST is set',
+        replacement: 'APP_DATABASE_HOST'
+      }
+    ]);
+  });
 
-    expect(recoveredEnv).toEqual(originalEnv);
+  it('maps deprecated variables without a schema', () => {
+    const config = objectify({
+      prefix: 'APP',
+      env: { APP_DB_HOST: 'db', APP_PORT: '80' },
+      deprecations: { APP_DB_HOST: 'database.host' },
+      onWarning: () => {}
+    });
+    expect(config).toEqual({ database: { host: 'db' }, port: 80 });
   });
 
-  it('handles empty object', () => {
-    const config = {};
-    const env = envy(config);
-    expect(env).toEqual({});
+  it('gives the replacement variable the same path without a schema', () => {
+    const options = { prefix: 'APP', deprecations: { APP_DB_HOST: 'database.host' } };
+    expect(objectify({ ...options, env: { APP_DATABASE_HOST: 'db', APP_PORT: '80' } })).toEqual({
+      database: { host: 'db' },
+      port: 80
+    });
   });
 
-  it('handles null and undefined values', () => {
-    const config = {
-      port: 3000,
-      // null values should be skipped
-      nullValue: null as any,
-      // undefined values should be skipped
-      undefinedValue: undefined as any,
-      host: 'localhost'
-    };
+  it('rejects an invalid sunset naming the variable', () => {
+    expect(() =>
+      objectify({
+        prefix: 'APP',
+        env: {},
+        deprecations: { DB_HOST: { path: 'database.host', sunset: new Date('invalid') } }
+      })
+    ).toThrow(/DB_HOST.*Invalid sunset date/);
+  });
 
-    const env = envy(config);
-    expect(env).toEqual({
-      PORT: '3000',
-      HOST: 'localhost'
+  it('fails once a deprecated variable is past its sunset', () => {
+    const result = safeObjectify({
+      prefix: 'APP',
+      env: { DB_HOST: 'db', APP_DATABASE_HOST: 'new' },
+      schema,
+      deprecations: { DB_HOST: { path: 'database.host', sunset: '2000-01-01' } }
     });
+    expect(!result.success && (result.error as ObjectEnvyError).issues).toEqual([
+      {
+        path: ['database', 'host'],
+        envKey: 'DB_HOST',
+        rawValue: 'db',
+        expected: undefined,
+        message: 'Removed on 2000-01-01; use APP_DATABASE_HOST instead',
+        code: 'deprecated_key'
+      }
+    ]);
   });
-});
 
-describe('defaultNonNestingPrefixes', () => {
-  it('is exported as a mutable string array', () => {
-    expect(Array.isArray(defaultNonNestingPrefixes)).toBe(true);
-    expect(defaultNonNestingPrefixes).toContain('max');
-    expect(defaultNonNestingPrefixes).toContain('is');
-    expect(defaultNonNestingPrefixes).toContain('has');
-    expect(defaultNonNestingPrefixes).toContain('force');
+  it('emits a process warning when no onWarning is given', () => {
+    const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    objectify({
+      prefix: 'APP',
+      env: { DB_HOST: 'db' },
+      schema,
+      deprecations: { DB_HOST: { path: 'database.host', sunset: '2999-01-01' } }
+    });
+    expect(emitWarning).toHaveBeenCalledWith(
+      'DB_HOST: Deprecated; use APP_DATABASE_HOST instead (stops working on 2999-01-01)',
+      { type: 'ObjectEnvyWarning', code: 'OBJECTENVY_DEPRECATED_KEY' }
+    );
   });
 
-  it('can be spread to extend without mutation', () => {
-    const extended = [...defaultNonNestingPrefixes, 'lsp', 'ws'];
-    const config = objectify({
-      env: { LSP_URL: 'ws://localhost', LSP_TOKEN: 'abc' },
-      nonNestingPrefixes: extended
+  it('records the deprecated variable as the source of its path', () => {
+    const { meta } = objectifyWithMeta({
+      prefix: 'APP',
+      env: { DB_HOST: 'db' },
+      schema,
+      deprecations: { DB_HOST: 'database.host' },
+      onWarning: () => {}
     });
-    expect(config).toEqual({ lspUrl: 'ws://localhost', lspToken: 'abc' });
+    expect(meta['database.host']).toMatchObject({ envKey: 'DB_HOST', rawValue: 'db' });
   });
 });
 
-describe('transform option', () => {
-  it('applies transform after build when no schema', () => {
-    const config = objectify({
-      env: { WS_URL: 'ws://localhost:3001' },
-      transform: (parsed) => ({ ...parsed, derived: 'added' })
-    });
-    expect(config).toEqual({ wsUrl: 'ws://localhost:3001', derived: 'added' });
+describe('conflicts option', () => {
+  const env = { APP_LOG: 'true', APP_LOG_LEVEL: 'debug', APP_LOG_FORMAT: 'json' };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
   });
 
-  it('applies transform after Zod parse', () => {
-    const schema = z.object({ wsUrl: z.string() });
+  it('keeps the fields and warns about the dropped value by default', () => {
+    const warnings: ConfigWarning[] = [];
     const config = objectify({
-      env: { WS_URL: 'ws://localhost' },
-      schema,
-      transform: (parsed) => ({ ...parsed, sessionUrl: 'http://localhost/session' })
+      prefix: 'APP',
+      env: { APP_LOG_LEVEL: 'debug', APP_LOG: 'true' },
+      onWarning: (warning) => warnings.push(warning)
     });
-    expect(config).toEqual({ wsUrl: 'ws://localhost', sessionUrl: 'http://localhost/session' });
+    expect(config).toEqual({ log: { level: 'debug' } });
+    expect(warnings).toEqual([
+      {
+        code: 'conflicting_key',
+        envKey: 'APP_LOG',
+        message: 'Ignored because APP_LOG_LEVEL sets log.level below it'
+      }
+    ]);
   });
 
-  it('transform receives coerced values', () => {
-    const config = objectify({
-      env: { ENABLE_LSP: 'true', PORT: '3000' },
-      transform: (parsed) => {
-        expect(typeof parsed['enableLsp']).toBe('boolean');
-        expect(typeof parsed['port']).toBe('number');
-        return parsed;
+  it('emits a process warning when onWarning is not set', () => {
+    const emit = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    objectify({ prefix: 'APP', env });
+    expect(emit).toHaveBeenCalledWith(
+      'APP_LOG: Ignored because APP_LOG_LEVEL sets log.level below it',
+      {
+        type: 'ObjectEnvyWarning',
+        code: 'OBJECTENVY_CONFLICTING_KEY'
+      }
+    );
+  });
+
+  it('fails naming both variables with error', () => {
+    const result = safeObjectify({ prefix: 'APP', env, conflicts: 'error' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['log'],
+        envKey: 'APP_LOG',
+        rawValue: 'true',
+        expected: undefined,
+        message: 'Sets log to a value, but APP_LOG_LEVEL sets log.level below it',
+        code: 'conflicting_key'
+      },
+      {
+        path: ['log'],
+        envKey: 'APP_LOG',
+        rawValue: 'true',
+        expected: undefined,
+        message: 'Sets log to a value, but APP_LOG_FORMAT sets log.format below it',
+        code: 'conflicting_key'
       }
+    ]);
+  });
+
+  it('resolves silently with an explicit policy', () => {
+    const emit = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    expect(objectify({ prefix: 'APP', env, conflicts: 'leaf-wins' })).toEqual({ log: true });
+    expect(objectify({ prefix: 'APP', env, conflicts: 'branch-wins' })).toEqual({
+      log: { level: 'debug', format: 'json' }
     });
-    expect(config['enableLsp']).toBe(true);
+    expect(emit).not.toHaveBeenCalled();
   });
 
-  it('identity transform returns same data', () => {
-    const base = objectify({ env: { PORT: '3000' } });
-    const withTransform = objectify({ env: { PORT: '3000' }, transform: (p) => p });
-    expect(withTransform).toEqual(base);
+  it('keeps both under value-key, and envy() writes them back', () => {
+    const config = objectify({ prefix: 'APP', env, conflicts: 'value-key' });
+    expect(config).toEqual({ log: { _value: true, level: 'debug', format: 'json' } });
+    expect(envy(config, { prefix: 'APP' })).toEqual(env);
   });
 
-  it('infers TOut return type when transform adds a field not in schema', () => {
-    const schema = z.object({ wsUrl: z.string() });
-    const config = objectify({
-      env: { WS_URL: 'ws://localhost' },
+  it('applies with a schema', () => {
+    const schema = z.object({ log: z.object({ level: z.string() }) });
+    expect(
+      objectify({
+        prefix: 'APP',
+        env: { APP_LOG: 'x', APP_LOG_LEVEL: 'debug' },
+        schema,
+        conflicts: 'branch-wins'
+      })
+    ).toEqual({ log: { level: 'debug' } });
+    const result = safeObjectify({
+      prefix: 'APP',
+      env: { APP_LOG: 'x', APP_LOG_LEVEL: 'debug' },
       schema,
-      transform: (parsed) => ({ ...parsed, sessionUrl: parsed.wsUrl.replace('ws://', 'http://') })
+      conflicts: 'error'
     });
-    expectTypeOf(config).toHaveProperty('sessionUrl');
-    expect(config.sessionUrl).toBe('http://localhost');
+    expect(result.error?.issues.map((issue) => issue.code)).toEqual(['conflicting_key']);
   });
 
-  it('infers TOut return type when transform adds a field with no schema', () => {
-    const config = objectify({
-      env: { WS_URL: 'ws://localhost:3001' },
-      transform: (parsed) => ({ ...parsed, sessionUrl: String(parsed['wsUrl']).replace('ws://', 'http://') })
-    });
-    expectTypeOf(config).toHaveProperty('sessionUrl');
-    expect(config.sessionUrl).toBe('http://localhost:3001');
+  it('records where the moved value came from', () => {
+    const { meta } = objectifyWithMeta({ prefix: 'APP', env, conflicts: 'value-key' });
+    expect(meta['log._value']).toMatchObject({ envKey: 'APP_LOG', rawValue: 'true' });
   });
 });
 
-describe('defaults factory option', () => {
-  it('fills in missing keys', () => {
-    const config = objectify({
-      env: {},
-      defaults: () => ({ WS_URL: 'ws://default:3001' })
+describe('sensitive values', () => {
+  const env = {
+    APP_PORT: '3000',
+    APP_DATABASE_HOST: 'db',
+    APP_DATABASE_PASSWORD: 'hunter2',
+    APP_SIGNING_KEY: 'k3y'
+  };
+
+  it('redacts objectify results by the name heuristic', () => {
+    const config = objectify({ env, prefix: 'APP' });
+    expect(config['database']).toEqual({ host: 'db', password: 'hunter2' });
+    expect(redact(config)).toEqual({
+      port: 3000,
+      database: { host: 'db', password: REDACTED },
+      signingKey: 'k3y'
     });
-    expect(config).toEqual({ wsUrl: 'ws://default:3001' });
   });
 
-  it('actual env values override defaults', () => {
+  it('redacts paths listed in the sensitive option', () => {
     const config = objectify({
-      env: { WS_URL: 'ws://override:9000' },
-      defaults: () => ({ WS_URL: 'ws://default:3001' })
+      env,
+      prefix: 'APP',
+      sensitive: [...defaultSensitivePatterns, 'signingKey']
+    });
+    expect(redact(config)).toMatchObject({
+      database: { password: REDACTED },
+      signingKey: REDACTED
     });
-    expect(config).toEqual({ wsUrl: 'ws://override:9000' });
   });
 
-  it('undefined env values fall back to defaults', () => {
-    const config = objectify({
-      env: { WS_URL: undefined },
-      defaults: () => ({ WS_URL: 'ws://default:3001' })
+  it('disables the heuristic with an empty sensitive list', () => {
+    const config = objectify({ env, prefix: 'APP', sensitive: [] });
+    expect(redact(config)).toEqual(config);
+  });
+
+  it('redacts schema fields tagged with meta or describe', () => {
+    const schema = z.object({
+      port: z.number(),
+      database: z.object({ host: z.string().meta({ sensitive: true }), password: z.string() }),
+      signingKey: z.string().describe('sensitive').optional()
+    });
+    const config = objectify({ env, prefix: 'APP', schema });
+    expect(redact(config)).toEqual({
+      port: 3000,
+      database: { host: REDACTED, password: REDACTED },
+      signingKey: REDACTED
     });
-    expect(config).toEqual({ wsUrl: 'ws://default:3001' });
   });
 
-  it('defaults factory receives raw env', () => {
-    let receivedEnv: EnvLike | null = null;
-    objectify({
-      env: { APP_MODE: 'production' },
-      defaults: (raw) => {
-        receivedEnv = raw;
-        return {};
-      }
+  it('redacts nested parts of a config', () => {
+    const schema = z.object({ database: z.object({ host: z.string().describe('sensitive') }) });
+    const config = objectify({ env: { DATABASE_HOST: 'db' }, schema });
+    expect(redact(config.database)).toEqual({ host: REDACTED });
+  });
+
+  it('carries sensitive paths over to envy output', () => {
+    const schema = z.object({ signingKey: z.string().describe('sensitive'), port: z.number() });
+    const config = objectify({ env, prefix: 'APP', schema });
+    expect(redact(envy(config))).toEqual({ SIGNING_KEY: REDACTED, PORT: '3000' });
+  });
+
+  it('masks JSON and inspect output when redact is set', () => {
+    const config = objectify({ env, prefix: 'APP', redact: true });
+    expect(config['database']).toEqual({ host: 'db', password: 'hunter2' });
+    expect(JSON.parse(JSON.stringify(config))).toEqual({
+      port: 3000,
+      database: { host: 'db', password: REDACTED },
+      signingKey: 'k3y'
     });
-    expect(receivedEnv).toEqual({ APP_MODE: 'production' });
+    expect(JSON.stringify(config['database'])).not.toContain('hunter2');
+    expect(inspect(config, { depth: 5 })).not.toContain('hunter2');
+    expect(Object.keys(config)).toEqual(['port', 'database', 'signingKey']);
   });
 
-  it('defaults work with Zod schema', () => {
-    const schema = z.object({ port: z.number() });
+  it('writes bigints as strings in the JSON hook', () => {
+    const schema = z.object({ maxId: z.bigint(), database: z.object({ password: z.string() }) });
     const config = objectify({
-      env: {},
+      env: { MAX_ID: '9007199254740993', DATABASE_PASSWORD: 'hunter2' },
       schema,
-      defaults: () => ({ PORT: '4000' })
+      redact: true
     });
-    expect(config).toEqual({ port: 4000 });
+    expect(config.maxId).toBe(9_007_199_254_740_993n);
+    expect(JSON.stringify(config)).toBe(
+      `{"maxId":"9007199254740993","database":{"password":"${REDACTED}"}}`
+    );
+  });
+
+  it('keeps sensitive raw values out of validation errors', () => {
+    const schema = z.object({ database: z.object({ password: z.string().min(10) }) });
+    const error = (() => {
+      try {
+        objectify({ env, prefix: 'APP', schema });
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(ObjectEnvyError);
+    const { issues, message } = error as ObjectEnvyError;
+    expect(issues[0]).toMatchObject({ envKey: 'APP_DATABASE_PASSWORD', rawValue: REDACTED });
+    expect(message).not.toContain('hunter2');
+  });
+
+  it('masks sensitive raw values in objectifyWithMeta', () => {
+    const { config, meta } = objectifyWithMeta({ env, prefix: 'APP' });
+    expect(config['database']).toEqual({ host: 'db', password: 'hunter2' });
+    expect(meta['database.password']).toMatchObject({ rawValue: REDACTED, sensitive: true });
+    expect(meta['database.host']).toMatchObject({ rawValue: 'db', sensitive: false });
   });
 });
 
@@ -1440,6 +3907,104 @@ describe('empty string treated as absent when coerce: true', () => {
   });
 });
 
+describe('empty option', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-empty-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps empty values as empty strings or nulls', () => {
+    const env = { PROXY: '', PORT: '3000' };
+    expect(objectify({ env, empty: 'empty-string' })).toEqual({ proxy: '', port: 3000 });
+    expect(objectify({ env, empty: 'null' })).toEqual({ proxy: null, port: 3000 });
+    expect(objectify({ env, empty: 'absent' })).toEqual({ port: 3000 });
+  });
+
+  it('stops defaults and env files from filling in a kept empty value', () => {
+    writeFileSync(join(dir, '.env'), 'PROXY=http://file\nHOST=file');
+    const options = {
+      env: { PROXY: '', HOST: '' },
+      files: ['.env'],
+      cwd: dir,
+      defaults: () => ({ PROXY: 'http://default', HOST: 'default' })
+    };
+    expect(objectify({ ...options, empty: { proxy: 'null' } })).toEqual({
+      proxy: null,
+      host: 'file'
+    });
+    expect(objectify(options)).toEqual({ proxy: 'http://file', host: 'file' });
+  });
+
+  it('lets an empty value in a later env file clear an earlier one', () => {
+    writeFileSync(join(dir, '.env'), 'PROXY=http://proxy');
+    writeFileSync(join(dir, '.env.local'), 'PROXY=');
+    const config = objectify({
+      env: {},
+      files: ['.env', '.env.local'],
+      cwd: dir,
+      empty: 'empty-string'
+    });
+    expect(config).toEqual({ proxy: '' });
+  });
+
+  it('chooses per path with patterns', () => {
+    const config = objectify({
+      prefix: 'APP',
+      env: { APP_LOG_PREFIX: '', APP_LOG_LEVEL: '', APP_PROXY: '' },
+      empty: { 'log.prefix': 'empty-string', proxy: 'null' }
+    });
+    expect(config).toEqual({ log: { prefix: '' }, proxy: null });
+  });
+
+  it('gives nullable schema fields null by default', () => {
+    const schema = z.object({
+      proxy: z.string().nullable(),
+      fallback: z.union([z.url(), z.null()]).default('http://fallback'),
+      name: z.string().default('app')
+    });
+    expect(
+      objectify({
+        env: { PROXY: '', FALLBACK: '', NAME: '' },
+        schema,
+        defaults: () => ({ PROXY: 'http://default' })
+      })
+    ).toEqual({ proxy: null, fallback: null, name: 'app' });
+    expect(
+      objectify({ env: { PROXY: 'http://proxy', FALLBACK: '' }, schema, empty: 'absent' })
+    ).toEqual({ proxy: 'http://proxy', fallback: 'http://fallback', name: 'app' });
+  });
+
+  it('reports a null the schema rejects against its variable', () => {
+    const schema = z.object({ port: z.number() });
+    const result = safeObjectify({ env: { PORT: '' }, schema, empty: 'null' });
+    expect(result.error?.issues[0]).toMatchObject({ envKey: 'PORT', rawValue: '' });
+  });
+
+  it('keeps a deprecated variable set empty when the policy does', () => {
+    const config = objectify({
+      env: { OLD_PROXY: '' },
+      deprecations: { OLD_PROXY: 'proxy' },
+      empty: 'null',
+      onWarning: () => {}
+    });
+    expect(config).toEqual({ proxy: null });
+  });
+
+  it('has no effect when coerce is false', () => {
+    expect(objectify({ env: { PROXY: '' }, coerce: false, empty: 'null' })).toEqual({ proxy: '' });
+  });
+
+  it('types the result from a const env', () => {
+    const config = objectify({ env: { PROXY: '' } as const, empty: 'null' });
+    expectTypeOf(config).toEqualTypeOf<{ proxy: null }>();
+  });
+});
+
 describe('safeObjectify', () => {
   it('returns success with data on valid input', () => {
     const result = safeObjectify({ env: { PORT: '3000' } });
@@ -1454,7 +4019,7 @@ describe('safeObjectify', () => {
     const result = safeObjectify({ env: { PORT: 'not-a-number' }, schema });
     expect(result.success).toBe(false);
     if (!result.success) {
-      expect(result.error).toBeDefined();
+      expect(result.error).toBeInstanceOf(ObjectEnvyError);
     }
   });
 
@@ -1476,3 +4041,224 @@ describe('safeObjectify', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('objectifyAsync', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-async-'));
+    writeFileSync(join(dir, 'db_password'), 'hunter2\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves _FILE variables, file: references and custom schemes before coercion', async () => {
+    const schema = z.object({
+      db: z.object({ password: z.string(), port: z.number() }),
+      apiToken: z.string(),
+      retries: z.number()
+    });
+    const config = await objectifyAsync({
+      env: {
+        APP_DB_PASSWORD_FILE: 'db_password',
+        APP_DB_PORT: 'vault:db/port',
+        APP_API_TOKEN: 'secret://api/token',
+        APP_RETRIES: '3'
+      },
+      prefix: 'APP',
+      cwd: dir,
+      schema,
+      resolvers: {
+        vault: async () => '5432',
+        secret: async (ref) => `token-for-${ref.slice('secret://'.length)}`
+      }
+    });
+    expect(config).toEqual({
+      db: { password: 'hunter2', port: 5432 },
+      apiToken: 'token-for-api/token',
+      retries: 3
+    });
+    expectTypeOf(config).toEqualTypeOf<z.infer<typeof schema>>();
+  });
+
+  it('marks resolved values sensitive', async () => {
+    const config = await objectifyAsync({
+      env: { SESSION_ID: `file:${join(dir, 'db_password')}`, PORT: '80' },
+      secretFiles: ['sessionId'],
+      redact: true
+    });
+    expect(JSON.stringify(config)).toBe(`{"sessionId":"${REDACTED}","port":80}`);
+    expect(config['sessionId']).toBe('hunter2');
+  });
+
+  it('masks resolved values in validation errors', async () => {
+    const schema = z.object({ pin: z.number() });
+    const error = await objectifyAsync({
+      env: { PIN: 'secret://pin' },
+      schema,
+      resolvers: { secret: async () => 'not-a-number' }
+    }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ObjectEnvyError);
+    expect((error as ObjectEnvyError).issues[0]?.rawValue).toBe(REDACTED);
+  });
+
+  it('expands ${VAR} references after resolving secrets', async () => {
+    const config = await objectifyAsync({
+      env: {
+        DB_PASSWORD_FILE: join(dir, 'db_password'),
+        DATABASE_URL: 'postgres://app:${DB_PASSWORD}@db/app'
+      },
+      secretFiles: ['dbPassword'],
+      expand: true
+    });
+    expect(config).toEqual({
+      dbPassword: 'hunter2',
+      databaseUrl: 'postgres://app:hunter2@db/app'
+    });
+  });
+
+  it('rejects with SecretResolutionError for unreadable references', async () => {
+    await expect(
+      objectifyAsync({ env: { KEY_FILE: join(dir, 'missing') }, secretFiles: ['key'] })
+    ).rejects.toBeInstanceOf(SecretResolutionError);
+  });
+
+  it('keeps _FILE variables the schema declares or does not expect', async () => {
+    const logFile = join(dir, 'app.log');
+    writeFileSync(logFile, 'line1\nline2');
+    const env = { APP_LOG_FILE: logFile };
+    const declared = z.object({ logFile: z.string() });
+    expect(await objectifyAsync({ env, prefix: 'APP', schema: declared })).toEqual({ logFile });
+    const unexpected = z.object({ port: z.number().optional() });
+    expect(await objectifyAsync({ env, prefix: 'APP', schema: unexpected })).toEqual({});
+    expect(await objectifyAsync({ env, prefix: 'APP' })).toEqual({ logFile });
+    expect(
+      await objectifyAsync({ env, prefix: 'APP', keyMap: { APP_LOG: 'log.contents' } })
+    ).toEqual({ log: { contents: 'line1\nline2' } });
+  });
+
+  it('reads both forms for sensitive fields the schema declares', async () => {
+    const schema = z.object({ db: z.object({ password: z.string(), url: z.string() }) });
+    const options = { prefix: 'APP', cwd: dir, schema };
+    expect(
+      await objectifyAsync({
+        env: { APP_DB_PASSWORD_FILE: 'db_password', APP_DB_URL: 'file:./dev.db' },
+        ...options
+      })
+    ).toEqual({ db: { password: 'hunter2', url: 'file:./dev.db' } });
+    expect(
+      await objectifyAsync({
+        env: { APP_DB_PASSWORD: 'file:db_password', APP_DB_URL: 'file:./dev.db' },
+        ...options
+      })
+    ).toEqual({ db: { password: 'hunter2', url: 'file:./dev.db' } });
+  });
+
+  it('awaits async refinements in the schema', async () => {
+    const schema = z.object({
+      port: z.number().refine(async (port) => port !== 81, 'Port in use')
+    });
+    expect(await objectifyAsync({ env: { PORT: '80' }, schema })).toEqual({ port: 80 });
+    const error = await objectifyAsync({ env: { PORT: '81' }, schema }).catch(
+      (caught: unknown) => caught
+    );
+    expect((error as ObjectEnvyError).issues[0]).toMatchObject({
+      envKey: 'PORT',
+      message: 'Port in use'
+    });
+  });
+
+  it('reads no files without a schema, keyMap or secretFiles', async () => {
+    const env = { APP_DB_PASSWORD_FILE: 'db_password', APP_API_TOKEN: 'file:db_password' };
+    expect(await objectifyAsync({ env, prefix: 'APP', cwd: dir })).toEqual({
+      dbPasswordFile: 'db_password',
+      apiToken: 'file:db_password'
+    });
+  });
+
+  it('leaves file: values alone unless secretFiles lists the variable', async () => {
+    const env = { APP_DB_URL: 'file:./dev.db', APP_TLS_KEY: 'file:db_password' };
+    expect(await objectifyAsync({ env, prefix: 'APP', cwd: dir })).toEqual({
+      dbUrl: 'file:./dev.db',
+      tlsKey: 'file:db_password'
+    });
+    expect(
+      await objectifyAsync({ env, prefix: 'APP', cwd: dir, secretFiles: ['tls.key'] })
+    ).toEqual({ dbUrl: 'file:./dev.db', tlsKey: 'hunter2' });
+  });
+});
+
+describe('coercion option', () => {
+  it('reads custom boolean words with and without a schema', () => {
+    const coercion = { truthy: ['enabled'], falsy: ['disabled'] };
+    const env = { FEATURE: 'enabled', DEBUG: 'disabled' };
+    expect(objectify({ env, coercion })).toEqual({ feature: true, debug: false });
+    const schema = z.object({ feature: z.boolean(), debug: z.boolean() });
+    expect(objectify({ env, schema, coercion })).toEqual({ feature: true, debug: false });
+    expect(() => objectify({ env: { FEATURE: 'on', DEBUG: 'off' }, schema, coercion })).toThrow(
+      ObjectEnvyError
+    );
+  });
+
+  it('reads hex and octal numbers for schema number fields', () => {
+    const schema = z.object({ mask: z.number(), mode: z.number() });
+    const env = { MASK: '0x1F', MODE: '0o755' };
+    expect(() => objectify({ env, schema })).toThrow(ObjectEnvyError);
+    expect(objectify({ env, schema, coercion: { hex: true, octal: true } })).toEqual({
+      mask: 31,
+      mode: 493
+    });
+  });
+
+  it('reads exponents and keeps leading zeros without a schema', () => {
+    const env = { TIMEOUT: '1e3', ZIP: '01234' };
+    expect(objectify({ env })).toEqual({ timeout: '1e3', zip: 1234 });
+    expect(objectify({ env, coercion: { exponent: true, preserveLeadingZeros: true } })).toEqual({
+      timeout: 1000,
+      zip: '01234'
+    });
+  });
+
+  it('splits only schema arrays under split: schema', () => {
+    const env = { GREETING: 'hello, world', HOSTS: 'a,b' };
+    expect(objectify({ env, coercion: { split: 'schema' } })).toEqual({
+      greeting: 'hello, world',
+      hosts: 'a,b'
+    });
+    const schema = z.object({ greeting: z.string(), hosts: z.array(z.string()) });
+    expect(objectify({ env, schema, coercion: { split: 'schema' } })).toEqual({
+      greeting: 'hello, world',
+      hosts: ['a', 'b']
+    });
+  });
+
+  it('splits matching paths under split patterns', () => {
+    const env = { GREETING: 'hello, world', ALLOWED_HOSTS: 'a,b' };
+    expect(objectify({ env, coercion: { split: ['ALLOWED_HOSTS'] } })).toEqual({
+      greeting: 'hello, world',
+      allowedHosts: ['a', 'b']
+    });
+  });
+
+  it('splits on a custom separator and joins with it in envy', () => {
+    const coercion = { separator: ';' };
+    const schema = z.object({ hosts: z.array(z.string()), ports: z.array(z.number()) });
+    const env = { HOSTS: 'a,1;b', PORTS: '80;443' };
+    expect(objectify({ env, schema, coercion })).toEqual({
+      hosts: ['a,1', 'b'],
+      ports: [80, 443]
+    });
+    expect(objectify({ env: { TAGS: 'x|z' }, coercion: { separator: '|' } })).toEqual({
+      tags: ['x', 'z']
+    });
+    expect(envy({ hosts: ['a', 'b'] }, { coercion })).toEqual({ HOSTS: 'a;b' });
+  });
+
+  it('caches configs per coercion policy', () => {
+    const { objectify: loadConfig } = objectEnvy({ env: { FLAG: 'enabled' } });
+    expect(loadConfig()).toEqual({ flag: 'enabled' });
+    expect(loadConfig({ coercion: { truthy: ['enabled'] } })).toEqual({ flag: true });
+  });
+});
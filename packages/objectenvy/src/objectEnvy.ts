@@ -1,13 +1,65 @@
 import type { z, ZodObject } from 'zod';
 import type {
+  AsyncObjectEnvyOptions,
+  CoercionPolicy,
+  ConfigEvent,
+  ConfigMeta,
+  ConfigWarning,
+  ConfigPathMeta,
+  ConflictPolicy,
+  EmptyValue,
   EnvLike,
+  EnvyOptions,
   ObjectEnvyOptions,
+  EnviableArray,
   EnviableObject,
+  EnviablePrimitive,
   EnviableValue,
-  MergeOptions
+  ConfigWatcher,
+  MergeOptions,
+  WatchOptions
 } from './types.js';
-import { coerceValue, setNestedValue, toSnakeCase } from './utils.js';
-import type { ToEnv, FromEnv } from './typeUtils.js';
+import {
+  coerceValue,
+  getNestedValue,
+  isPlainObject,
+  parseBoolean,
+  parsePrefixedInteger,
+  pathPatternMatcher,
+  setNestedValue,
+  toSnakeCase
+} from './utils.js';
+import { loadEnvFiles, resolveEnvFiles } from './dotenv.js';
+import { expandEnv } from './interpolate.js';
+import { resolveSecretReferences } from './resolvers.js';
+import { diffConfig, watchFiles } from './watch.js';
+import { envFingerprint } from './cache.js';
+import { closestMatch } from './suggest.js';
+import { createPathTrie } from './pathTrie.js';
+import type { PathTrie } from './pathTrie.js';
+import { parseConfigPath, resolveDeprecations } from './deprecations.js';
+import { VALUE_KEY, resolveConflicts } from './conflicts.js';
+import type { ConfigWrite, KeyConflict } from './conflicts.js';
+import { ObjectEnvyError, issuesFromStandardSchema, issuesFromZodError } from './errors.js';
+import type { IssueSource, ObjectEnvyIssue } from './errors.js';
+import {
+  REDACTED,
+  isSensitiveSchema,
+  markSensitive,
+  protectSensitive,
+  sensitivePatternMatcher,
+  sensitivePredicateFor
+} from './redact.js';
+import type { SensitivePredicate } from './redact.js';
+import { builtinCoercers, createCoercerRegistry, schemaCoercerName } from './coercers.js';
+import type { CoercerRegistry, NamedCoercer } from './coercers.js';
+import { describeSchema } from './schemaAdapters.js';
+import { describeJsonSchema, isJsonSchema, validateJsonSchema } from './jsonSchema.js';
+import type { SchemaAdapter } from './schemaAdapters.js';
+import { isStandardSchema, validateStandardSchema } from './standardSchema.js';
+import type { StandardSchemaV1 } from './standardSchema.js';
+import type { JsonSchema } from './jsonSchema.js';
+import type { ToEnv, FromEnv, WithPrefix } from './typeUtils.js';
 import type { Merge } from 'type-fest';
 
 /**
@@ -57,14 +109,48 @@ function mergeArrays(
 }
 
 interface ParsedEntry {
+  envKey: string;
   key: string;
   segments: string[];
   value: string;
+  path?: Array<string | number>; // fixed config path of a mapped variable
+}
+
+/**
+ * The env variable behind a config path, recorded while building so validation issues and
+ * provenance metadata can name it.
+ */
+interface PathSource extends IssueSource {
+  rawValue: string;
+  coerced: boolean;
+}
+
+/**
+ * The value type a schema field expects, which decides how its raw string is converted. `json`
+ * covers objects, records and tuples.
+ */
+interface LeafType {
+  kind: 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'json' | 'array';
+  element?: LeafType; // for arrays, when the element type is known
+  value?: LeafType; // for records, when the value type is known
 }
 
 interface SchemaPath {
   path: string[];
   pathKey: string; // joined path for lookup, e.g., "log.level"
+  sensitive: boolean; // tagged sensitive on the field or an ancestor
+  items?: SchemaPath[]; // element paths (relative) when the leaf is an array
+  entries?: SchemaPath[]; // value paths (relative) when the leaf is a record
+  type?: LeafType; // how the raw value is converted, when the schema says
+  branch?: boolean; // object with its own fields, matched whole only for JSON values
+  coercer?: string; // coercer named by a schema tag
+  nullable?: boolean; // accepts null, which an empty value then reads as
+}
+
+/** A prefixed env key that matched no schema path, and the flat path it was stored at */
+interface UnmatchedKey {
+  envKey: string;
+  path: Array<string | number>;
 }
 
 /**
@@ -93,14 +179,22 @@ function shouldIncludeField(
 }
 
 /**
- * Strip prefix from key and return normalized key, or null if prefix doesn't match
+ * Strip prefix from key and return normalized key, or null if prefix doesn't match. With a nesting
+ * delimiter the prefix may be followed by either one: `APP__LOG__LEVEL`, `APP_LOG__LEVEL`.
  */
-function stripPrefix(key: string, prefix?: string, delimiter = '_'): string | null {
+function stripPrefix(
+  key: string,
+  prefix?: string,
+  delimiter = '_',
+  nestingDelimiter?: string
+): string | null {
   if (!prefix) return key;
 
-  const prefixWithDelimiter = prefix.endsWith(delimiter) ? prefix : `${prefix}${delimiter}`;
-  if (key.startsWith(prefixWithDelimiter)) {
-    return key.slice(prefixWithDelimiter.length);
+  for (const separator of nestingDelimiter ? [nestingDelimiter, delimiter] : [delimiter]) {
+    const prefixWithDelimiter = prefix.endsWith(separator) ? prefix : `${prefix}${separator}`;
+    if (key.startsWith(prefixWithDelimiter)) {
+      return key.slice(prefixWithDelimiter.length);
+    }
   }
   return null;
 }
@@ -140,6 +234,17 @@ function segmentToCamelCase(segment: string): string {
     .join('');
 }
 
+/**
+ * Path for a key split on a nesting delimiter: each segment is one level, camelCased, and numeric
+ * segments after the first are array indices when `indexed` is set —
+ * `DATABASE__MAX_POOL_SIZE` → `database.maxPoolSize`
+ */
+function structuralPath(segments: string[], indexed: boolean): Array<string | number> {
+  return segments.map((segment, index) =>
+    indexed && index > 0 && isIndexSegment(segment) ? Number(segment) : segmentToCamelCase(segment)
+  );
+}
+
 /**
  * Convert all segments to a single flat camelCase key
  */
@@ -161,11 +266,104 @@ function segmentsToFlatCamelCase(segments: string[], delimiter = '_'): string {
     .join('');
 }
 
+/**
+ * The `_def` of a Zod schema (v3 or v4), or undefined for anything else
+ */
+function zodDef(schema: unknown): Record<string, unknown> | undefined {
+  if (!schema || typeof schema !== 'object' || !('_def' in schema)) return undefined;
+  return (schema as { _def: Record<string, unknown> })._def;
+}
+
+/**
+ * The schema to read paths from: Zod and plain-object schemas as they are, JSON Schemas and other
+ * Standard Schemas as described for path extraction (undefined when no adapter reads them)
+ */
+function pathSchema(schema: unknown, adapters?: readonly SchemaAdapter[]): unknown {
+  if (isJsonSchema(schema)) return describeJsonSchema(schema);
+  return zodDef(schema) || !isStandardSchema(schema) ? schema : describeSchema(schema, adapters);
+}
+
+/**
+ * Zod type name: v4 keeps it in `type` (`'object'`), v3 in `typeName` (`'ZodObject'`, with `type`
+ * holding an array's element)
+ */
+function zodType(def: Record<string, unknown>): unknown {
+  return typeof def['type'] === 'string' ? def['type'] : def['typeName'];
+}
+
+/**
+ * The schema a Zod wrapper stands for: the inner type of optional/default/nullable/readonly/catch,
+ * the input side of a pipe or transform, the target of a lazy or branded schema. Undefined for
+ * anything else.
+ */
+function wrappedSchema(schema: unknown): unknown {
+  const def = zodDef(schema);
+  if (!def) return undefined;
+  switch (zodType(def)) {
+    case 'pipe':
+    case 'ZodPipeline':
+      return def['in'];
+    case 'ZodEffects':
+      return def['schema'];
+    case 'ZodBranded':
+      return def['type'];
+    case 'lazy':
+    case 'ZodLazy':
+      return (def['getter'] as () => unknown)();
+  }
+  return def['innerType'];
+}
+
+/**
+ * Combine the paths of union (or intersection) members. A path several members share is sensitive
+ * if any member tags it, and keeps a value type only when the members agree on it.
+ */
+function mergeSchemaPaths(lists: SchemaPath[][]): SchemaPath[] {
+  const merged = new Map<string, SchemaPath>();
+  for (const sp of lists.flat()) {
+    const existing = merged.get(sp.pathKey);
+    if (!existing) {
+      merged.set(sp.pathKey, sp);
+      continue;
+    }
+    const combined: SchemaPath = {
+      path: sp.path,
+      pathKey: sp.pathKey,
+      sensitive: existing.sensitive || sp.sensitive
+    };
+    if (existing.type && existing.type.kind === sp.type?.kind) combined.type = existing.type;
+    // A leaf in any member makes the path a leaf
+    if (existing.branch && sp.branch) combined.branch = true;
+    const coercer = existing.coercer ?? sp.coercer;
+    if (coercer !== undefined) combined.coercer = coercer;
+    if (existing.nullable || sp.nullable) combined.nullable = true;
+    if (existing.items || sp.items) {
+      combined.items = mergeSchemaPaths([existing.items ?? [], sp.items ?? []]);
+    }
+    if (existing.entries || sp.entries) {
+      combined.entries = mergeSchemaPaths([existing.entries ?? [], sp.entries ?? []]);
+    }
+    merged.set(sp.pathKey, combined);
+  }
+  return [...merged.values()];
+}
+
+/** How many times a recursive lazy schema is expanded along one path */
+const MAX_LAZY_DEPTH = 3;
+
 /**
  * Extract all leaf paths from a Zod schema or plain object schema
- * Supports both Zod v3 (typeName) and Zod v4 (type) structures, as well as plain objects
+ * Supports both Zod v3 (typeName) and Zod v4 (type) structures, as well as plain objects.
+ * Unions, discriminated unions and intersections contribute the paths of every member; pipes,
+ * transforms, lazy schemas and other wrappers are looked through. Records and arrays are leaves
+ * that also describe their values (`entries`) and elements (`items`).
  */
-function extractSchemaPaths(schema: unknown, currentPath: string[] = []): SchemaPath[] {
+function extractSchemaPaths(
+  schema: unknown,
+  currentPath: string[] = [],
+  sensitive = false,
+  seen = new Map<unknown, number>() // how often each lazy schema is being expanded
+): SchemaPath[] {
   const paths: SchemaPath[] = [];
 
   if (!schema || typeof schema !== 'object') {
@@ -173,13 +371,11 @@ function extractSchemaPaths(schema: unknown, currentPath: string[] = []): Schema
   }
 
   // Handle Zod schemas (both v3 and v4)
-  if ('_def' in schema) {
-    const def = (schema as { _def: Record<string, unknown> })._def;
+  const def = zodDef(schema);
+  if (def) {
+    const type = zodType(def);
 
-    // Check for object type (Zod v4 uses 'type', Zod v3 uses 'typeName')
-    const isObject = def['type'] === 'object' || def['typeName'] === 'ZodObject';
-
-    if (isObject) {
+    if (type === 'object' || type === 'ZodObject') {
       // Get shape - v4 stores it directly, v3 might have it as a function
       let shape: Record<string, unknown> | undefined;
       if (typeof def['shape'] === 'function') {
@@ -191,33 +387,75 @@ function extractSchemaPaths(schema: unknown, currentPath: string[] = []): Schema
       if (shape) {
         for (const [key, value] of Object.entries(shape)) {
           const newPath = [...currentPath, key];
-          const nestedPaths = extractSchemaPaths(value, newPath);
+          const tagged = sensitive || isSensitiveSchema(value);
+          const nestedPaths = extractSchemaPaths(value, newPath, tagged, seen);
           if (nestedPaths.length === 0) {
-            // Leaf node
-            paths.push({ path: newPath, pathKey: newPath.join('.') });
+            // Leaf node; arrays and records also describe their elements for indexed keys
+            // (SERVERS_0_HOST) and record keys (DATABASES_PRIMARY_HOST)
+            const element = arrayElementSchema(value);
+            const recordValue = recordValueSchema(value);
+            const coercer = schemaCoercerName(value);
+            const leaf = leafType(value);
+            paths.push({
+              path: newPath,
+              pathKey: newPath.join('.'),
+              sensitive: tagged,
+              ...(element !== undefined && {
+                items: extractSchemaPaths(element, [], tagged, seen)
+              }),
+              ...(recordValue !== undefined && {
+                entries: extractSchemaPaths(recordValue, [], tagged, seen)
+              }),
+              ...(leaf !== undefined && { type: leaf }),
+              ...(coercer !== undefined && { coercer }),
+              ...(acceptsNull(value) && { nullable: true })
+            });
           } else {
-            paths.push(...nestedPaths);
+            // The object itself can be set at once from a JSON value (FEATURE_FLAGS={"a":true})
+            paths.push(
+              {
+                path: newPath,
+                pathKey: newPath.join('.'),
+                sensitive: tagged,
+                type: { kind: 'json' },
+                branch: true
+              },
+              ...nestedPaths
+            );
           }
         }
         return paths;
       }
     }
 
-    // Handle wrapper types (ZodOptional, ZodDefault, ZodNullable)
-    const typeName = def['typeName'] as string | undefined;
-    const type = def['type'] as string | undefined;
-
+    // Unions (including discriminated unions) and intersections: every member's paths
     if (
-      typeName === 'ZodOptional' ||
-      typeName === 'ZodDefault' ||
-      typeName === 'ZodNullable' ||
-      type === 'optional' ||
-      type === 'default' ||
-      type === 'nullable'
+      type === 'union' ||
+      type === 'ZodUnion' ||
+      type === 'ZodDiscriminatedUnion' ||
+      type === 'intersection' ||
+      type === 'ZodIntersection'
     ) {
-      if ('innerType' in def) {
-        return extractSchemaPaths(def['innerType'], currentPath);
-      }
+      const members = Array.isArray(def['options'])
+        ? (def['options'] as unknown[])
+        : [...((def['options'] as Map<unknown, unknown> | undefined)?.values() ?? [])];
+      if ('left' in def) members.push(def['left'], def['right']);
+      return mergeSchemaPaths(
+        members.map((member) => extractSchemaPaths(member, currentPath, sensitive, seen))
+      );
+    }
+
+    // Wrappers (optional, default, nullable, pipe, transform, lazy, ...)
+    // Recursive lazy schemas are expanded a few levels deep, then treated as leaves
+    const lazy = type === 'lazy' || type === 'ZodLazy';
+    const depth = seen.get(schema) ?? 0;
+    if (lazy && depth >= MAX_LAZY_DEPTH) return [];
+    const inner = wrappedSchema(schema);
+    if (inner !== undefined) {
+      if (lazy) seen.set(schema, depth + 1);
+      const innerPaths = extractSchemaPaths(inner, currentPath, sensitive, seen);
+      if (lazy) seen.set(schema, depth);
+      return innerPaths;
     }
 
     // Leaf type (ZodString, ZodNumber, etc.) - return empty to indicate this is a leaf
@@ -232,11 +470,20 @@ function extractSchemaPaths(schema: unknown, currentPath: string[] = []): Schema
 
       const newPath = [...currentPath, key];
       if (value && typeof value === 'object') {
-        const nestedPaths = extractSchemaPaths(value, newPath);
+        const nestedPaths = extractSchemaPaths(value, newPath, sensitive);
         if (nestedPaths.length === 0) {
-          paths.push({ path: newPath, pathKey: newPath.join('.') });
+          paths.push({ path: newPath, pathKey: newPath.join('.'), sensitive });
         } else {
-          paths.push(...nestedPaths);
+          paths.push(
+            {
+              path: newPath,
+              pathKey: newPath.join('.'),
+              sensitive,
+              type: { kind: 'json' },
+              branch: true
+            },
+            ...nestedPaths
+          );
         }
       }
     }
@@ -246,58 +493,440 @@ function extractSchemaPaths(schema: unknown, currentPath: string[] = []): Schema
 }
 
 /**
- * Generate all possible path interpretations for segments
- * e.g., ['PORT', 'NUMBER'] -> [['portNumber'], ['port', 'number']]
+ * Element schema of a Zod array (looking through wrappers), or undefined
  */
-function generatePathInterpretations(segments: string[], delimiter = '_'): string[][] {
-  const interpretations: string[][] = [];
-  const n = segments.length;
+function arrayElementSchema(schema: unknown): unknown {
+  const def = zodDef(schema);
+  if (!def) return undefined;
+
+  // Zod v4 keeps the element in `element`; v3 keeps it in `type`
+  if (def['type'] === 'array') return def['element'];
+  if (def['typeName'] === 'ZodArray') return def['type'];
+  return arrayElementSchema(wrappedSchema(schema));
+}
 
-  // Generate all possible ways to group consecutive segments
-  // For n segments, we have 2^(n-1) ways to group them
-  const numCombinations = 1 << (n - 1);
+/**
+ * Value schema of a Zod record (looking through wrappers), or undefined
+ */
+function recordValueSchema(schema: unknown): unknown {
+  const def = zodDef(schema);
+  if (!def) return undefined;
+  const type = zodType(def);
+  if (type === 'record' || type === 'ZodRecord') return def['valueType'];
+  return recordValueSchema(wrappedSchema(schema));
+}
 
-  for (let mask = 0; mask < numCombinations; mask++) {
-    const path: string[] = [];
-    let currentGroup: string[] = [segments[0]!];
+/**
+ * The value type a Zod schema expects, looking through wrappers and into the input side of pipes
+ * and transforms. Unions whose members agree on a type have that type. Undefined for other types
+ * whose raw value still has to be sniffed.
+ */
+function leafType(schema: unknown): LeafType | undefined {
+  const def = zodDef(schema);
+  if (!def) return undefined;
+
+  switch (zodType(def)) {
+    case 'string':
+    case 'ZodString':
+      return { kind: 'string' };
+    case 'number':
+    case 'ZodNumber':
+      return { kind: 'number' };
+    case 'boolean':
+    case 'ZodBoolean':
+      return { kind: 'boolean' };
+    case 'bigint':
+    case 'ZodBigInt':
+      return { kind: 'bigint' };
+    case 'date':
+    case 'ZodDate':
+      return { kind: 'date' };
+    case 'object':
+    case 'tuple':
+    case 'ZodObject':
+    case 'ZodTuple':
+    case 'ZodDiscriminatedUnion':
+      return { kind: 'json' };
+    case 'record':
+    case 'ZodRecord': {
+      const value = leafType(def['valueType']);
+      return value ? { kind: 'json', value } : { kind: 'json' };
+    }
+    case 'array':
+    case 'ZodArray': {
+      const element = leafType(arrayElementSchema(schema));
+      return element ? { kind: 'array', element } : { kind: 'array' };
+    }
+    case 'enum':
+    case 'ZodEnum':
+    case 'ZodNativeEnum': {
+      const values = def['entries'] ?? def['values'];
+      return literalType(Array.isArray(values) ? values : Object.values(values ?? {}));
+    }
+    case 'literal':
+    case 'ZodLiteral':
+      return literalType(Array.isArray(def['values']) ? def['values'] : [def['value']]);
+    case 'union':
+    case 'ZodUnion': {
+      const types = (def['options'] as unknown[]).map(leafType);
+      const [first] = types;
+      return first && types.every((type) => type?.kind === first.kind) ? first : undefined;
+    }
+  }
+  return leafType(wrappedSchema(schema));
+}
 
-    for (let i = 1; i < n; i++) {
-      if (mask & (1 << (i - 1))) {
-        // Start a new group
-        path.push(segmentsToFlatCamelCase(currentGroup, delimiter));
-        currentGroup = [segments[i]!];
-      } else {
-        // Continue current group
-        currentGroup.push(segments[i]!);
+/**
+ * Whether a Zod schema accepts `null`: it is nullable, or a union with a null member, looking
+ * through other wrappers
+ */
+function acceptsNull(schema: unknown): boolean {
+  const def = zodDef(schema);
+  if (!def) return false;
+
+  switch (zodType(def)) {
+    case 'null':
+    case 'nullable':
+    case 'ZodNull':
+    case 'ZodNullable':
+      return true;
+    case 'union':
+    case 'ZodUnion':
+      return (def['options'] as unknown[]).some(acceptsNull);
+  }
+  return acceptsNull(wrappedSchema(schema));
+}
+
+/**
+ * The value type shared by every enum or literal value, if they share one
+ */
+function literalType(values: unknown[]): LeafType | undefined {
+  for (const kind of ['string', 'number', 'boolean'] as const) {
+    if (values.length > 0 && values.every((value) => typeof value === kind)) return { kind };
+  }
+  return undefined;
+}
+
+const numberPattern = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+
+/**
+ * Convert a raw value to the type its schema field expects, reading booleans, `0x`/`0o` numbers
+ * and array separators as `policy` says. A value that does not read as that type is returned
+ * unchanged, so the schema rejects it with the raw string in the issue.
+ */
+function coerceAs(value: string, type: LeafType, policy: CoercionPolicy = {}): EnviableValue {
+  const text = value.trim();
+  switch (type.kind) {
+    case 'number':
+      if (numberPattern.test(text)) return Number(text);
+      return parsePrefixedInteger(text, policy) ?? value;
+    case 'boolean':
+      return parseBoolean(text, policy) ?? value;
+    case 'bigint':
+      return /^-?\d+$/.test(text) ? BigInt(text) : value;
+    case 'date':
+      try {
+        return builtinCoercers.date(text);
+      } catch {
+        return value;
       }
+    case 'array': {
+      const { element } = type;
+      return value
+        .split(policy.separator ?? ',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+        .map((item) =>
+          element ? coerceAs(item, element, policy) : coerceValue(item, policy)
+        ) as EnviableArray;
     }
-    path.push(segmentsToFlatCamelCase(currentGroup, delimiter));
-    interpretations.push(path);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Visit the schema paths, array element paths and record value paths with their lookup keys
+ * (see {@link SchemaMatch})
+ */
+function walkSchemaPaths(
+  schemaPaths: SchemaPath[],
+  visit: (schemaPath: SchemaPath, key: string) => void,
+  base = ''
+): void {
+  for (const sp of schemaPaths) {
+    const key = base ? `${base}.${sp.pathKey}` : sp.pathKey;
+    visit(sp, key);
+    if (sp.items) walkSchemaPaths(sp.items, visit, `${key}.#`);
+    if (sp.entries) walkSchemaPaths(sp.entries, visit, `${key}.*`);
   }
+}
 
-  return interpretations;
+/**
+ * Build a predicate matching config paths that start with one of the lookup keys, where `#`
+ * matches an array index and `*` any record key
+ */
+function schemaKeyMatcher(keys: Iterable<string>): SensitivePredicate {
+  const patterns = [...keys].map((key) => key.split('.'));
+  return (path) =>
+    patterns.some(
+      (pattern) =>
+        pattern.length <= path.length &&
+        pattern.every((part, index) => {
+          const segment = path[index]!;
+          if (part === '*') return true;
+          if (part === '#') return typeof segment === 'number';
+          return part === String(segment);
+        })
+    );
 }
 
 /**
- * Find the matching schema path for an env key's segments
+ * Collect the lookup keys of the schema paths, and array element paths, that satisfy `pick`
  */
-function findMatchingSchemaPath(
+function collectSchemaKeys(
+  schemaPaths: SchemaPath[],
+  pick: (schemaPath: SchemaPath) => boolean
+): Set<string> {
+  const keys = new Set<string>();
+  walkSchemaPaths(schemaPaths, (sp, key) => {
+    if (pick(sp)) keys.add(key);
+  });
+  return keys;
+}
+
+/**
+ * Most items an array built from indexed keys may hold
+ */
+const maxIndexedItems = 1000;
+
+/**
+ * Whether a key segment reads as an array index: digits without a leading zero
+ */
+function isIndexSegment(segment: string): boolean {
+  return /^(?:0|[1-9]\d*)$/.test(segment);
+}
+
+/**
+ * Position of the first array index segment (`['SERVERS', '0', 'HOST']` → 1), or -1.
+ * The first segment is never treated as an index.
+ */
+function findIndexSegment(segments: string[]): number {
+  return segments.findIndex((segment, index) => index > 0 && isIndexSegment(segment));
+}
+
+/**
+ * Positions of the paths that index an array whose indices do not run densely from 0, or that
+ * would hold more than {@link maxIndexedItems} items, each with the reason. Dropping a path can
+ * leave a gap in another array, so this repeats until every remaining array is dense. Undefined
+ * paths are skipped.
+ */
+function sparseIndexedPaths(
+  paths: ReadonlyArray<Array<string | number> | undefined>
+): Map<number, string> {
+  const sparse = new Map<number, string>();
+  for (;;) {
+    // Indices used under each array path
+    const arrays = new Map<string, Set<number>>();
+    paths.forEach((path, at) => {
+      if (!path || sparse.has(at)) return;
+      path.forEach((segment, level) => {
+        if (typeof segment !== 'number') return;
+        const key = JSON.stringify(path.slice(0, level));
+        arrays.set(key, (arrays.get(key) ?? new Set()).add(segment));
+      });
+    });
+    // Why an array's indices do not run 0..count-1, naming `index` when it is the culprit
+    const problem = (key: string, index: number): string | undefined => {
+      const indices = arrays.get(key)!;
+      const highest = Math.max(...indices);
+      if (highest >= maxIndexedItems) {
+        const limit = `over the limit of ${maxIndexedItems - 1}`;
+        return index >= maxIndexedItems
+          ? `Index ${index} is ${limit}`
+          : `Not an array item: index ${highest} is ${limit}`;
+      }
+      let missing = 0;
+      while (indices.has(missing)) missing++;
+      if (missing === indices.size) return undefined;
+      const skipping = Math.min(...[...indices].filter((other) => other > missing));
+      return index > missing
+        ? `Index ${index} skips ${missing}`
+        : `Not an array item: index ${skipping} skips ${missing}`;
+    };
+    let dropped = false;
+    paths.forEach((path, at) => {
+      if (!path || sparse.has(at)) return;
+      for (const [level, segment] of path.entries()) {
+        if (typeof segment !== 'number') continue;
+        const reason = problem(JSON.stringify(path.slice(0, level)), segment);
+        if (reason === undefined) continue;
+        sparse.set(at, reason);
+        dropped = true;
+        return;
+      }
+    });
+    if (!dropped) return sparse;
+  }
+}
+
+/**
+ * Path for an indexed key without schema guidance. The segments before the first index form the
+ * array key (via `headPath`); each index becomes a numeric path element and the segments between
+ * indices a flat camelCase field: ['SERVERS', '0', 'HOST', 'NAME'] → ['servers', 0, 'hostName']
+ */
+function indexedPath(
   segments: string[],
-  schemaPaths: Map<string, string[]>,
-  delimiter = '_'
-): string[] | null {
-  const interpretations = generatePathInterpretations(segments, delimiter);
+  delimiter: string,
+  headPath: (head: string[]) => string[]
+): Array<string | number> {
+  const at = findIndexSegment(segments);
+  if (at === -1) return headPath(segments);
+
+  const path: Array<string | number> = [...headPath(segments.slice(0, at)), Number(segments[at])];
+  const rest = segments.slice(at + 1);
+  if (rest.length > 0) {
+    path.push(
+      ...indexedPath(rest, delimiter, (head) => [segmentsToFlatCamelCase(head, delimiter)])
+    );
+  }
+  return path;
+}
 
-  for (const interpretation of interpretations) {
-    const pathKey = interpretation.join('.');
-    if (schemaPaths.has(pathKey)) {
-      return interpretation;
+/**
+ * A config path matched in the schema, with its lookup key: array indexes appear as `#` and
+ * record keys as `*` (`servers.#.host`, `databases.*.url`)
+ */
+interface SchemaMatch {
+  path: Array<string | number>;
+  key: string;
+}
+
+/**
+ * Tries over one level of schema paths, built on first use and kept while the paths are
+ */
+interface SchemaPathIndex {
+  leaves: PathTrie;
+  /** Leaves and object branches */
+  all: PathTrie;
+  arrays: Map<string, SchemaPath>;
+  arrayTrie: PathTrie;
+  records: Map<string, SchemaPath>;
+  recordTrie: PathTrie;
+}
+
+const schemaPathIndexes = new WeakMap<SchemaPath[], SchemaPathIndex>();
+
+function indexSchemaPaths(schemaPaths: SchemaPath[]): SchemaPathIndex {
+  let index = schemaPathIndexes.get(schemaPaths);
+  if (!index) {
+    const arrays = new Map(schemaPaths.filter((sp) => sp.items).map((sp) => [sp.pathKey, sp]));
+    const records = new Map(schemaPaths.filter((sp) => sp.entries).map((sp) => [sp.pathKey, sp]));
+    index = {
+      leaves: createPathTrie(schemaPaths.filter((sp) => !sp.branch).map((sp) => sp.pathKey)),
+      all: createPathTrie(schemaPaths.map((sp) => sp.pathKey)),
+      arrays,
+      arrayTrie: createPathTrie(arrays.keys()),
+      records,
+      recordTrie: createPathTrie(records.keys())
+    };
+    schemaPathIndexes.set(schemaPaths, index);
+  }
+  return index;
+}
+
+/**
+ * Match segments against schema paths, descending into array elements at index segments and into
+ * record values after a record key. Object branches are only candidates when `branches` is set.
+ * `structural` segments (split on a nesting delimiter) are one level each, never grouped.
+ */
+function findSchemaPath(
+  segments: string[],
+  schemaPaths: SchemaPath[],
+  delimiter = '_',
+  branches = false,
+  structural = false
+): SchemaMatch | null {
+  const index = indexSchemaPaths(schemaPaths);
+  const at = findIndexSegment(segments);
+  if (at !== -1) {
+    const head = findMatchingSchemaPath(
+      segments.slice(0, at),
+      index.arrayTrie,
+      delimiter,
+      structural
+    );
+    const items = head ? index.arrays.get(head.join('.'))?.items : undefined;
+    if (head && items) {
+      const position = Number(segments[at]);
+      const key = `${head.join('.')}.#`;
+      const rest = segments.slice(at + 1);
+      if (rest.length === 0) return { path: [...head, position], key };
+      const item = findSchemaPath(rest, items, delimiter, branches, structural);
+      if (item) return { path: [...head, position, ...item.path], key: `${key}.${item.key}` };
     }
   }
 
+  const lookup = branches ? index.all : index.leaves;
+  const path = findMatchingSchemaPath(segments, lookup, delimiter, structural);
+  if (path) return { path, key: path.join('.') };
+  return findRecordEntry(segments, index, delimiter, branches, structural);
+}
+
+/**
+ * Match segments as a record field, a record key, and (for records of objects) a path in the
+ * record's value: `DATABASES_READ_REPLICA_HOST` → `databases.readReplica.host`. The shortest key
+ * whose remainder matches the value wins; otherwise all remaining segments form the key.
+ */
+function findRecordEntry(
+  segments: string[],
+  { records, recordTrie }: SchemaPathIndex,
+  delimiter: string,
+  branches: boolean,
+  structural: boolean
+): SchemaMatch | null {
+  if (records.size === 0) return null;
+
+  for (let split = 1; split < segments.length; split++) {
+    const head = findMatchingSchemaPath(
+      segments.slice(0, split),
+      recordTrie,
+      delimiter,
+      structural
+    );
+    if (!head) continue;
+    const entries = records.get(head.join('.'))!.entries!;
+    const key = `${head.join('.')}.*`;
+    const rest = segments.slice(split);
+    // A structural record key is always exactly one segment
+    const lastEnd = structural ? Math.min(1, rest.length - 1) : rest.length - 1;
+    for (let end = 1; end <= lastEnd && entries.length > 0; end++) {
+      const value = findSchemaPath(rest.slice(end), entries, delimiter, branches, structural);
+      if (value) {
+        const recordKey = segmentsToFlatCamelCase(rest.slice(0, end), delimiter);
+        return { path: [...head, recordKey, ...value.path], key: `${key}.${value.key}` };
+      }
+    }
+    if (structural) return { path: [...head, ...structuralPath(rest, false)], key };
+    return { path: [...head, segmentsToFlatCamelCase(rest, delimiter)], key };
+  }
   return null;
 }
 
+/**
+ * Find the matching schema path for an env key's segments. Of the ways to group segments into
+ * camelCase fields, the one with the longest trailing fields wins: `PORT_NUMBER` prefers
+ * `portNumber` to `port.number`.
+ */
+function findMatchingSchemaPath(
+  segments: string[],
+  schemaPaths: PathTrie,
+  delimiter = '_',
+  structural = false
+): string[] | null {
+  return schemaPaths.match(segmentsToCamelCasePath(segments, delimiter), structural);
+}
+
 /**
  * Prefix segments that are never treated as nesting roots regardless of how many env vars share them.
  *
@@ -319,22 +948,183 @@ export const defaultNonNestingPrefixes: string[] = [
   'has', 'use', 'show', 'hide', 'allow', 'deny', 'skip', 'force'
 ];
 
+/**
+ * Whether a raw value is shaped like a JSON object or array
+ */
+function looksLikeJson(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    (trimmed.startsWith('{') && trimmed.endsWith('}')) ||
+    (trimmed.startsWith('[') && trimmed.endsWith(']'))
+  );
+}
+
+/**
+ * How to convert one raw value: its coercer, the type its schema field expects, whether
+ * JSON-shaped values are parsed when neither is known, and the coercion policy for its path
+ */
+interface Conversion {
+  coercer?: NamedCoercer | undefined;
+  type?: LeafType | undefined;
+  json: boolean;
+  coercion: CoercionPolicy;
+}
+
+/**
+ * Convert a raw value with its coercer, else as its schema type, else by parsing it with
+ * `JSON.parse` (when `json` is set and it looks like JSON) or applying the default coercion.
+ * Objects and arrays in the schema always take JSON. A value the coercer rejects, or malformed
+ * JSON, is reported to `issues` and yields undefined.
+ */
+function convertValue(
+  envKey: string,
+  path: Array<string | number>,
+  value: string,
+  { coercer, type, json, coercion }: Conversion,
+  issues?: ObjectEnvyIssue[]
+): EnviableValue | undefined {
+  const report = (expected: string, message: string, code: string) => {
+    issues?.push({ path, envKey, rawValue: value, expected, message, code });
+    return undefined;
+  };
+
+  if (coercer) {
+    try {
+      return coercer.coerce(value);
+    } catch (error) {
+      return report(coercer.name, (error as Error).message, 'invalid_format');
+    }
+  }
+  const structured = type?.kind === 'json' || type?.kind === 'array';
+  if (type && !structured) return coerceAs(value, type, coercion);
+  if ((structured || json) && looksLikeJson(value)) {
+    try {
+      return JSON.parse(value) as EnviableValue;
+    } catch (error) {
+      return report('JSON', `Invalid JSON: ${(error as Error).message}`, 'invalid_json');
+    }
+  }
+  return type?.kind === 'array' ? coerceAs(value, type, coercion) : coerceValue(value, coercion);
+}
+
+/**
+ * Set a value at a path. An object lands under fields already set there, so a JSON value and
+ * individual variables for the same object combine, the individual variables winning.
+ */
+function assignValue(
+  result: EnviableObject,
+  path: Array<string | number>,
+  value: EnviableValue
+): void {
+  const existing = getNestedValue(result, path);
+  if (isPlainObject(value) && isPlainObject(existing)) {
+    setNestedValue(result, path, merge(value as EnviableObject, existing as EnviableObject));
+    return;
+  }
+  setNestedValue(result, path, value);
+}
+
+/**
+ * A converted value waiting to be written, with the raw string it came from
+ */
+interface PendingWrite extends ConfigWrite {
+  value: EnviableValue;
+  rawValue: string;
+}
+
+/**
+ * Write converted values into a new config object, first settling variables that set a path to a
+ * value while others set fields below it
+ */
+function writeConfig(
+  pending: PendingWrite[],
+  policy: ConflictPolicy,
+  sources?: Map<string, PathSource>,
+  conflicts?: KeyConflict[]
+): EnviableObject {
+  const resolved = resolveConflicts(pending, policy);
+  conflicts?.push(...resolved.conflicts);
+
+  const result: EnviableObject = {};
+  for (const { envKey, path, value, rawValue } of resolved.writes) {
+    sources?.set(path.join('.'), { envKey, rawValue, coerced: value !== rawValue });
+    assignValue(result, path, value);
+  }
+  return result;
+}
+
+/**
+ * The `empty` policy for a config path or env key, or undefined where the option sets none
+ */
+function emptyRules(
+  empty: ObjectEnvyOptions['empty']
+): (path: ReadonlyArray<string | number>) => EmptyValue | undefined {
+  if (empty === undefined || typeof empty === 'string') return () => empty;
+  const rules = Object.entries(empty).map(([pattern, policy]) => ({
+    matches: pathPatternMatcher([pattern]),
+    policy
+  }));
+  return (path) => rules.find((rule) => rule.matches(path))?.policy;
+}
+
+/**
+ * The `coercion` policy for a config path, with `split` patterns settled to `'all'` where they
+ * match the path and `'schema'` elsewhere
+ */
+function coercionRules(
+  coercion: CoercionPolicy = {}
+): (path: ReadonlyArray<string | number>) => CoercionPolicy {
+  const { split } = coercion;
+  if (!Array.isArray(split)) return () => coercion;
+  const matches = pathPatternMatcher(split);
+  const splitting: CoercionPolicy = { ...coercion, split: 'all' };
+  const whole: CoercionPolicy = { ...coercion, split: 'schema' };
+  return (path) => (matches(path) ? splitting : whole);
+}
+
+/**
+ * The value an empty variable reads as under `policy`, or undefined when it is absent
+ */
+function emptyValue(policy: EmptyValue): EnviableValue | undefined {
+  if (policy === 'absent') return undefined;
+  return policy === 'null' ? null : '';
+}
+
 /**
  * Build a nested configuration object from environment variables.
  * Only nests when multiple entries share a common prefix (when no schema provided).
  */
 function buildConfig(
   env: NodeJS.ProcessEnv,
-  options: Omit<ObjectEnvyOptions, 'schema'> = {}
+  options: Omit<ObjectEnvyOptions, 'schema'> = {},
+  sources?: Map<string, PathSource>,
+  issues?: ObjectEnvyIssue[],
+  mappedPaths?: ReadonlyMap<string, Array<string | number>>,
+  conflicts?: KeyConflict[]
 ): EnviableObject {
   const {
     prefix,
     coerce = true,
+    json = false,
     delimiter = '_',
+    nestingDelimiter,
     nonNestingPrefixes = defaultNonNestingPrefixes,
+    indexedArrays = false,
     include,
     exclude
   } = options;
+  const coercers = createCoercerRegistry(options.coercers);
+  const emptyFor = emptyRules(options.empty);
+  const coercionFor = coercionRules(options.coercion);
+  const warn = options.onWarning ?? emitConfigWarning;
+  const boundary = nestingDelimiter ?? delimiter;
+  // Longest group first, so DATABASE_REPLICA wins over DATABASE
+  const groups = Object.entries(options.groups ?? {})
+    .map(([name, rule]) => ({
+      segments: splitKey(name, delimiter).map((segment) => segment.toLowerCase()),
+      rule
+    }))
+    .sort((a, b) => b.segments.length - a.segments.length);
 
   // First pass: parse all entries and group by first segment
   const entries: ParsedEntry[] = [];
@@ -343,44 +1133,118 @@ function buildConfig(
   for (const [key, value] of Object.entries(env)) {
     if (value === undefined) continue;
 
-    const normalizedKey = stripPrefix(key, prefix, delimiter);
+    // Mapped variables go where they are told, prefix or not, and take no part in nesting
+    const mapped = mappedPaths?.get(key);
+    if (mapped) {
+      entries.push({ envKey: key, key, segments: [], value, path: mapped });
+      continue;
+    }
+
+    const normalizedKey = stripPrefix(key, prefix, delimiter, nestingDelimiter);
     if (normalizedKey === null) continue;
 
     // Apply include/exclude filtering
     if (!shouldIncludeField(normalizedKey, include, exclude)) continue;
 
-    const segments = splitKey(normalizedKey, delimiter);
+    const segments = splitKey(normalizedKey, boundary);
     if (segments.length === 0) continue;
 
     const firstSegment = segments[0]!.toLowerCase();
-    entries.push({ key: normalizedKey, segments, value });
+    entries.push({ envKey: key, key: normalizedKey, segments, value });
     firstSegmentCounts.set(firstSegment, (firstSegmentCounts.get(firstSegment) ?? 0) + 1);
   }
 
   // Second pass: build config with smart nesting
-  const result: EnviableObject = {};
+  const pending: PendingWrite[] = [];
+  const heuristicPath = (segments: string[], indexed = indexedArrays): Array<string | number> => {
+    // A nesting delimiter marks every level, so there is nothing to guess
+    if (nestingDelimiter !== undefined) return structuralPath(segments, indexed);
+
+    const group = groups.find(
+      (candidate) =>
+        candidate.segments.length <= segments.length &&
+        candidate.segments.every((segment, index) => segment === segments[index]!.toLowerCase())
+    );
+    if (group && typeof group.rule === 'object') {
+      const base = parseConfigPath(group.rule.path);
+      const rest = segments.slice(group.segments.length);
+      if (rest.length === 0) return base;
+      const flat = (head: string[]) => [segmentsToFlatCamelCase(head, delimiter)];
+      return [...base, ...(indexed ? indexedPath(rest, delimiter, flat) : flat(rest))];
+    }
 
-  for (const entry of entries) {
-    const firstSegment = entry.segments[0]!.toLowerCase();
+    const firstSegment = segments[0]!.toLowerCase();
     const count = firstSegmentCounts.get(firstSegment) ?? 0;
-    if (coerce && entry.value === '') continue;
-    const finalValue: EnviableValue = coerce ? coerceValue(entry.value) : entry.value;
 
-    // Decide whether to nest based on count and non-nesting prefixes
-    const shouldNest = count > 1 && !nonNestingPrefixes.includes(firstSegment);
+    // Decide whether to nest based on the group, or on count and non-nesting prefixes
+    const shouldNest = group
+      ? group.rule === 'nested'
+      : count > 1 && !nonNestingPrefixes.includes(firstSegment);
+    // Flatten to camelCase, or nest under shared prefix; index segments (SERVERS_0_HOST) nest
+    // into an array when asked
+    const headPath = (head: string[]) =>
+      shouldNest
+        ? segmentsToCamelCasePath(head, delimiter)
+        : [segmentsToFlatCamelCase(head, delimiter)];
+    return indexed ? indexedPath(segments, delimiter, headPath) : headPath(segments);
+  };
 
-    if (!shouldNest) {
-      // Flatten to camelCase
-      const camelKey = segmentsToFlatCamelCase(entry.segments, delimiter);
-      result[camelKey] = finalValue;
-    } else {
-      // Nest under shared prefix
-      const path = segmentsToCamelCasePath(entry.segments, delimiter);
-      setNestedValue(result, path, finalValue);
+  const paths = entries.map((entry) => entry.path ?? heuristicPath(entry.segments));
+  // Arrays with gaps are not built; their keys keep the path they would have without indices
+  const sparse = sparseIndexedPaths(
+    entries.map((entry, at) => (entry.path ? undefined : paths[at]))
+  );
+  for (const [at, reason] of sparse) {
+    const entry = entries[at]!;
+    paths[at] = heuristicPath(entry.segments, false);
+    warn({
+      code: 'sparse_index',
+      envKey: entry.envKey,
+      message: `${reason}; read as ${paths[at]!.join('.')}`
+    });
+  }
+
+  for (const [at, entry] of entries.entries()) {
+    const path = paths[at]!;
+
+    if (coerce && entry.value === '') {
+      const value = emptyValue(emptyFor(path) ?? 'absent');
+      if (value !== undefined) {
+        pending.push({ envKey: entry.envKey, path, value, rawValue: '' });
+      } else {
+        // Recorded like the schema path does, so meta lists variables that were set empty
+        sources?.set(path.join('.'), { envKey: entry.envKey, rawValue: '', coerced: false });
+      }
+      continue;
     }
+    const finalValue = coerce
+      ? convertValue(
+          entry.envKey,
+          path,
+          entry.value,
+          { coercer: coercers.forPath(path), json, coercion: coercionFor(path) },
+          issues
+        )
+      : entry.value;
+    if (finalValue === undefined) continue;
+    pending.push({ envKey: entry.envKey, path, value: finalValue, rawValue: entry.value });
   }
 
-  return result;
+  return writeConfig(pending, options.conflicts ?? 'branch-wins', sources, conflicts);
+}
+
+/**
+ * Look up the coercer for a config path: a schema tag on the field wins over `paths` globs
+ */
+function schemaCoercers(
+  schemaPaths: SchemaPath[],
+  coercers: CoercerRegistry
+): (path: Array<string | number>, key: string | undefined) => NamedCoercer | undefined {
+  const tagged = new Map<string, NamedCoercer>();
+  walkSchemaPaths(schemaPaths, (sp, key) => {
+    if (sp.coercer !== undefined) tagged.set(key, coercers.byName(sp.coercer));
+  });
+  return (path, key) => (key === undefined ? undefined : tagged.get(key)) ?? coercers.forPath(path);
 }
 
 /**
@@ -389,47 +1253,251 @@ function buildConfig(
 function buildConfigWithSchema(
   env: NodeJS.ProcessEnv,
   schema: unknown,
-  options: Omit<ObjectEnvyOptions, 'schema'> = {}
+  options: Omit<ObjectEnvyOptions, 'schema'> = {},
+  sources?: Map<string, PathSource>,
+  issues?: ObjectEnvyIssue[],
+  unmatched?: UnmatchedKey[],
+  mappedPaths?: ReadonlyMap<string, Array<string | number>>,
+  conflicts?: KeyConflict[]
 ): EnviableObject {
-  const { prefix, coerce = true, delimiter = '_', include, exclude } = options;
+  const {
+    prefix,
+    coerce = true,
+    json = false,
+    delimiter = '_',
+    nestingDelimiter,
+    indexedArrays = false,
+    include,
+    exclude
+  } = options;
+  const boundary = nestingDelimiter ?? delimiter;
+  const structural = nestingDelimiter !== undefined;
 
   // Extract all paths from schema
-  const schemaPathList = extractSchemaPaths(schema);
-  const schemaPaths = new Map<string, string[]>();
-  for (const sp of schemaPathList) {
-    schemaPaths.set(sp.pathKey, sp.path);
+  const schemaPaths = extractSchemaPaths(schema);
+  const leafTypes = new Map<string, LeafType>();
+  walkSchemaPaths(schemaPaths, (sp, key) => {
+    if (sp.type) leafTypes.set(key, sp.type);
+    // Primitive array elements and record values have no schema paths of their own:
+    // TAGS_0 → tags.#, LABELS_TEAM → labels.*
+    if (sp.type?.element) leafTypes.set(`${key}.#`, sp.type.element);
+    if (sp.type?.value) leafTypes.set(`${key}.*`, sp.type.value);
+  });
+  const coercers = createCoercerRegistry(options.coercers);
+  const coercerFor = schemaCoercers(schemaPaths, coercers);
+  const emptyFor = emptyRules(options.empty);
+  const coercionFor = coercionRules(options.coercion);
+  const nullableKeys = collectSchemaKeys(schemaPaths, (sp) => sp.nullable === true);
+  const warn = options.onWarning ?? emitConfigWarning;
+
+  const pending: PendingWrite[] = [];
+
+  // The path of a key no schema path matches, indexed into arrays when asked
+  const unmatchedPath = (segments: string[], indexed: boolean): Array<string | number> => {
+    if (structural) return structuralPath(segments, indexed);
+    const flat = (head: string[]) => [segmentsToFlatCamelCase(head, delimiter)];
+    return indexed ? indexedPath(segments, delimiter, flat) : flat(segments);
+  };
+
+  interface Located {
+    envKey: string;
+    value: string;
+    match: SchemaMatch | null;
+    path: Array<string | number>;
+    /** Key segments, for keys placed by matching rather than `keyMap` */
+    segments?: string[];
   }
 
-  const result: EnviableObject = {};
+  // The schema match and config path for a variable; null when it is not read at all
+  const locate = (key: string, value: string): Located | null => {
+    // Mapped variables go where they are told, prefix or not
+    const mapped = mappedPaths?.get(key);
+    if (mapped) {
+      const mappedKey = mapped.map((segment) => (typeof segment === 'number' ? '#' : segment));
+      return {
+        envKey: key,
+        value,
+        match: { path: mapped, key: mappedKey.join('.') },
+        path: mapped
+      };
+    }
+
+    const normalizedKey = stripPrefix(key, prefix, delimiter, nestingDelimiter);
+    if (normalizedKey === null) return null;
 
+    // Apply include/exclude filtering
+    if (!shouldIncludeField(normalizedKey, include, exclude)) return null;
+
+    const segments = splitKey(normalizedKey, boundary);
+    if (segments.length === 0) return null;
+
+    // Try to find a matching schema path (a whole object only for a JSON value); no match falls
+    // back to flat camelCase, or one level per segment
+    const match =
+      findSchemaPath(segments, schemaPaths, boundary, false, structural) ??
+      (coerce && looksLikeJson(value)
+        ? findSchemaPath(segments, schemaPaths, boundary, true, structural)
+        : null);
+    const path = match?.path ?? unmatchedPath(segments, indexedArrays);
+    return { envKey: key, value, match, path, segments };
+  };
+
+  const located: Located[] = [];
   for (const [key, value] of Object.entries(env)) {
     if (value === undefined) continue;
+    const entry = locate(key, value);
+    if (entry) located.push(entry);
+  }
+  // Arrays with gaps are not built: a schema array's keys are issues, others keep their flat path
+  const sparse = sparseIndexedPaths(located.map((entry) => entry.segments && entry.path));
+  for (const [at, reason] of sparse) {
+    const entry = located[at]!;
+    if (entry.match) {
+      issues?.push({
+        path: entry.path,
+        envKey: entry.envKey,
+        rawValue: entry.value,
+        expected: undefined,
+        message: reason,
+        code: 'sparse_index'
+      });
+      continue;
+    }
+    const path = unmatchedPath(entry.segments!, false);
+    located[at] = { ...entry, path };
+    warn({
+      code: 'sparse_index',
+      envKey: entry.envKey,
+      message: `${reason}; read as ${path.join('.')}`
+    });
+  }
 
-    const normalizedKey = stripPrefix(key, prefix, delimiter);
-    if (normalizedKey === null) continue;
+  for (const [at, { envKey: key, value, match, path }] of located.entries()) {
+    if (match && sparse.has(at)) continue;
+    if (!match) unmatched?.push({ envKey: key, path });
 
-    // Apply include/exclude filtering
-    if (!shouldIncludeField(normalizedKey, include, exclude)) continue;
+    if (coerce && value === '') {
+      const nullable = match !== null && nullableKeys.has(match.key);
+      const empty = emptyValue(emptyFor(path) ?? (nullable ? 'null' : 'absent'));
+      if (empty !== undefined) {
+        pending.push({ envKey: key, path, value: empty, rawValue: value });
+      } else {
+        // Still recorded so a required-field issue can name the variable that was set empty
+        sources?.set(path.join('.'), { envKey: key, rawValue: value, coerced: false });
+      }
+      continue;
+    }
+    const finalValue = coerce
+      ? convertValue(
+          key,
+          path,
+          value,
+          {
+            coercer: coercerFor(path, match?.key),
+            type: match ? leafTypes.get(match.key) : undefined,
+            json,
+            coercion: coercionFor(path)
+          },
+          issues
+        )
+      : value;
+    if (finalValue === undefined) continue;
+    pending.push({ envKey: key, path, value: finalValue, rawValue: value });
+  }
 
-    const segments = splitKey(normalizedKey, delimiter);
-    if (segments.length === 0) continue;
+  return writeConfig(pending, options.conflicts ?? 'branch-wins', sources, conflicts);
+}
 
-    if (coerce && value === '') continue;
-    const finalValue: EnviableValue = coerce ? coerceValue(value) : value;
+/**
+ * Write a leaf value as an env string; dates become ISO strings so the `date` coercer reads them back
+ */
+function toEnvValue(value: EnviablePrimitive | EnviableObject): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
 
-    // Try to find a matching schema path
-    const matchedPath = findMatchingSchemaPath(segments, schemaPaths, delimiter);
+/**
+ * Build the env key that feeds a config path, with prefix and delimiter applied
+ */
+function toEnvKey(path: Array<string | number>, prefix?: string, delimiter = '_'): string {
+  const key = path.map((segment) => toSnakeCase(String(segment))).join(delimiter);
+  if (!prefix) return key;
+  return prefix.endsWith(delimiter) ? `${prefix}${key}` : `${prefix}${delimiter}${key}`;
+}
 
-    if (matchedPath) {
-      setNestedValue(result, matchedPath, finalValue);
-    } else {
-      // No schema match - fall back to flat camelCase
-      const camelKey = segmentsToFlatCamelCase(segments, delimiter);
-      result[camelKey] = finalValue;
-    }
+/**
+ * The env keys a schema reads, for suggesting corrections to unknown ones. Array elements are
+ * listed at index 0; record entries, whose keys are free-form, are left out.
+ */
+function schemaEnvKeys(schemaPaths: SchemaPath[], prefix?: string, delimiter = '_'): string[] {
+  const keys: string[] = [];
+  walkSchemaPaths(schemaPaths, (sp, key) => {
+    if (sp.branch || key.includes('*')) return;
+    const path = key.split('.').map((segment) => (segment === '#' ? '0' : segment));
+    keys.push(toEnvKey(path, prefix, delimiter));
+  });
+  return keys;
+}
+
+/**
+ * Turn prefixed env keys that matched no schema path into `unrecognized_key` issues, suggesting the
+ * closest key the schema expects
+ */
+function unknownKeyIssues(
+  unmatched: UnmatchedKey[],
+  env: Record<string, string | undefined>,
+  schemaPaths: SchemaPath[],
+  prefix?: string,
+  delimiter = '_'
+): ObjectEnvyIssue[] {
+  // Compare without the prefix, so it doesn't dilute the distance
+  const expected = new Map<string, string>();
+  for (const envKey of schemaEnvKeys(schemaPaths, prefix, delimiter)) {
+    expected.set(stripPrefix(envKey, prefix, delimiter) ?? envKey, envKey);
   }
+  return unmatched.map(({ envKey, path }) => {
+    const name = stripPrefix(envKey, prefix, delimiter) ?? envKey;
+    const suggestion = closestMatch(name, expected.keys());
+    return {
+      path,
+      envKey,
+      rawValue: env[envKey],
+      expected: undefined,
+      message:
+        suggestion === undefined
+          ? 'Unknown variable'
+          : `Unknown variable; did you mean ${expected.get(suggestion)}?`,
+      code: 'unrecognized_key'
+    };
+  });
+}
 
-  return result;
+/**
+ * Whether an env key falls under one of the schema's top-level fields, e.g. `DATABASE_HSOT` under
+ * `database`. Without a prefix this keeps `PATH` and `HOME` out of strict mode's unknown keys.
+ */
+function underSchemaRoot(envKey: string, schemaPaths: SchemaPath[], delimiters: string[]): boolean {
+  const key = envKey.toUpperCase();
+  return schemaPaths.some((sp) => {
+    const root = toEnvKey(sp.path.slice(0, 1));
+    return key === root || delimiters.some((delimiter) => key.startsWith(`${root}${delimiter}`));
+  });
+}
+
+/**
+ * Resolve a validator issue path to the env variable that fed it. Array indices and nested paths
+ * inside a single value resolve to the nearest recorded ancestor.
+ */
+function locateIssueSource(
+  path: Array<string | number>,
+  sources: Map<string, IssueSource>,
+  prefix?: string,
+  delimiter = '_'
+): IssueSource {
+  for (let length = path.length; length > 0; length--) {
+    const source = sources.get(path.slice(0, length).join('.'));
+    if (source) return source;
+  }
+  return { envKey: toEnvKey(path, prefix, delimiter), rawValue: undefined };
 }
 
 /**
@@ -442,16 +1510,22 @@ function buildConfigWithSchema(
  * `nonNestingPrefixes` (`max`, `min`, `is`, `enable`, `disable` by default) are always kept flat.
  *
  * When a Zod schema is provided, schema structure governs nesting — the heuristic is bypassed —
- * and the parsed output is validated against the schema. An invalid value throws a `ZodError`.
+ * and the parsed output is validated against the schema. An invalid value throws an `ObjectEnvyError`
+ * whose issues name the offending env variables.
  *
  * String values are coerced to `number` or `boolean` unless `coerce: false` is set. Comma-separated
- * strings are parsed into arrays.
+ * strings are parsed into arrays. Numeric key segments index into arrays: `SERVERS_0_HOST` and
+ * `SERVERS_1_HOST` become `{ servers: [{ host }, { host }] }`, following the schema's element shape
+ * when it declares an array there.
  *
  * @param options - Optional configuration controlling prefix, env source, schema, coercion, and nesting.
  * @returns A nested camelCased config object. Type is inferred from the Zod schema, or from the
  *   env source via `FromEnv`, or falls back to `EnviableObject`.
  *
- * @throws {ZodError} When a Zod schema is provided and the parsed config fails validation.
+ * @throws {ObjectEnvyError} When a Zod schema is provided and the parsed config fails validation. Each
+ *   issue carries the config path, env key, raw value and expected type; the `ZodError` is the `cause`.
+ * @throws {InterpolationError} When `expand: true` and a `${VAR}` reference forms a cycle or a
+ *   `${VAR:?message}` reference is unset.
  *
  * @useWhen
  * - You need to turn raw `process.env` into a typed, nested config object at application startup.
@@ -462,7 +1536,7 @@ function buildConfigWithSchema(
  * @avoidWhen
  * - You need per-variable access with `.required()` / `.asInt()` semantics — use `env-var` instead.
  * - You already have a fully validated config object and just want to merge defaults — use `override()`.
- * - You need multiple env sources (files + remote secrets) — load them first, then pass as `env:`.
+ * - You need remote secret sources — fetch them first, then pass the merged record as `env:`.
  *
  * @pitfalls
  * - NEVER rely on heuristic nesting for shared prefixes in production — BECAUSE adding a second
@@ -472,8 +1546,8 @@ function buildConfigWithSchema(
  *   the type utility assumes keys are uppercase snake_case; mixed-case keys produce incorrect types.
  * - NEVER use `coerce: true` (the default) if a value looks like a number but must stay a string —
  *   BECAUSE `'01'` becomes `1` (integer parse), losing the leading zero.
- * - NEVER pass a mutable reference to the cached env when using `objectEnvy()` — BECAUSE the
- *   WeakMap cache key is the object reference; mutating `process.env` after caching returns stale data.
+ * - NEVER expect `objectEnvy()` to notice changes that only a `transform` sees — BECAUSE its cache
+ *   tracks the prefixed env keys and `.env` files; call `invalidate()` after changing anything else.
  *
  * @example
  * // Smart nesting — only nests when multiple entries share a prefix
@@ -502,7 +1576,24 @@ function buildConfigWithSchema(
  *   })
  * });
  * const config = objectify({ env: process.env, schema });
- * // Throws ZodError if PORT_NUMBER is missing or LOG_LEVEL is not a valid enum value
+ * // Throws ObjectEnvyError if PORT_NUMBER is missing or LOG_LEVEL is not a valid enum value
+ *
+ * @example
+ * // Load .env files underneath process.env (real env values win)
+ * import { objectify } from 'objectenvy';
+ * const config = objectify({ prefix: 'APP', files: ['.env', '.env.local'] });
+ *
+ * @example
+ * // Layered profiles: .env → .env.local → .env.staging → .env.staging.local → process.env
+ * import { objectify } from 'objectenvy';
+ * const config = objectify({ prefix: 'APP', mode: 'staging' });
+ *
+ * @example
+ * // Expand ${VAR} references before coercion
+ * // DB_HOST=db APP_DATABASE_URL=postgres://${DB_USER:-app}@${DB_HOST}
+ * import { objectify } from 'objectenvy';
+ * const config = objectify({ prefix: 'APP', expand: true });
+ * // { databaseUrl: 'postgres://app@db' }
  *
  * @example
  * // Disable coercion to keep all values as strings
@@ -525,6 +1616,14 @@ export function objectify<T extends ZodObject, TOut extends EnviableObject>(
 export function objectify<T extends ZodObject>(
   options: ObjectEnvyOptions<z.infer<T>> & { schema: T }
 ): z.infer<T>;
+// Any other Standard Schema (Valibot, ArkType, Effect Schema): returns its output type.
+export function objectify<S extends StandardSchemaV1>(
+  options: ObjectEnvyOptions<StandardSchemaV1.InferOutput<S>> & { schema: S }
+): StandardSchemaV1.InferOutput<S>;
+// JSON Schema: validated at runtime only, so the result type comes from T.
+export function objectify<T extends EnviableObject = EnviableObject>(
+  options: Omit<ObjectEnvyOptions<T>, 'schema'> & { schema: JsonSchema }
+): T;
 // Transform without schema: returns TOut (transform's return type) instead of T.
 export function objectify<T extends EnviableObject, TOut extends EnviableObject>(
   options: Omit<ObjectEnvyOptions<T>, 'transform'> & { transform: (parsed: T) => TOut }
@@ -532,54 +1631,400 @@ export function objectify<T extends EnviableObject, TOut extends EnviableObject>
 export function objectify(
   options: Omit<ObjectEnvyOptions, 'schema' | 'env'> & { env?: undefined }
 ): EnviableObject;
-export function objectify<E extends EnvLike>(
-  options: Omit<ObjectEnvyOptions, 'schema'> & { env: E }
-): FromEnv<E>;
+export function objectify<E extends EnvLike, P extends EmptyValue = 'absent'>(
+  options: Omit<ObjectEnvyOptions, 'schema' | 'empty'> & {
+    env: E;
+    empty?: P | Record<string, EmptyValue>;
+  }
+): FromEnv<E, P>;
 // General fallback: accepts any ObjectEnvyOptions<T> and returns T.
 export function objectify<T extends EnviableObject>(options: ObjectEnvyOptions<T>): T;
 export function objectify<T extends EnviableObject = EnviableObject>(
   options: ObjectEnvyOptions<T> = {}
 ): T | EnviableObject {
-  const rawEnv = (options.env ?? process.env) as Record<string, string | undefined>;
+  return buildFromEnv(resolveEnv(options).env, options);
+}
+
+/**
+ * The keys of `env` that carry the prefix (all keys when there is none)
+ */
+function scopedKeys<T>(env: Record<string, string | undefined>, options: ObjectEnvyOptions<T>) {
+  return Object.keys(env).filter(
+    (key) => stripPrefix(key, options.prefix, options.delimiter, options.nestingDelimiter) !== null
+  );
+}
 
-  // When coerce is on, treat empty strings as absent (same rule applied in buildConfig).
-  const isAbsent = (v: string | undefined) => v === undefined || (options.coerce !== false && v === '');
+/**
+ * Whether a variable counts as unset: undefined, or empty while `coerce` is on and neither the
+ * `empty` policy nor a nullable schema field keeps it. Env files, `defaults` and deprecations all
+ * follow the same rule as the build.
+ */
+function absentPredicate<T>(
+  options: ObjectEnvyOptions<T>
+): (value: string | undefined, envKey: string) => boolean {
+  if (options.coerce === false) return (value) => value === undefined;
+  const emptyFor = emptyRules(options.empty);
+  // Env keys of nullable schema fields, worked out on the first empty value
+  let nullableKeys: Set<string> | undefined;
+  const isNullable = (envKey: string) => {
+    if (!nullableKeys) {
+      const shape = options.schema && pathSchema(options.schema, options.schemaAdapters);
+      const keys = collectSchemaKeys(extractSchemaPaths(shape), (sp) => sp.nullable === true);
+      const delimiter = options.nestingDelimiter ?? options.delimiter;
+      nullableKeys = new Set(
+        [...keys]
+          .filter((key) => !key.includes('#') && !key.includes('*'))
+          .map((key) => toEnvKey(key.split('.'), options.prefix, delimiter))
+      );
+    }
+    return nullableKeys.has(envKey);
+  };
+  return (value, envKey) =>
+    value === undefined ||
+    (value === '' && (emptyFor([envKey]) ?? (isNullable(envKey) ? 'null' : 'absent')) === 'absent');
+}
+
+interface ResolvedEnv {
+  env: Record<string, string | undefined>;
+  /** Which layer supplied a key of `env` */
+  originOf: (envKey: string) => Pick<ConfigPathMeta, 'source' | 'file'>;
+}
+
+/**
+ * Layer `.env` files, the source env and `defaults` output into the env record that gets built,
+ * expanding `${VAR}` references when requested.
+ */
+function resolveEnv<T>(options: ObjectEnvyOptions<T>): ResolvedEnv {
+  const sourceEnv = (options.env ?? process.env) as Record<string, string | undefined>;
+
+  // When coerce is on, empty strings are absent unless kept (same rule applied in buildConfig).
+  const isAbsent = absentPredicate(options);
+
+  // Layer .env file values underneath the source env; actual non-absent env values win.
+  // Explicit `files` take over from the mode chain (.env, .env.local, .env.<mode>, .env.<mode>.local).
+  const envFiles =
+    options.files ?? (options.mode !== undefined ? resolveEnvFiles(options.mode) : undefined);
+  const loaded = envFiles
+    ? loadEnvFiles(envFiles, { cwd: options.cwd, skipEmpty: (key) => isAbsent('', key) })
+    : undefined;
+  const rawEnv: Record<string, string | undefined> = loaded
+    ? {
+        ...loaded.env,
+        ...Object.fromEntries(Object.entries(sourceEnv).filter(([k, v]) => !isAbsent(v, k)))
+      }
+    : sourceEnv;
 
   // Apply defaults factory: fill in missing/undefined/empty keys; actual non-absent env values win.
-  const env: Record<string, string | undefined> = options.defaults
+  const defaults = options.defaults?.(rawEnv);
+  const mergedEnv: Record<string, string | undefined> = defaults
     ? {
-        ...options.defaults(rawEnv),
-        ...Object.fromEntries(Object.entries(rawEnv).filter(([, v]) => !isAbsent(v)))
+        ...defaults,
+        ...Object.fromEntries(Object.entries(rawEnv).filter(([k, v]) => !isAbsent(v, k)))
       }
     : rawEnv;
 
-  const { transform } = options;
+  // Expand ${VAR} references before coercion. Only prefixed keys are expanded, but references
+  // resolve against the whole merged env (including defaults factory output).
+  const env = options.expand ? expandEnv(mergedEnv, scopedKeys(mergedEnv, options)) : mergedEnv;
+
+  // Mirrors the precedence above: source env, then a non-empty file value, then defaults.
+  const originOf = (envKey: string): Pick<ConfigPathMeta, 'source' | 'file'> => {
+    if (!isAbsent(sourceEnv[envKey], envKey)) return { source: 'env' };
+    const file = loaded?.sources[envKey];
+    if (file !== undefined && !isAbsent(loaded?.env[envKey], envKey)) {
+      return { source: 'file', file };
+    }
+    if (defaults?.[envKey] !== undefined) return { source: 'defaults' };
+    if (file !== undefined) return { source: 'file', file };
+    return { source: 'env' };
+  };
+
+  return { env, originOf };
+}
+
+/**
+ * Combine schema-tagged paths with the `sensitive` patterns (or the default name heuristic)
+ */
+function sensitivePredicate<T>(options: ObjectEnvyOptions<T>): SensitivePredicate {
+  const matchesPattern = sensitivePatternMatcher(options.sensitive);
+  const tagged = options.schema
+    ? collectSchemaKeys(
+        extractSchemaPaths(pathSchema(options.schema, options.schemaAdapters)),
+        (sp) => sp.sensitive && !sp.branch
+      )
+    : new Set<string>();
+  if (tagged.size === 0) return matchesPattern;
+
+  const matchesTag = schemaKeyMatcher(tagged);
+  return (path) => matchesTag(path) || matchesPattern(path);
+}
+
+/**
+ * Default `onWarning`: a process warning, so it shows once on stderr and can be listened for
+ */
+function emitConfigWarning(warning: ConfigWarning): void {
+  process.emitWarning(`${warning.envKey}: ${warning.message}`, {
+    type: 'ObjectEnvyWarning',
+    code: `OBJECTENVY_${warning.code.toUpperCase()}`
+  });
+}
+
+/**
+ * Build, validate and transform the config from a resolved env record. With `validateAsync` the
+ * schema may validate asynchronously, and the result is then a Promise.
+ */
+function buildFromEnv<T extends EnviableObject>(
+  env: Record<string, string | undefined>,
+  options: ObjectEnvyOptions<T>,
+  sources?: Map<string, PathSource>,
+  sensitiveEnvKeys?: ReadonlySet<string>
+): T | EnviableObject;
+function buildFromEnv<T extends EnviableObject>(
+  env: Record<string, string | undefined>,
+  options: ObjectEnvyOptions<T>,
+  sources: Map<string, PathSource> | undefined,
+  sensitiveEnvKeys: ReadonlySet<string>,
+  validateAsync: true
+): T | EnviableObject | Promise<T | EnviableObject>;
+function buildFromEnv<T extends EnviableObject>(
+  env: Record<string, string | undefined>,
+  options: ObjectEnvyOptions<T>,
+  sources = new Map<string, PathSource>(),
+  sensitiveEnvKeys: ReadonlySet<string> = new Set(),
+  validateAsync = false
+): T | EnviableObject | Promise<T | EnviableObject> {
+  const matchesOptions = sensitivePredicate(options);
+  // Paths fed by sensitive env keys (resolved secrets) are sensitive, along with everything below
+  const isSensitive: SensitivePredicate = (path) =>
+    matchesOptions(path) ||
+    path.some((_, index) => {
+      const source = sources.get(path.slice(0, index + 1).join('.'));
+      return source !== undefined && sensitiveEnvKeys.has(source.envKey);
+    });
+  const finish = (config: T): T | EnviableObject => {
+    const output = options.transform ? options.transform(config) : config;
+    if (options.redact) protectSensitive(output, isSensitive);
+    else markSensitive(output, isSensitive);
+    return output;
+  };
+  const warn = options.onWarning ?? emitConfigWarning;
   // buildConfig/buildConfigWithSchema only use these fields — pass them explicitly to avoid
   // variance errors from transform/defaults on the full options type.
   const buildOpts = {
     prefix: options.prefix,
     coerce: options.coerce,
+    json: options.json,
+    coercers: options.coercers,
     delimiter: options.delimiter,
+    nestingDelimiter: options.nestingDelimiter,
     nonNestingPrefixes: options.nonNestingPrefixes,
+    indexedArrays: options.indexedArrays,
+    groups: options.groups,
+    conflicts: options.conflicts,
+    empty: options.empty,
+    coercion: options.coercion,
     include: options.include,
-    exclude: options.exclude
+    exclude: options.exclude,
+    onWarning: warn
+  };
+  // Values that could not be read at all (malformed JSON) fail before schema validation
+  const readIssues: ObjectEnvyIssue[] = [];
+
+  // Env keys are generated with the delimiter that separates nesting levels
+  const levelDelimiter = options.nestingDelimiter ?? options.delimiter;
+
+  // Variables pinned to a path by keyMap, or routed there from a deprecated name
+  const mappedPaths = new Map<string, Array<string | number>>();
+  const mappedKeys = new Map<string, string>();
+  for (const [envKey, path] of Object.entries(options.keyMap ?? {})) {
+    mappedPaths.set(envKey, parseConfigPath(path));
+    mappedKeys.set(path, envKey);
+  }
+  if (options.deprecations) {
+    const deprecated = resolveDeprecations(
+      env,
+      options.deprecations,
+      (path) => mappedKeys.get(path.join('.')) ?? toEnvKey(path, options.prefix, levelDelimiter),
+      absentPredicate(options)
+    );
+    env = deprecated.env;
+    for (const [envKey, path] of deprecated.paths) mappedPaths.set(envKey, path);
+    // The replacement variable feeds the same path, not wherever nesting would put it
+    for (const [envKey, path] of deprecated.replacements) {
+      if (!mappedPaths.has(envKey)) mappedPaths.set(envKey, path);
+    }
+    readIssues.push(...deprecated.issues);
+    for (const warning of deprecated.warnings) warn(warning);
+  }
+  // Variables setting a path to a value while others set fields below it
+  const conflicts: KeyConflict[] = [];
+  const checkIssues = () => {
+    for (const { leaf, branch } of conflicts) {
+      const below = `${branch.envKey} sets ${branch.path.join('.')} below it`;
+      if (options.conflicts === 'error') {
+        readIssues.push({
+          path: leaf.path,
+          envKey: leaf.envKey,
+          rawValue: env[leaf.envKey],
+          expected: undefined,
+          message: `Sets ${leaf.path.join('.')} to a value, but ${below}`,
+          code: 'conflicting_key'
+        });
+      } else if (options.conflicts === undefined) {
+        // The default drops the value, which should not go unnoticed
+        warn({ code: 'conflicting_key', envKey: leaf.envKey, message: `Ignored because ${below}` });
+      }
+    }
+    if (readIssues.length === 0) return;
+    throw new ObjectEnvyError(
+      readIssues.map((issue) =>
+        isSensitive(issue.path) ? { ...issue, rawValue: REDACTED } : issue
+      )
+    );
   };
 
   if (options.schema) {
-    const config = buildConfigWithSchema(env, options.schema, buildOpts);
+    // A Standard Schema no adapter describes still validates; nesting is then heuristic
+    const shape = pathSchema(options.schema, options.schemaAdapters);
+    const unmatched: UnmatchedKey[] = [];
+    const config = shape
+      ? buildConfigWithSchema(
+          env,
+          shape,
+          buildOpts,
+          sources,
+          readIssues,
+          unmatched,
+          mappedPaths,
+          conflicts
+        )
+      : buildConfig(env, buildOpts, sources, readIssues, mappedPaths, conflicts);
+    if (options.strict && unmatched.length > 0) {
+      const schemaPaths = extractSchemaPaths(shape);
+      // With neither prefix nor include every variable gets here, so only judge those under a field
+      const delimiters = [options.delimiter ?? '_', levelDelimiter ?? '_'];
+      const unknown = unknownKeyIssues(
+        options.prefix || options.include
+          ? unmatched
+          : unmatched.filter(({ envKey }) => underSchemaRoot(envKey, schemaPaths, delimiters)),
+        env,
+        schemaPaths,
+        options.prefix,
+        levelDelimiter
+      );
+      if (options.strict === 'error') {
+        readIssues.push(...unknown);
+      } else {
+        for (const { envKey, message } of unknown) warn({ code: 'unknown_key', envKey, message });
+      }
+    }
+    checkIssues();
+
+    // Keep secrets out of error messages and logged issue lists
+    const locate = (path: Array<string | number>): IssueSource => ({
+      ...locateIssueSource(path, sources, options.prefix, levelDelimiter),
+      sensitive: isSensitive(path)
+    });
 
     let parsed: T;
     if ('_def' in options.schema) {
-      parsed = (options.schema as z.ZodObject<any>).parse(config) as T;
+      const schema = options.schema as z.ZodObject<any>;
+      const settle = (result: z.ZodSafeParseResult<unknown>) => {
+        if (!result.success) {
+          throw new ObjectEnvyError(issuesFromZodError(result.error, locate), {
+            cause: result.error
+          });
+        }
+        return finish(result.data as T);
+      };
+      // Async refinements need safeParseAsync, which only objectifyAsync() can wait for
+      return validateAsync
+        ? schema.safeParseAsync(config).then(settle)
+        : settle(schema.safeParse(config));
+    } else if (isStandardSchema(options.schema)) {
+      const settle = (result: StandardSchemaV1.Result<unknown>) => {
+        // The raw result is not the cause: its issues carry the unredacted input
+        if (result.issues) {
+          throw new ObjectEnvyError(issuesFromStandardSchema(result.issues, locate));
+        }
+        return finish(result.value as T);
+      };
+      if (!validateAsync) return settle(validateStandardSchema(options.schema, config));
+      const result = options.schema['~standard'].validate(config);
+      return result instanceof Promise ? result.then(settle) : settle(result);
+    } else if (isJsonSchema(options.schema)) {
+      const result = validateJsonSchema(options.schema, config);
+      if (result.issues) {
+        throw new ObjectEnvyError(issuesFromStandardSchema(result.issues, locate));
+      }
+      parsed = result.value as T;
     } else {
       parsed = config as T;
     }
 
-    return transform ? transform(parsed) : parsed;
+    return finish(parsed);
   }
 
-  const config = buildConfig(env, buildOpts) as T;
-  return transform ? transform(config) : config;
+  const config = buildConfig(env, buildOpts, sources, readIssues, mappedPaths, conflicts);
+  checkIssues();
+  return finish(config as T);
+}
+
+/**
+ * Like {@link objectify}, but also reports where every config value came from.
+ *
+ * @remarks
+ * `meta` maps each dot-joined config path to the env variable that fed it, the raw string, the
+ * layer that supplied it (`'env'`, `'file'` or `'defaults'`) and whether coercion changed it. Paths
+ * describe the config as built, before `transform` runs; schema defaults that no env variable fed
+ * have no entry. Variables set to an empty string while `coerce` is on are listed with
+ * `rawValue: ''` even though they are left out of the config.
+ *
+ * @returns `{ config, meta }` — `config` is exactly what `objectify(options)` returns.
+ *
+ * @throws {ObjectEnvyError} Under the same conditions as {@link objectify}.
+ *
+ * @example
+ * // APP_PORT=3000 in the environment, APP_LOG_LEVEL=debug in .env
+ * import { objectifyWithMeta } from 'objectenvy';
+ * const { config, meta } = objectifyWithMeta({ prefix: 'APP', files: ['.env'] });
+ * // meta.port        → { envKey: 'APP_PORT', rawValue: '3000', source: 'env', coerced: true }
+ * // meta['log.level'] → { envKey: 'APP_LOG_LEVEL', rawValue: 'debug', source: 'file', file: '.env', coerced: false }
+ *
+ * @category Parsing
+ * @see {@link objectify}
+ */
+export function objectifyWithMeta<T extends ZodObject>(
+  options: ObjectEnvyOptions<z.infer<T>> & { schema: T }
+): { config: z.infer<T>; meta: ConfigMeta };
+export function objectifyWithMeta<S extends StandardSchemaV1>(
+  options: ObjectEnvyOptions<StandardSchemaV1.InferOutput<S>> & { schema: S }
+): { config: StandardSchemaV1.InferOutput<S>; meta: ConfigMeta };
+export function objectifyWithMeta<T extends EnviableObject = EnviableObject>(
+  options?: ObjectEnvyOptions<T>
+): { config: T; meta: ConfigMeta };
+export function objectifyWithMeta<T extends EnviableObject = EnviableObject>(
+  options: ObjectEnvyOptions<T> = {}
+): { config: T | EnviableObject; meta: ConfigMeta } {
+  const { env, originOf } = resolveEnv(options);
+  const sources = new Map<string, PathSource>();
+  const config = buildFromEnv(env, options, sources);
+  const isSensitive = sensitivePredicate(options);
+
+  const meta: ConfigMeta = {};
+  for (const [path, { envKey, rawValue, coerced }] of sources) {
+    const sensitive = isSensitive(
+      path.split('.').map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment))
+    );
+    meta[path] = {
+      envKey,
+      rawValue: sensitive ? REDACTED : rawValue,
+      ...originOf(envKey),
+      coerced,
+      sensitive
+    };
+  }
+  return { config, meta };
 }
 
 /**
@@ -587,13 +2032,14 @@ export function objectify<T extends EnviableObject = EnviableObject>(
  * validation failure or transform errors.
  *
  * @remarks
- * Catches all errors including `ZodError` (when a schema is provided) and any error thrown inside
- * a `transform` callback. On `ZodError`, the original error is available as `result.error`.
+ * Catches all errors including `ObjectEnvyError` (when a schema is provided) and any error thrown
+ * inside a `transform` callback. The thrown error is available as `result.error`; validation failures
+ * can be narrowed with `instanceof ObjectEnvyError` to reach the per-variable `issues`.
  *
  * @example
  * const result = safeObjectify({ env: import.meta.env, prefix: 'VITE', schema: ConfigSchema });
  * if (!result.success) {
- *   console.error('Config invalid:', result.error);
+ *   console.error(result.error instanceof ObjectEnvyError ? result.error.format() : result.error);
  *   return;
  * }
  * const config = result.data;
@@ -619,6 +2065,115 @@ export function safeObjectify<T extends EnviableObject = EnviableObject>(
   }
 }
 
+/**
+ * The config path of the field an env key feeds, when the schema declares it or `keyMap` pins it
+ */
+function declaredPathResolver<T>(
+  options: ObjectEnvyOptions<T>
+): (envKey: string) => Array<string | number> | undefined {
+  const { prefix, delimiter = '_', nestingDelimiter, keyMap = {} } = options;
+  const boundary = nestingDelimiter ?? delimiter;
+  const schemaPaths = options.schema
+    ? extractSchemaPaths(pathSchema(options.schema, options.schemaAdapters))
+    : [];
+  return (envKey) => {
+    const mapped = keyMap[envKey];
+    if (mapped !== undefined) return parseConfigPath(mapped);
+    const key = stripPrefix(envKey, prefix, delimiter, nestingDelimiter);
+    const segments = key === null ? [] : splitKey(key, boundary);
+    if (segments.length === 0 || schemaPaths.length === 0) return undefined;
+    const structural = nestingDelimiter !== undefined;
+    return findSchemaPath(segments, schemaPaths, boundary, true, structural)?.path;
+  };
+}
+
+/**
+ * Which variables `objectifyAsync()` may read from files: those `secretFiles` lists, or else
+ * declared fields — `X` through `X_FILE` when `X_FILE` is not declared itself, and a `file:` value
+ * of `X` when `X` is sensitive
+ */
+function fileSecretPredicate<T>(
+  options: AsyncObjectEnvyOptions<T>
+): (target: string, source: string) => boolean {
+  if (options.secretFiles) {
+    const listed = pathPatternMatcher(options.secretFiles);
+    return (target) => listed([target]);
+  }
+  const declaredPath = declaredPathResolver(options);
+  const isSensitive = sensitivePredicate(options);
+  return (target, source) => {
+    const path = declaredPath(target);
+    if (path === undefined) return false;
+    if (source !== target) return declaredPath(source) === undefined;
+    // A secret field reads file: references; others keep them, so a SQLite file: URL stays one
+    return isSensitive(path);
+  };
+}
+
+/**
+ * Like {@link objectify}, but first resolves secret references in the env, so Docker/Kubernetes
+ * secret files and secret-manager references load straight into the config.
+ *
+ * @remarks
+ * After `.env` files and `defaults` are layered, and before `${VAR}` expansion, coercion and schema
+ * validation, each prefixed variable is checked for a reference:
+ * - `X_FILE=/run/secrets/x` — sets `X` to the file's contents (one trailing newline dropped) and
+ *   removes `X_FILE`. Setting both `X` and `X_FILE` is an error.
+ * - `X=file:/run/secrets/x` (or a `file://` URL) — replaced by the file's contents.
+ * - `X=<scheme>:...` for a scheme in `resolvers` — replaced by what the resolver returns.
+ *
+ * Files are only read for the variables `secretFiles` lists. Without it, only fields the schema or
+ * `keyMap` declares read files: `X_FILE` when `X` is declared and `X_FILE` is not, and `X=file:...`
+ * when `X` is sensitive. Without a schema or `keyMap` nothing is read from files, so
+ * `APP_DB_PASSWORD_FILE` stays a `dbPasswordFile` path until `secretFiles` lists `dbPassword`.
+ *
+ * Relative file paths resolve against `cwd`. References resolve concurrently. Config paths fed by a
+ * resolved value are sensitive: masked by `redact()`, `redact: true` and in validation errors.
+ * Unlike `objectify()`, the schema may validate asynchronously (Zod `refine(async …)`, Valibot
+ * `pipeAsync`); the validation is awaited.
+ *
+ * @throws {SecretResolutionError} When a reference cannot be resolved.
+ * @throws {ObjectEnvyError} Under the same conditions as {@link objectify}.
+ *
+ * @example
+ * // DB_PASSWORD_FILE=/run/secrets/db, API_TOKEN=secret://vault/api/token
+ * import { objectifyAsync } from 'objectenvy';
+ * const config = await objectifyAsync({
+ *   schema,
+ *   resolvers: { secret: (ref) => vault.read(ref.slice('secret://'.length)) }
+ * });
+ *
+ * @category Parsing
+ * @see {@link objectify} for the synchronous version
+ */
+export function objectifyAsync<T extends ZodObject>(
+  options: AsyncObjectEnvyOptions<z.infer<T>> & { schema: T }
+): Promise<z.infer<T>>;
+export function objectifyAsync<S extends StandardSchemaV1>(
+  options: AsyncObjectEnvyOptions<StandardSchemaV1.InferOutput<S>> & { schema: S }
+): Promise<StandardSchemaV1.InferOutput<S>>;
+export function objectifyAsync<T extends EnviableObject = EnviableObject>(
+  options: Omit<AsyncObjectEnvyOptions<T>, 'schema'> & { schema: JsonSchema }
+): Promise<T>;
+export function objectifyAsync<T extends EnviableObject = EnviableObject>(
+  options?: AsyncObjectEnvyOptions<T>
+): Promise<T>;
+export async function objectifyAsync<T extends EnviableObject = EnviableObject>(
+  options: AsyncObjectEnvyOptions<T> = {}
+): Promise<T | EnviableObject> {
+  // Expansion waits until references are resolved, so ${DB_PASSWORD} sees the secret
+  const layered = resolveEnv({ ...options, expand: false }).env;
+  const { env: resolved, resolvedKeys } = await resolveSecretReferences(
+    layered,
+    scopedKeys(layered, options),
+    options.resolvers,
+    options.cwd,
+    fileSecretPredicate(options)
+  );
+  const env = options.expand ? expandEnv(resolved, scopedKeys(resolved, options)) : resolved;
+  return buildFromEnv(env, options, undefined, resolvedKeys, true);
+}
+
 /**
  * Create a memoized configuration loader with preset options, returning bound `objectify` and `envy` helpers.
  *
@@ -626,12 +2181,22 @@ export function safeObjectify<T extends EnviableObject = EnviableObject>(
  * `objectEnvy` acts as a factory: call it once at module load time with your default options (prefix,
  * schema, delimiter, etc.) and it returns a pair of functions. The inner `objectify` is memoized per
  * env-object reference and option-set combination, so repeated calls within the same process return
- * the same config instance without re-parsing. Pass `{ env: testEnv }` to the inner `objectify` to
- * override the env source for unit testing without polluting module-level state.
+ * the same config instance without re-parsing. Each cached config remembers a fingerprint of the
+ * prefixed env variables and `.env` files it was built from, and is rebuilt once they change, so
+ * mutating `process.env` is picked up. `invalidate()` drops every cached config; `refresh()` does the
+ * same and returns a freshly built one. Configs built with `transform`, `defaults`, custom coercers
+ * or schema adapters are only cached when `cacheKey` is set. Pass `{ env: testEnv }` to the inner
+ * `objectify` to override the env source for unit testing without polluting module-level state.
+ *
+ * The instance can also reload itself: `watch()` re-reads the config whenever one of its env files
+ * changes, and `subscribe()` listeners receive each new config with the list of changed paths. A
+ * reload that fails validation keeps the last good config and is reported as an `error` event.
  *
  * @param defaultOptions - Default options applied to every inner `objectify()` call. Schema is fixed
  *   per instance; it cannot be overridden in the inner calls.
- * @returns An object with a memoized `objectify(overrides?)` and the `envy` converter.
+ * @returns An object with a memoized `objectify(overrides?)`, the `envy` converter, the
+ *   `invalidate()` and `refresh(overrides?)` cache controls, and the `watch()`, `subscribe()` and
+ *   `reload()` live-reload controls.
  *
  * @useWhen
  * - You have a single canonical app-config module and want to read config exactly once per process lifecycle.
@@ -639,12 +2204,13 @@ export function safeObjectify<T extends EnviableObject = EnviableObject>(
  * - You want a named handle that bundles both directions of the round-trip (`objectify` + `envy`).
  *
  * @avoidWhen
- * - You need a fresh re-read on every call (e.g., dynamic secrets) — memoization will return stale data.
+ * - You need a fresh re-read on every call (e.g., dynamic secrets read by a `transform`) — memoization
+ *   returns the cached config until `invalidate()` or `refresh()` runs.
  * - You use different schemas in different parts of the app — create separate `objectEnvy` instances instead.
  *
  * @pitfalls
- * - NEVER mutate `process.env` after calling the inner `objectify()` expecting the result to update —
- *   BECAUSE results are cached by WeakMap keyed on the env object reference; the cached value is returned.
+ * - NEVER reuse one `cacheKey` for different `transform` or `defaults` functions — BECAUSE the key
+ *   stands in for the functions, so the second call returns the config the first one built.
  * - NEVER share one `objectEnvy` instance across packages that need independent schemas — BECAUSE the
  *   schema is baked into the instance at creation time and cannot be changed per call.
  *
@@ -665,6 +2231,16 @@ export function safeObjectify<T extends EnviableObject = EnviableObject>(
  * const { objectify } = objectEnvy({ prefix: 'APP' });
  * const testConfig = objectify({ env: { APP_PORT: '9000', APP_DEBUG: 'true' } });
  *
+ * @example
+ * // Reload when .env changes
+ * import { objectEnvy } from 'objectenvy';
+ * const config = objectEnvy({ prefix: 'APP', files: ['.env'] });
+ * config.subscribe((event) => {
+ *   if (event.type === 'change') console.log(event.changes.map((change) => change.path));
+ *   else console.error('Kept the previous config:', event.error);
+ * });
+ * const stop = config.watch();
+ *
  * @category Parsing
  * @see {@link objectify} for the stateless version without memoization
  * @see {@link envy} for converting config objects back to env format
@@ -672,28 +2248,59 @@ export function safeObjectify<T extends EnviableObject = EnviableObject>(
 export function objectEnvy(defaultOptions: Omit<ObjectEnvyOptions, 'schema'>): {
   objectify: (overrides?: Partial<Omit<ObjectEnvyOptions, 'schema'>>) => EnviableObject;
   envy: typeof envy;
-};
+  invalidate: () => void;
+  refresh: (overrides?: Partial<Omit<ObjectEnvyOptions, 'schema'>>) => EnviableObject;
+} & ConfigWatcher<EnviableObject>;
 export function objectEnvy<T extends EnviableObject>(
   defaultOptions: ObjectEnvyOptions<T> & { schema: z.ZodObject<any> | T }
 ): {
   objectify: (overrides?: Partial<Omit<ObjectEnvyOptions<T>, 'schema'>>) => T;
   envy: typeof envy;
-};
+  invalidate: () => void;
+  refresh: (overrides?: Partial<Omit<ObjectEnvyOptions<T>, 'schema'>>) => T;
+} & ConfigWatcher<T>;
+export function objectEnvy<S extends StandardSchemaV1>(
+  defaultOptions: ObjectEnvyOptions<StandardSchemaV1.InferOutput<S>> & { schema: S }
+): {
+  objectify: (
+    overrides?: Partial<Omit<ObjectEnvyOptions<StandardSchemaV1.InferOutput<S>>, 'schema'>>
+  ) => StandardSchemaV1.InferOutput<S>;
+  envy: typeof envy;
+  invalidate: () => void;
+  refresh: (
+    overrides?: Partial<Omit<ObjectEnvyOptions<StandardSchemaV1.InferOutput<S>>, 'schema'>>
+  ) => StandardSchemaV1.InferOutput<S>;
+} & ConfigWatcher<StandardSchemaV1.InferOutput<S>>;
 export function objectEnvy<T extends EnviableObject = EnviableObject>(
   defaultOptions: ObjectEnvyOptions<T>
 ): {
   objectify: (overrides?: Partial<Omit<ObjectEnvyOptions<T>, 'schema'>>) => T | EnviableObject;
   envy: typeof envy;
-} {
-  // Create a memoization cache for this specific objectEnvy instance
-  const cache = new WeakMap<NodeJS.ProcessEnv, Map<string, EnviableObject>>();
+  invalidate: () => void;
+  refresh: (overrides?: Partial<Omit<ObjectEnvyOptions<T>, 'schema'>>) => T | EnviableObject;
+} & ConfigWatcher<T | EnviableObject> {
+  // Memoized configs per env object and option set, each with the fingerprint it was built from
+  let cache = new WeakMap<
+    NodeJS.ProcessEnv,
+    Map<string, { fingerprint: string; config: EnviableObject }>
+  >();
 
   const objectifyFn = (overrides: Partial<Omit<ObjectEnvyOptions<T>, 'schema'>> = {}) => {
     const mergedOptions = { ...defaultOptions, ...overrides };
 
     // Functions can't be serialised into a cache key and may differ per call.
-    // Always recompute when transform or defaults are present.
-    if (mergedOptions.transform || mergedOptions.defaults) {
+    // Recompute when transform, defaults, custom coercers or schema adapters are present,
+    // unless the caller vouches for them with a cacheKey.
+    const customCoercers = Object.values(mergedOptions.coercers ?? {}).some(
+      (definition) => !Array.isArray(definition) && definition.coerce !== undefined
+    );
+    if (
+      (mergedOptions.transform ||
+        mergedOptions.defaults ||
+        customCoercers ||
+        overrides.schemaAdapters) &&
+      mergedOptions.cacheKey === undefined
+    ) {
       return objectify(mergedOptions) as T | EnviableObject;
     }
 
@@ -702,30 +2309,139 @@ export function objectEnvy<T extends EnviableObject = EnviableObject>(
     const optionsKey = JSON.stringify({
       prefix: mergedOptions.prefix,
       coerce: mergedOptions.coerce ?? true,
+      json: mergedOptions.json ?? false,
+      coercers: mergedOptions.coercers,
       delimiter: mergedOptions.delimiter ?? '_',
+      nestingDelimiter: mergedOptions.nestingDelimiter,
       include: mergedOptions.include,
       exclude: mergedOptions.exclude,
-      nonNestingPrefixes: mergedOptions.nonNestingPrefixes
+      nonNestingPrefixes: mergedOptions.nonNestingPrefixes,
+      indexedArrays: mergedOptions.indexedArrays,
+      files: mergedOptions.files,
+      cwd: mergedOptions.cwd,
+      mode: mergedOptions.mode,
+      expand: mergedOptions.expand,
+      sensitive: mergedOptions.sensitive,
+      redact: mergedOptions.redact,
+      strict: mergedOptions.strict,
+      deprecations: mergedOptions.deprecations,
+      keyMap: mergedOptions.keyMap,
+      groups: mergedOptions.groups,
+      conflicts: mergedOptions.conflicts,
+      empty: mergedOptions.empty,
+      coercion: mergedOptions.coercion,
+      cacheKey: mergedOptions.cacheKey
     });
 
+    // Interpolation and the defaults factory can read any variable, not just prefixed ones
+    const { files, mode, cwd } = mergedOptions;
+    const readsAnyKey = mergedOptions.expand || mergedOptions.defaults;
+    const fingerprint = envFingerprint(
+      env,
+      readsAnyKey
+        ? Object.keys(env)
+        : [
+            ...scopedKeys(env, mergedOptions),
+            ...Object.keys(mergedOptions.keyMap ?? {}),
+            ...Object.keys(mergedOptions.deprecations ?? {})
+          ],
+      files ?? (mode !== undefined ? resolveEnvFiles(mode) : []),
+      cwd
+    );
+
     let envCache = cache.get(env);
     if (!envCache) {
-      envCache = new Map<string, EnviableObject>();
+      envCache = new Map();
       cache.set(env, envCache);
     }
 
-    if (envCache.has(optionsKey)) {
-      return envCache.get(optionsKey)! as T | EnviableObject;
+    const cached = envCache.get(optionsKey);
+    if (cached?.fingerprint === fingerprint) {
+      return cached.config as T | EnviableObject;
     }
 
     const result: EnviableObject = objectify(mergedOptions) as EnviableObject;
-    envCache.set(optionsKey, result);
+    envCache.set(optionsKey, { fingerprint, config: result });
     return result as T | EnviableObject;
   };
 
+  const invalidate = () => {
+    cache = new WeakMap();
+  };
+
+  // Live reload: the last good config, and who to tell when it changes
+  let current: T | EnviableObject | undefined;
+  const listeners = new Set<(event: ConfigEvent<T | EnviableObject>) => void>();
+  const emit = (event: ConfigEvent<T | EnviableObject>) => {
+    for (const listener of [...listeners]) {
+      // Listeners run in the watcher's timer, where a throw would crash the process
+      try {
+        listener(event);
+      } catch (error) {
+        process.emitWarning(
+          `A config listener threw: ${error instanceof Error ? error.message : String(error)}`,
+          { type: 'ObjectEnvyWarning', code: 'OBJECTENVY_LISTENER_ERROR' }
+        );
+      }
+    }
+  };
+  let watching = 0;
+
+  const reload = (): T | EnviableObject => {
+    if (current === undefined) {
+      current = objectify(defaultOptions);
+      return current;
+    }
+    let next: T | EnviableObject;
+    try {
+      next = objectify(defaultOptions);
+    } catch (error) {
+      emit({ type: 'error', error, config: current });
+      return current;
+    }
+    // Memoized results predate the reload
+    invalidate();
+    const previous = current;
+    current = next;
+    const changes = diffConfig(previous, next, sensitivePredicateFor(next));
+    if (changes.length > 0) emit({ type: 'change', config: next, previous, changes });
+    return next;
+  };
+
   return {
-    objectify: objectifyFn,
-    envy
+    objectify(overrides) {
+      // While watching, the config in effect is the last good one, not a rebuild that may fail
+      return watching > 0 && overrides === undefined && current !== undefined
+        ? current
+        : objectifyFn(overrides);
+    },
+    envy,
+    invalidate,
+    refresh(overrides) {
+      invalidate();
+      return objectifyFn(overrides);
+    },
+    reload,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    watch({ debounce = 50 }: WatchOptions = {}) {
+      current = objectify(defaultOptions);
+      const { files, mode, cwd = process.cwd() } = defaultOptions;
+      const envFiles = files ?? (mode !== undefined ? resolveEnvFiles(mode) : []);
+      const stop = watchFiles(envFiles, cwd, reload, debounce);
+      watching++;
+      let stopped = false;
+      return () => {
+        if (stopped) return;
+        stopped = true;
+        watching--;
+        stop();
+      };
+    }
   };
 }
 
@@ -761,9 +2477,9 @@ export function objectEnvy<T extends EnviableObject = EnviableObject>(
  * - NEVER mutate the `defaults` or `config` arguments after calling `override()` — BECAUSE the
  *   returned object is a shallow copy at each level; nested sub-objects are NOT deep-cloned, so
  *   mutations to deeply nested objects propagate back through the shared reference.
- * - NEVER rely on `override()` to handle class instances or special objects (Date, Map, Set) — BECAUSE
- *   the function checks `typeof === 'object'` and recurses, which may produce unexpected results for
- *   non-plain-object values.
+ * - NEVER expect `override()` to merge into class instances (Date, URL, Map, Set) — BECAUSE only
+ *   plain objects are merged recursively; any other object is a leaf value that replaces or is
+ *   replaced whole.
  *
  * @example
  * import { objectify, override } from 'objectenvy';
@@ -800,14 +2516,7 @@ export function override<T extends EnviableObject>(
     } else if (Array.isArray(value) && Array.isArray(result[key])) {
       // Both are arrays - use merge strategy (preferFirst=true: config array takes precedence)
       result[key] = mergeArrays(result[key], value, arrayMergeStrategy, true);
-    } else if (
-      value &&
-      typeof value === 'object' &&
-      !Array.isArray(value) &&
-      result[key] &&
-      typeof result[key] === 'object' &&
-      !Array.isArray(result[key])
-    ) {
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
       // Recursively apply defaults for nested objects
       result[key] = override(
         value as EnviableObject,
@@ -855,9 +2564,9 @@ export function override<T extends EnviableObject>(
  * - NEVER use `'concat-unique'` to deduplicate object items if equality matters beyond JSON serialisation —
  *   BECAUSE the implementation uses `JSON.stringify` for comparison, which is order-sensitive and ignores
  *   `undefined` values, `Date` objects, and prototype methods.
- * - NEVER assume `merge()` handles non-plain objects (Map, Set, Date, class instances) correctly —
- *   BECAUSE the function checks `typeof === 'object'` and recurses, producing incorrect results for
- *   these types.
+ * - NEVER expect `merge()` to merge into class instances (Date, URL, Map, Set) — BECAUSE only plain
+ *   objects are merged recursively; any other object is a leaf value that replaces or is replaced
+ *   whole.
  *
  * @example
  * // Deep merge with obj2 winning on shared keys
@@ -899,14 +2608,7 @@ export function merge<T extends EnviableObject, U extends EnviableObject>(
     if (Array.isArray(value) && Array.isArray(result[key])) {
       // Both are arrays - use merge strategy (preferFirst=false: obj2 takes precedence)
       result[key] = mergeArrays(result[key], value, arrayMergeStrategy, false);
-    } else if (
-      value &&
-      typeof value === 'object' &&
-      !Array.isArray(value) &&
-      result[key] &&
-      typeof result[key] === 'object' &&
-      !Array.isArray(result[key])
-    ) {
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
       // Both are objects - recursively merge
       result[key] = merge(result[key] as EnviableObject, value as EnviableObject, options);
     } else {
@@ -922,14 +2624,35 @@ export function merge<T extends EnviableObject, U extends EnviableObject>(
  *
  * @remarks
  * `envy` is the inverse of `objectify`: it flattens a nested config tree by joining each key path
- * with underscores and uppercasing the result. All values are stringified — numbers and booleans
+ * with the delimiter and uppercasing the result. All values are stringified — numbers and booleans
  * become their string representations. Arrays are serialized as comma-separated strings (e.g.,
- * `['a', 'b']` → `'a,b'`). Object items inside arrays are JSON-serialized before joining.
+ * `['a', 'b']` → `'a,b'`), or as JSON with `arrayEncoding: 'json'`. Arrays that hold objects are
+ * written as indexed keys (`servers: [{ host }]` → `SERVERS_0_HOST`), the form `objectify()` reads
+ * back into arrays with a schema or `indexedArrays: true`; `arrayEncoding: 'indexed'` does the same
+ * for every array.
+ *
+ * `options` mirrors `ObjectEnvyOptions`, so the same object can be passed in both directions.
+ * `prefix` and `delimiter` are applied exactly as `objectify()` strips and splits them: nesting
+ * levels are joined with `delimiter`, words inside a key with `_`. With a Zod `schema`, only paths
+ * the schema knows are emitted, matching what validation keeps.
  *
- * The return type is `ToEnv<T>`, which preserves string literal and template literal types from the
- * config type all the way into the env record type.
+ * **Round-trip guarantee.** For the default `'comma'` encoding, `objectify(envy(x, opts), opts)`
+ * deep-equals `x` when
+ * - `x` matches a Zod `opts.schema`, or `x` was itself produced by `objectify(…, opts)` (without a
+ *   schema, nesting is re-inferred, so a config shaped by smart nesting comes back unchanged), and
+ * - every leaf survives coercion: with a schema, any non-empty value of its field's type (array
+ *   items contain no commas); without one, numbers, booleans, strings that do not look like
+ *   numbers or booleans and contain no commas, arrays of two or more such values, and arrays of
+ *   objects whose fields are such values, and
+ * - no two paths spell the same words in the same order (`log.level` and `logLevel` both map to
+ *   `LOG_LEVEL`).
+ *
+ * The return type is `ToEnv<T>` (prefixed via `WithPrefix` when `prefix` is given with the default
+ * delimiter), which preserves string literal and template literal types from the config type all
+ * the way into the env record type.
  *
  * @param config - A nested camelCased configuration object.
+ * @param options - Prefix, delimiter, array encoding and schema, mirroring `objectify()`.
  * @returns A flat `Record<string, string>` with `SCREAMING_SNAKE_CASE` keys and all values stringified.
  *
  * @useWhen
@@ -940,17 +2663,18 @@ export function merge<T extends EnviableObject, U extends EnviableObject>(
  *
  * @avoidWhen
  * - You only need the `ToEnv<T>` type at compile time — no need to call `envy()` at runtime.
- * - The config contains `Date`, `Map`, `Set`, or class instances — `envy()` serializes them as
- *   `[object Object]` via `String()`.
+ * - The config contains `Map`, `Set`, or other class instances — `envy()` serializes them via
+ *   `String()` (`[object Map]`). `Date` values are written as ISO strings, `URL` values as their
+ *   `href` and `bigint` values as digits.
  *
  * @pitfalls
- * - NEVER rely on `envy()` to round-trip arrays of objects faithfully — BECAUSE object items are
- *   `JSON.stringify`-ed then joined; when `objectify()` re-reads the comma-separated string, it
- *   treats it as a string array, not an array of objects.
+ * - NEVER nest objects inside array items without a schema when round-tripping — BECAUSE
+ *   `SERVERS_0_TLS_CERT` reads back as the flat field `tlsCert` unless the schema describes `tls`.
  * - NEVER pass `null` or `undefined` values in the config — BECAUSE `envy()` silently skips
  *   `null`/`undefined` entries, leaving no env key for them; the round-trip loses those fields.
- * - NEVER expect `envy()` to honour a prefix — BECAUSE it outputs bare `SCREAMING_SNAKE_CASE` keys
- *   with no prefix. Add the prefix yourself if your deployment expects `APP_PORT` rather than `PORT`.
+ * - NEVER expect single-element arrays to round-trip with the default encoding and no schema —
+ *   BECAUSE `'a'` carries no array marker, so `objectify()` reads it back as the scalar `'a'`. Use
+ *   `arrayEncoding: 'indexed'`, or a schema that types the field as an array.
  *
  * @example
  * import { envy } from 'objectenvy';
@@ -963,12 +2687,12 @@ export function merge<T extends EnviableObject, U extends EnviableObject>(
  * // { PORT_NUMBER: '3000', LOG_LEVEL: 'debug', LOG_PATH: '/var/log' }
  *
  * @example
- * // Round-trip: objectify → mutate → envy
+ * // Share options with objectify() for a symmetric round-trip
  * import { objectify, envy } from 'objectenvy';
- * const config = objectify({ env: process.env, prefix: 'APP' });
- * const mutated = { ...config, debug: true };
- * const newEnv = envy(mutated);
- * // spawn({ env: { ...process.env, ...newEnv } })
+ * const opts = { prefix: 'APP', delimiter: '__' };
+ * const config = objectify(opts);   // APP__LOG__LEVEL=debug APP__LOG__FILE_PATH=/var/log
+ * envy(config, opts);
+ * // { APP__LOG__LEVEL: 'debug', APP__LOG__FILE_PATH: '/var/log' }
  *
  * @example
  * // Array values are joined as comma-separated strings
@@ -976,51 +2700,99 @@ export function merge<T extends EnviableObject, U extends EnviableObject>(
  * const config = { hosts: ['localhost', 'example.com'] };
  * const env = envy(config);
  * // { HOSTS: 'localhost,example.com' }
+ * envy(config, { arrayEncoding: 'json' });
+ * // { HOSTS: '["localhost","example.com"]' }
  *
  * @category Serialization
  * @see {@link objectify} for the inverse operation (env → config)
  * @see {@link ToEnv} for the compile-time type utility
  */
-export function envy<T extends EnviableObject>(config: T): ToEnv<T> {
+export function envy<T extends EnviableObject>(config: T): ToEnv<T>;
+export function envy<T extends EnviableObject, P extends string>(
+  config: T,
+  options: EnvyOptions & { prefix: P; delimiter?: '_' }
+): WithPrefix<ToEnv<T>, P>;
+export function envy<T extends EnviableObject>(
+  config: T,
+  options?: EnvyOptions
+): Record<string, string>;
+export function envy<T extends EnviableObject>(
+  config: T,
+  options: EnvyOptions = {}
+): Record<string, string> {
+  const { prefix, delimiter = '_', nestingDelimiter, arrayEncoding = 'comma', schema } = options;
+  const separator = options.coercion?.separator ?? ',';
   const env: Record<string, string> = {};
+  const isSensitive = sensitivePredicateFor(config);
+  const sensitiveKeys = new Set<string>();
+
+  // Validators drop keys their schema does not know, so only emit the paths objectify() would keep
+  const shape =
+    schema && ('_def' in schema || isStandardSchema(schema) || isJsonSchema(schema))
+      ? pathSchema(schema, options.schemaAdapters)
+      : undefined;
+  const schemaPaths = shape
+    ? new Set(
+        extractSchemaPaths(shape)
+          .filter((sp) => !sp.branch)
+          .map((sp) => sp.pathKey)
+      )
+    : undefined;
+
+  function emit(path: Array<string | number>, value: string): void {
+    if (
+      schemaPaths &&
+      !path.some((_, index) => schemaPaths.has(path.slice(0, index + 1).join('.')))
+    ) {
+      return;
+    }
+    const key = toEnvKey(path, prefix, nestingDelimiter ?? delimiter);
+    env[key] = value;
+    if (isSensitive?.(path)) sensitiveKeys.add(key);
+  }
 
-  function flatten(obj: EnviableValue, prefix = ''): void {
+  function flatten(obj: EnviableValue, path: Array<string | number> = []): void {
     if (obj === null || obj === undefined) {
       return;
     }
 
     if (Array.isArray(obj)) {
-      // Convert arrays to comma-separated strings
-      const stringValue = obj
-        .map((item) => {
-          if (typeof item === 'object') {
-            return JSON.stringify(item);
-          }
-          return String(item);
-        })
-        .join(',');
-      if (prefix) {
-        env[prefix] = stringValue;
+      if (path.length === 0) return;
+      if (arrayEncoding === 'json') {
+        emit(
+          path,
+          JSON.stringify(obj, (_key, item: unknown) =>
+            typeof item === 'bigint' ? item.toString() : item
+          )
+        );
+        return;
+      }
+      // Arrays holding objects (or every array, when asked) become indexed keys: SERVERS_0_HOST
+      if (arrayEncoding === 'indexed' || obj.some((item) => isPlainObject(item))) {
+        obj.forEach((item, index) => flatten(item, [...path, index]));
+        return;
       }
+      // Convert arrays to comma-separated strings
+      emit(path, obj.map((item) => toEnvValue(item)).join(separator));
       return;
     }
 
-    if (typeof obj === 'object') {
-      // Handle nested objects
+    if (isPlainObject(obj)) {
+      // Handle nested objects; a value kept by `conflicts: 'value-key'` goes back to its parent's key
       for (const [key, value] of Object.entries(obj)) {
-        const screaming = toSnakeCase(key);
-        const newPrefix = prefix ? `${prefix}_${screaming}` : screaming;
-        flatten(value, newPrefix);
+        flatten(value, key === VALUE_KEY && path.length > 0 ? path : [...path, key]);
       }
       return;
     }
 
     // Handle primitives
-    if (prefix) {
-      env[prefix] = String(obj);
+    if (path.length > 0) {
+      emit(path, toEnvValue(obj));
     }
   }
 
   flatten(config);
-  return env as ToEnv<T>;
+  // Carry the config's sensitive paths over to the env keys so redact(envy(config)) masks them
+  if (isSensitive) markSensitive(env, ([key]) => sensitiveKeys.has(String(key)));
+  return env;
 }
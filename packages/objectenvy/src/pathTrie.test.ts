@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createPathTrie } from './pathTrie.js';
+
+describe('createPathTrie', () => {
+  it('groups words into the fields of a path', () => {
+    const trie = createPathTrie(['portNumber', 'log.level', 'database.maxPoolSize']);
+    expect(trie.match(['port', 'number'])).toEqual(['portNumber']);
+    expect(trie.match(['log', 'level'])).toEqual(['log', 'level']);
+    expect(trie.match(['database', 'max', 'pool', 'size'])).toEqual(['database', 'maxPoolSize']);
+  });
+
+  it('returns null when no path matches', () => {
+    const trie = createPathTrie(['log.level']);
+    expect(trie.match(['log'])).toBeNull();
+    expect(trie.match(['log', 'level', 'name'])).toBeNull();
+    expect(trie.match(['level'])).toBeNull();
+    expect(trie.match([])).toBeNull();
+  });
+
+  it('prefers the longest trailing field when several paths match', () => {
+    const trie = createPathTrie(['a.b.c', 'a.bC', 'aB.c']);
+    expect(trie.match(['a', 'b', 'c'])).toEqual(['a', 'bC']);
+    expect(createPathTrie(['a.b.c', 'aB.c']).match(['a', 'b', 'c'])).toEqual(['aB', 'c']);
+  });
+
+  it('backtracks when a longer trailing field leads nowhere', () => {
+    const trie = createPathTrie(['x.a.bC', 'a.b.c']);
+    expect(trie.match(['a', 'b', 'c'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps structural words one field each', () => {
+    const trie = createPathTrie(['portNumber', 'port.number']);
+    expect(trie.match(['port', 'number'], true)).toEqual(['port', 'number']);
+    expect(createPathTrie(['portNumber']).match(['port', 'number'], true)).toBeNull();
+  });
+
+  it('matches keys with many words without enumerating groupings', () => {
+    const words = Array.from({ length: 60 }, (_, index) => `w${index}`);
+    const path = words.slice(0, 59).join('.') + '.w59';
+    const trie = createPathTrie([path, `${words.slice(0, 58).join('.')}.w58W59`]);
+    expect(trie.match(words)).toEqual([...words.slice(0, 58), 'w58W59']);
+    expect(trie.match([...words, 'x'])).toBeNull();
+  });
+});
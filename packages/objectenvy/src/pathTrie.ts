@@ -0,0 +1,87 @@
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** A full path ends here */
+  terminal: boolean;
+}
+
+/**
+ * Matches env key words against a fixed set of dot-joined config paths
+ */
+export interface PathTrie {
+  /**
+   * The path whose fields spell out `words` (one per key segment, already camelCased), grouping
+   * consecutive words into one camelCase field where the path needs it: `['port', 'number']`
+   * matches `portNumber` or `port.number`. When several paths match, the one grouping the most
+   * words at the end of the key wins (`portNumber` over `port.number`). `structural` words are
+   * one field each. Returns null when no path matches.
+   */
+  match(words: string[], structural?: boolean): string[] | null;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Build a trie over `pathKeys` (`'log.level'`), stored last field first so matching can walk a key
+ * from its end and try longer trailing groups first. Matching costs at most one step per
+ * (position, trie node) pair, however many ways a key's words could be grouped.
+ */
+export function createPathTrie(pathKeys: Iterable<string>): PathTrie {
+  const root: TrieNode = { children: new Map(), terminal: false };
+  // No group longer than the longest field can match, which bounds the groups tried per word
+  let longestField = 0;
+  for (const pathKey of pathKeys) {
+    let node = root;
+    for (const field of pathKey.split('.').reverse()) {
+      longestField = Math.max(longestField, field.length);
+      let child = node.children.get(field);
+      if (!child) {
+        child = { children: new Map(), terminal: false };
+        node.children.set(field, child);
+      }
+      node = child;
+    }
+    node.terminal = true;
+  }
+
+  return {
+    match(words, structural = false) {
+      if (words.length === 0) return null;
+      // (end, node) states known not to lead to a match
+      const dead = new Map<TrieNode, Set<number>>();
+
+      // Match words[0, end) against the path fields above `node`, returning them in key order
+      const matchBefore = (end: number, node: TrieNode): string[] | null => {
+        if (dead.get(node)?.has(end)) return null;
+        // Groups ending at `end`, shortest first: fields[k] covers words[end - 1 - k, end)
+        const fields = [words[end - 1]!];
+        if (!structural) {
+          for (let start = end - 2; start >= 0; start--) {
+            const field = words[start]! + capitalize(fields.at(-1)!);
+            if (field.length > longestField) break;
+            fields.push(field);
+          }
+        }
+        for (let k = fields.length - 1; k >= 0; k--) {
+          const field = fields[k]!;
+          const start = end - 1 - k;
+          const child = node.children.get(field);
+          if (!child) continue;
+          if (start === 0) {
+            if (child.terminal) return [field];
+            continue;
+          }
+          const rest = matchBefore(start, child);
+          if (rest) return [...rest, field];
+        }
+        const ends = dead.get(node) ?? new Set<number>();
+        ends.add(end);
+        dead.set(node, ends);
+        return null;
+      };
+
+      return matchBefore(words.length, root);
+    }
+  };
+}
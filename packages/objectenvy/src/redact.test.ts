@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { redact, isSensitiveSchema, sensitivePatternMatcher, REDACTED } from './redact.js';
+
+describe('sensitivePatternMatcher', () => {
+  const matches = sensitivePatternMatcher();
+
+  it('flags common secret names by default', () => {
+    expect(matches(['database', 'password'])).toBe(true);
+    expect(matches(['githubToken'])).toBe(true);
+    expect(matches(['STRIPE_API_KEY'])).toBe(true);
+    expect(matches(['clientSecretId'])).toBe(true);
+  });
+
+  it('leaves ordinary names alone', () => {
+    expect(matches(['database', 'host'])).toBe(false);
+    expect(matches(['TOKENIZER_MODEL'])).toBe(false);
+    expect(matches(['keyboard', 'layout'])).toBe(false);
+  });
+
+  it('matches dotted patterns against trailing path segments and env keys', () => {
+    const custom = sensitivePatternMatcher(['database.url']);
+    expect(custom(['database', 'url'])).toBe(true);
+    expect(custom(['app', 'database', 'url'])).toBe(true);
+    expect(custom(['APP_DATABASE_URL'])).toBe(true);
+    expect(custom(['databaseUrl'])).toBe(true);
+    expect(custom(['url'])).toBe(false);
+  });
+
+  it('supports wildcards and ignores case', () => {
+    const custom = sensitivePatternMatcher(['*Token']);
+    expect(custom(['auth', 'refreshToken'])).toBe(true);
+    expect(custom(['SESSION_TOKEN'])).toBe(true);
+    expect(custom(['tokenCount'])).toBe(false);
+  });
+
+  it('matches nothing with an empty pattern list', () => {
+    expect(sensitivePatternMatcher([])(['password'])).toBe(false);
+  });
+});
+
+describe('isSensitiveSchema', () => {
+  it('detects .meta({ sensitive: true })', () => {
+    expect(isSensitiveSchema(z.string().meta({ sensitive: true }))).toBe(true);
+    expect(isSensitiveSchema(z.string().meta({ sensitive: false }))).toBe(false);
+  });
+
+  it('detects a sensitive description', () => {
+    expect(isSensitiveSchema(z.string().describe('sensitive'))).toBe(true);
+    expect(isSensitiveSchema(z.string().describe('Signing key @sensitive'))).toBe(true);
+    expect(isSensitiveSchema(z.string().describe('Public hostname'))).toBe(false);
+  });
+
+  it('looks through optional and default wrappers', () => {
+    expect(isSensitiveSchema(z.string().describe('sensitive').optional())).toBe(true);
+    expect(isSensitiveSchema(z.string().meta({ sensitive: true }).default('x'))).toBe(true);
+  });
+
+  it('ignores untagged and non-schema values', () => {
+    expect(isSensitiveSchema(z.string())).toBe(false);
+    expect(isSensitiveSchema(undefined)).toBe(false);
+    expect(isSensitiveSchema('sensitive')).toBe(false);
+  });
+});
+
+describe('redact', () => {
+  it('masks values by the default heuristic', () => {
+    const config = { port: 3000, database: { host: 'db', password: 'hunter2' }, apiKey: 'k' };
+    expect(redact(config)).toEqual({
+      port: 3000,
+      database: { host: 'db', password: REDACTED },
+      apiKey: REDACTED
+    });
+  });
+
+  it('does not modify the input', () => {
+    const config = { password: 'hunter2' };
+    redact(config);
+    expect(config.password).toBe('hunter2');
+  });
+
+  it('masks flat env records', () => {
+    expect(redact({ DATABASE_HOST: 'db', DATABASE_PASSWORD: 'hunter2' })).toEqual({
+      DATABASE_HOST: 'db',
+      DATABASE_PASSWORD: REDACTED
+    });
+  });
+
+  it('masks a sensitive subtree as a whole', () => {
+    const config = { credentials: { user: 'admin', pass: 'x' }, tokens: ['a'] };
+    expect(redact(config, { sensitive: ['credentials', 'tokens'] })).toEqual({
+      credentials: REDACTED,
+      tokens: REDACTED
+    });
+  });
+
+  it('accepts a custom mask', () => {
+    expect(redact({ secret: 'x' }, { mask: '***' })).toEqual({ secret: '***' });
+  });
+
+  it('leaves primitives unchanged', () => {
+    expect(redact('password')).toBe('password');
+    expect(redact(42)).toBe(42);
+  });
+});
@@ -0,0 +1,228 @@
+import { isPlainObject, pathPatternMatcher } from './utils.js';
+
+/**
+ * Placeholder that replaces sensitive values in redacted output.
+ *
+ * @category Redaction
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Key patterns treated as sensitive when no `sensitive` option is given.
+ *
+ * @remarks
+ * Patterns are matched case-insensitively against config paths and env keys, ignoring `.` and `_`
+ * separators, so `'*apiKey'` matches `apiKey`, `stripe.apiKey` and `STRIPE_API_KEY`. Extend the
+ * heuristic without repeating the defaults:
+ * ```ts
+ * objectify({ sensitive: [...defaultSensitivePatterns, 'database.url'] });
+ * ```
+ *
+ * @category Redaction
+ */
+export const defaultSensitivePatterns: string[] = [
+  '*password*',
+  '*passwd*',
+  '*secret*',
+  '*token',
+  '*apiKey',
+  '*privateKey',
+  '*credentials',
+  '*passphrase'
+];
+
+/**
+ * Options for {@link redact}.
+ *
+ * @config
+ * @category Redaction
+ */
+export interface RedactOptions {
+  /**
+   * Path or key patterns to mask. Overrides the paths recorded by `objectify()` / `envy()`.
+   * @default defaultSensitivePatterns
+   */
+  sensitive?: string[];
+
+  /**
+   * Replacement for sensitive values.
+   * @default '[REDACTED]'
+   */
+  mask?: string;
+}
+
+/**
+ * Decides whether the value at a path is sensitive. Paths are config keys (`['database', 'password']`)
+ * or a single env key (`['DATABASE_PASSWORD']`).
+ */
+export type SensitivePredicate = (path: ReadonlyArray<string | number>) => boolean;
+
+interface Registration {
+  predicate: SensitivePredicate;
+  base: Array<string | number>;
+}
+
+// Objects produced by objectify()/envy() remember which of their paths are sensitive, so
+// redact(config) can mask schema-tagged paths without being told about them again.
+const registry = new WeakMap<object, Registration>();
+
+/**
+ * Build a predicate that matches a path when any pattern matches one of its trailing segment runs,
+ * so `'database.password'` matches `app.database.password` and `APP_DATABASE_PASSWORD` alike.
+ */
+export function sensitivePatternMatcher(
+  patterns: string[] = defaultSensitivePatterns
+): SensitivePredicate {
+  return pathPatternMatcher(patterns);
+}
+
+/**
+ * Whether a schema node is tagged as sensitive via `.meta({ sensitive: true })` (Zod v4) or a
+ * description of `'sensitive'` / containing `@sensitive` (`.describe()`, Zod v3 and v4). Tags on
+ * schemas wrapped by optional/default/nullable are found too.
+ */
+export function isSensitiveSchema(schema: unknown): boolean {
+  if (!schema || typeof schema !== 'object') return false;
+  const node = schema as {
+    description?: unknown;
+    meta?: unknown;
+    _def?: Record<string, unknown>;
+  };
+
+  if (typeof node.meta === 'function') {
+    const meta: unknown = (node.meta as () => unknown).call(schema);
+    if (
+      meta &&
+      typeof meta === 'object' &&
+      (meta as Record<string, unknown>)['sensitive'] === true
+    ) {
+      return true;
+    }
+  }
+
+  const description = node.description ?? node._def?.['description'];
+  if (typeof description === 'string') {
+    if (description.trim().toLowerCase() === 'sensitive' || description.includes('@sensitive')) {
+      return true;
+    }
+  }
+
+  // A tag on the wrapped schema counts too: z.string().describe('sensitive').optional()
+  return isSensitiveSchema(node._def?.['innerType']);
+}
+
+/**
+ * Remember which paths of `value` (and every nested object) are sensitive
+ */
+export function markSensitive(
+  value: unknown,
+  predicate: SensitivePredicate,
+  base: Array<string | number> = []
+): void {
+  if (!isPlainObject(value) && !Array.isArray(value)) return;
+  registry.set(value, { predicate, base });
+  for (const [key, child] of Object.entries(value)) {
+    markSensitive(child, predicate, [...base, Array.isArray(value) ? Number(key) : key]);
+  }
+}
+
+/**
+ * The predicate recorded for `value` by {@link markSensitive}, rebased to `value`'s own paths
+ */
+export function sensitivePredicateFor(value: unknown): SensitivePredicate | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const registration = registry.get(value);
+  if (!registration) return undefined;
+  const { predicate, base } = registration;
+  return base.length === 0 ? predicate : (path) => predicate([...base, ...path]);
+}
+
+function redactWith(
+  value: unknown,
+  predicate: SensitivePredicate,
+  mask: string,
+  path: Array<string | number>
+): unknown {
+  if (path.length > 0 && predicate(path)) return mask;
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactWith(item, predicate, mask, [...path, index]));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = redactWith(child, predicate, mask, [...path, key]);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Return a deep copy of a config object or env record with sensitive values masked.
+ *
+ * @remarks
+ * Objects returned by `objectify()` and `envy()` remember which paths were marked sensitive (by
+ * schema tag, the `sensitive` option or the default name heuristic), so `redact(config)` needs no
+ * options. Any other object is checked against {@link defaultSensitivePatterns}. A sensitive path
+ * that holds an object or array is masked as a whole.
+ *
+ * @param value - A config object, a nested part of one, or a flat env record.
+ * @param options - Patterns that override the recorded paths, and the mask to use.
+ * @returns A plain copy that is safe to log or serialise.
+ *
+ * @example
+ * import { objectify, redact } from 'objectenvy';
+ * const config = objectify({ prefix: 'APP' });
+ * console.log(redact(config));
+ * // { port: 3000, database: { host: 'db', password: '[REDACTED]' } }
+ *
+ * @example
+ * redact(envy(config));
+ * // { PORT: '3000', DATABASE_HOST: 'db', DATABASE_PASSWORD: '[REDACTED]' }
+ *
+ * @category Redaction
+ */
+export function redact<T>(value: T, options: RedactOptions = {}): T {
+  const predicate = options.sensitive
+    ? sensitivePatternMatcher(options.sensitive)
+    : (sensitivePredicateFor(value) ?? sensitivePatternMatcher());
+  return redactWith(value, predicate, options.mask ?? REDACTED, []) as T;
+}
+
+/**
+ * A copy of `value` with bigints as decimal strings, which `JSON.stringify()` would throw on
+ */
+function jsonSafe(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(jsonSafe);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, jsonSafe(child)]));
+  }
+  return value;
+}
+
+/**
+ * Attach non-enumerable `toJSON` and `util.inspect` hooks to `value` and every nested object, so
+ * `JSON.stringify()` and `console.log()` print the redacted form. Property access is unchanged.
+ * `JSON.stringify()` writes bigints as strings.
+ */
+export function protectSensitive(value: unknown, predicate: SensitivePredicate): void {
+  if (!value || typeof value !== 'object') return;
+  markSensitive(value, predicate);
+  const attach = (node: unknown): void => {
+    // Dates and URLs keep their own toJSON
+    if (!isPlainObject(node) && !Array.isArray(node)) return;
+    const render = () => redact(node);
+    Object.defineProperty(node, 'toJSON', { value: () => jsonSafe(render()), configurable: true });
+    Object.defineProperty(node, Symbol.for('nodejs.util.inspect.custom'), {
+      value: (
+        _depth: number,
+        options: object,
+        inspect: (value: unknown, options: object) => string
+      ) => inspect(render(), options),
+      configurable: true
+    });
+    for (const child of Object.values(node)) attach(child);
+  };
+  attach(value);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SecretResolutionError, resolveSecretReferences } from './resolvers.js';
+
+describe('resolveSecretReferences', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-secrets-'));
+    writeFileSync(join(dir, 'db'), 'hunter2\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads _FILE variables into the variable they name', async () => {
+    const env = { DB_PASSWORD_FILE: join(dir, 'db'), PORT: '80' };
+    const result = await resolveSecretReferences(env, Object.keys(env));
+    expect(result.env).toEqual({ DB_PASSWORD: 'hunter2', PORT: '80' });
+    expect([...result.resolvedKeys]).toEqual(['DB_PASSWORD']);
+  });
+
+  it('reads file: references, relative to cwd, and file:// URLs', async () => {
+    const env = { A: 'file:db', B: pathToFileURL(join(dir, 'db')).href };
+    const result = await resolveSecretReferences(env, Object.keys(env), {}, dir);
+    expect(result.env).toEqual({ A: 'hunter2', B: 'hunter2' });
+  });
+
+  it('passes references to resolvers by scheme and leaves other values alone', async () => {
+    const env = { TOKEN: 'secret://vault/api', HOME_PAGE: 'https://example.com' };
+    const result = await resolveSecretReferences(env, Object.keys(env), {
+      secret: async (ref) => `resolved ${ref}`
+    });
+    expect(result.env).toEqual({
+      TOKEN: 'resolved secret://vault/api',
+      HOME_PAGE: 'https://example.com'
+    });
+  });
+
+  it('only resolves the given keys', async () => {
+    const env = { APP_KEY: 'file:db', OTHER: 'file:db' };
+    const result = await resolveSecretReferences(env, ['APP_KEY'], {}, dir);
+    expect(result.env).toEqual({ APP_KEY: 'hunter2', OTHER: 'file:db' });
+  });
+
+  it('names the variable when a reference cannot be resolved', async () => {
+    const missing = resolveSecretReferences({ KEY_FILE: join(dir, 'nope') }, ['KEY_FILE']);
+    await expect(missing).rejects.toBeInstanceOf(SecretResolutionError);
+    await expect(missing).rejects.toMatchObject({ key: 'KEY_FILE' });
+
+    const failing = resolveSecretReferences({ TOKEN: 'secret://x' }, ['TOKEN'], {
+      secret: () => Promise.reject(new Error('denied'))
+    });
+    await expect(failing).rejects.toThrow('Cannot resolve TOKEN: denied');
+  });
+
+  it('rejects a variable set alongside its _FILE counterpart', async () => {
+    const env = { DB_PASSWORD: 'x', DB_PASSWORD_FILE: join(dir, 'db') };
+    await expect(resolveSecretReferences(env, Object.keys(env))).rejects.toThrow(
+      'Both DB_PASSWORD and DB_PASSWORD_FILE are set; set only one'
+    );
+  });
+});
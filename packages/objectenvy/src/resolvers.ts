@@ -0,0 +1,141 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Resolves a secret reference to its value. Receives the whole env value, scheme included
+ * (`'secret://vault/db/password'`).
+ *
+ * @category Parsing
+ */
+export type SecretResolver = (ref: string) => Promise<string>;
+
+/**
+ * Error thrown by `objectifyAsync()` when a secret reference cannot be resolved, or when both a
+ * variable and its `_FILE` counterpart are set.
+ *
+ * @remarks
+ * `key` is the env variable holding the reference (`DB_PASSWORD_FILE`, `API_TOKEN`) and `ref` the
+ * reference itself. The resolver's error, if any, is preserved as `cause`.
+ *
+ * @example
+ * import { objectifyAsync, SecretResolutionError } from 'objectenvy';
+ * try {
+ *   await objectifyAsync({ prefix: 'APP' });
+ * } catch (error) {
+ *   if (error instanceof SecretResolutionError) console.error(`${error.key}: ${error.message}`);
+ * }
+ *
+ * @category Parsing
+ */
+export class SecretResolutionError extends Error {
+  constructor(
+    message: string,
+    public key: string,
+    public ref: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'SecretResolutionError';
+  }
+}
+
+/** Suffix naming a variable whose value is read from a file (`DB_PASSWORD_FILE`) */
+const fileSuffix = '_FILE';
+
+const schemePattern = /^([a-z][a-z0-9+.-]*):/i;
+
+/**
+ * Read a secret file, dropping the trailing newline editors and `echo` leave behind
+ */
+async function readSecretFile(path: string, cwd: string): Promise<string> {
+  const content = await readFile(resolve(cwd, path), 'utf8');
+  return content.replace(/\r?\n$/, '');
+}
+
+/**
+ * Resolve the secret references among `keys`: `X_FILE` variables become `X` with the file's
+ * contents, and values whose scheme has a resolver (`file:` built in) are replaced by what it
+ * returns. References resolve concurrently.
+ *
+ * Files are only read for variables `readsFile` allows, given the variable that gets the contents
+ * (`X`) and the one holding the reference (`X_FILE`, or `X` itself for `file:`). Others are left
+ * as they are. A `file` resolver passed in `resolvers` applies to every key, like any other.
+ *
+ * @returns The env with references replaced and `_FILE` variables removed, and the keys whose
+ *   values came from a resolver.
+ */
+export async function resolveSecretReferences(
+  env: Record<string, string | undefined>,
+  keys: string[],
+  resolvers: Record<string, SecretResolver> = {},
+  cwd = process.cwd(),
+  readsFile: (target: string, source: string) => boolean = () => true
+): Promise<{ env: Record<string, string | undefined>; resolvedKeys: Set<string> }> {
+  const fileResolver: SecretResolver = (ref) => {
+    const path = ref.startsWith('file://') ? fileURLToPath(ref) : ref.slice('file:'.length);
+    return readSecretFile(path, cwd);
+  };
+  const schemes: Record<string, SecretResolver> = { file: fileResolver };
+  for (const [scheme, resolver] of Object.entries(resolvers)) {
+    schemes[scheme.toLowerCase()] = resolver;
+  }
+
+  // Find every reference first, so a conflict fails before any file is read
+  const references: Array<{ key: string; source: string; ref: string; resolver: SecretResolver }> =
+    [];
+  for (const key of keys) {
+    const value = env[key];
+    if (value === undefined || value === '') continue;
+
+    const target = key.endsWith(fileSuffix) ? key.slice(0, -fileSuffix.length) : '';
+    if (target !== '' && readsFile(target, key)) {
+      if (env[target] !== undefined && env[target] !== '') {
+        throw new SecretResolutionError(
+          `Both ${target} and ${key} are set; set only one`,
+          key,
+          value
+        );
+      }
+      references.push({
+        key: target,
+        source: key,
+        ref: value,
+        resolver: (path) => readSecretFile(path, cwd)
+      });
+      continue;
+    }
+
+    const scheme = schemePattern.exec(value)?.[1]?.toLowerCase();
+    const resolver = scheme === undefined ? undefined : schemes[scheme];
+    if (resolver === fileResolver && !readsFile(key, key)) continue;
+    if (resolver) references.push({ key, source: key, ref: value, resolver });
+  }
+
+  const result = { ...env };
+  const resolvedKeys = new Set<string>();
+  const pending = references.map(async ({ key, source, ref, resolver }) => {
+    let resolved: unknown;
+    try {
+      resolved = await resolver(ref);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SecretResolutionError(`Cannot resolve ${source}: ${reason}`, source, ref, {
+        cause: error
+      });
+    }
+    if (typeof resolved !== 'string') {
+      throw new SecretResolutionError(
+        `Resolver for ${source} returned ${typeof resolved}, not a string`,
+        source,
+        ref
+      );
+    }
+    if (source !== key) delete result[source];
+    result[key] = resolved;
+    resolvedKeys.add(key);
+  });
+
+  await Promise.all(pending);
+  return { env: result, resolvedKeys };
+}
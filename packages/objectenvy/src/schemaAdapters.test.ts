@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import * as v from 'valibot';
+import { type } from 'arktype';
+import { Schema } from 'effect';
+import { builtinSchemaAdapters, describeSchema } from './schemaAdapters.js';
+import type { SchemaDescription } from './schemaAdapters.js';
+import { objectify, objectifyAsync, safeObjectify } from './objectEnvy.js';
+import { redact, REDACTED } from './redact.js';
+
+// Schemas in the adapter blocks are shaped like each library's own objects, reduced to the fields
+// adapters read; the last block uses the libraries themselves
+
+const standard = (vendor: string) => ({
+  version: 1 as const,
+  vendor,
+  validate: (value: unknown) => ({ value })
+});
+
+const adapter = (vendor: string) => builtinSchemaAdapters.find((a) => a.vendor === vendor)!;
+
+describe('describeSchema', () => {
+  it('picks the adapter by vendor, given adapters first', () => {
+    const custom = { _def: { type: 'string' } } as SchemaDescription;
+    const schema = { type: 'string', '~standard': standard('valibot') };
+    expect(describeSchema(schema)).toEqual({ _def: { type: 'string' } });
+    expect(describeSchema(schema, [{ vendor: 'valibot', describe: () => custom }])).toBe(custom);
+  });
+
+  it('returns undefined for unknown vendors and non-schemas', () => {
+    expect(describeSchema({ '~standard': standard('acme') })).toBeUndefined();
+    expect(describeSchema({ port: 0 })).toBeUndefined();
+  });
+});
+
+describe('valibot adapter', () => {
+  const { describe: describeValibot } = adapter('valibot');
+
+  it('describes objects, wrappers, arrays, records and unions', () => {
+    const schema = {
+      type: 'object',
+      entries: {
+        port: { type: 'optional', wrapped: { type: 'number' } },
+        hosts: { type: 'array', item: { type: 'string' } },
+        labels: { type: 'record', key: { type: 'string' }, value: { type: 'string' } },
+        level: { type: 'picklist', options: ['debug', 'info'] },
+        storage: {
+          type: 'variant',
+          key: 'driver',
+          options: [
+            { type: 'object', entries: { driver: { type: 'literal', literal: 's3' } } },
+            { type: 'object', entries: { driver: { type: 'literal', literal: 'fs' } } }
+          ]
+        }
+      }
+    };
+    expect(describeValibot(schema)).toEqual({
+      _def: {
+        type: 'object',
+        shape: {
+          port: { _def: { type: 'optional', innerType: { _def: { type: 'number' } } } },
+          hosts: { _def: { type: 'array', element: { _def: { type: 'string' } } } },
+          labels: { _def: { type: 'record', valueType: { _def: { type: 'string' } } } },
+          level: { _def: { type: 'literal', values: ['debug', 'info'] } },
+          storage: {
+            _def: {
+              type: 'union',
+              options: [
+                {
+                  _def: {
+                    type: 'object',
+                    shape: { driver: { _def: { type: 'literal', values: ['s3'] } } }
+                  }
+                },
+                {
+                  _def: {
+                    type: 'object',
+                    shape: { driver: { _def: { type: 'literal', values: ['fs'] } } }
+                  }
+                }
+              ]
+            }
+          }
+        }
+      }
+    });
+  });
+
+  it('reads description and metadata actions from pipes', () => {
+    const described = describeValibot({
+      type: 'string',
+      pipe: [
+        { type: 'string' },
+        { type: 'description', description: 'Timeout @coerce duration' },
+        { type: 'metadata', metadata: { sensitive: true } }
+      ]
+    })!;
+    expect(described.description).toBe('Timeout @coerce duration');
+    expect(described.meta?.()).toEqual({ sensitive: true });
+  });
+});
+
+describe('arktype adapter', () => {
+  const { describe: describeArk } = adapter('arktype');
+
+  it('describes the serialized type', () => {
+    const json = {
+      domain: 'object',
+      required: [
+        { key: 'port', value: { domain: 'number', divisor: 1 } },
+        { key: 'debug', value: [{ unit: false }, { unit: true }] },
+        { key: 'hosts', value: { proto: 'Array', sequence: 'string' } }
+      ],
+      optional: [{ key: 'name', value: ['string', { unit: null }] }]
+    };
+    expect(describeArk(Object.assign(() => {}, { json }))).toEqual({
+      _def: {
+        type: 'object',
+        shape: {
+          port: { _def: { type: 'number' } },
+          debug: { _def: { type: 'literal', values: [false, true] } },
+          hosts: { _def: { type: 'array', element: { _def: { type: 'string' } } } },
+          name: { _def: { type: 'optional', innerType: { _def: { type: 'string' } } } }
+        }
+      }
+    });
+  });
+
+  it('describes index signatures as records and morphs by their input', () => {
+    expect(
+      describeArk({ json: { domain: 'object', index: [{ signature: 'string', value: 'number' }] } })
+    ).toEqual({ _def: { type: 'record', valueType: { _def: { type: 'number' } } } });
+    expect(describeArk({ json: { in: 'string', morphs: [] } })).toEqual({
+      _def: { type: 'string' }
+    });
+  });
+});
+
+describe('effect adapter', () => {
+  const { describe: describeEffect } = adapter('effect');
+  const keyword = (tag: string) => ({ _tag: tag });
+
+  it('describes Effect 3 type literals, optional and nullable properties, arrays and transforms', () => {
+    const ast = {
+      _tag: 'TypeLiteral',
+      propertySignatures: [
+        { name: 'port', type: keyword('NumberKeyword'), isOptional: false },
+        {
+          name: 'name',
+          type: { _tag: 'Union', types: [keyword('StringKeyword'), keyword('UndefinedKeyword')] },
+          isOptional: true
+        },
+        {
+          name: 'hosts',
+          type: { _tag: 'TupleType', elements: [], rest: [{ type: keyword('StringKeyword') }] },
+          isOptional: false
+        },
+        {
+          name: 'startedAt',
+          type: { _tag: 'Transformation', from: keyword('StringKeyword') },
+          isOptional: false
+        }
+      ],
+      indexSignatures: []
+    };
+    expect(describeEffect({ ast })).toEqual({
+      _def: {
+        type: 'object',
+        shape: {
+          port: { _def: { type: 'number' } },
+          name: { _def: { type: 'optional', innerType: { _def: { type: 'string' } } } },
+          hosts: { _def: { type: 'array', element: { _def: { type: 'string' } } } },
+          startedAt: { _def: { type: 'string' } }
+        }
+      }
+    });
+  });
+
+  it('reads description annotations', () => {
+    const described = describeEffect({
+      ast: {
+        _tag: 'Refinement',
+        from: keyword('StringKeyword'),
+        annotations: { [Symbol.for('effect/annotation/Description')]: '@sensitive' }
+      }
+    });
+    expect(described).toEqual({ _def: { type: 'string' }, description: '@sensitive' });
+  });
+
+  it('describes Effect 4 objects, optional properties, arrays and encodings', () => {
+    const ast = {
+      _tag: 'Objects',
+      propertySignatures: [
+        { name: 'port', type: keyword('Number') },
+        {
+          name: 'name',
+          type: {
+            _tag: 'Union',
+            types: [keyword('String'), keyword('Undefined')],
+            context: { isOptional: true }
+          }
+        },
+        { name: 'hosts', type: { _tag: 'Arrays', elements: [], rest: [keyword('String')] } },
+        {
+          name: 'retries',
+          type: { _tag: 'Number', encoding: [{ to: keyword('String') }] }
+        },
+        {
+          name: 'apiKey',
+          type: { _tag: 'String', annotations: { description: '@sensitive' } }
+        }
+      ],
+      indexSignatures: []
+    };
+    expect(describeEffect({ ast })).toEqual({
+      _def: {
+        type: 'object',
+        shape: {
+          port: { _def: { type: 'number' } },
+          name: { _def: { type: 'optional', innerType: { _def: { type: 'string' } } } },
+          hosts: { _def: { type: 'array', element: { _def: { type: 'string' } } } },
+          retries: { _def: { type: 'string' } },
+          apiKey: { _def: { type: 'string' }, description: '@sensitive' }
+        }
+      }
+    });
+  });
+});
+
+describe('library schemas', () => {
+  const env = {
+    APP_PORT: '8080',
+    APP_ZIP_CODE: '02134',
+    APP_DB_HOST: 'db',
+    APP_DB_PORT: '5432',
+    APP_TAGS: 'a,b',
+    APP_API_KEY: 'secret'
+  };
+  const expected = {
+    port: 8080,
+    zipCode: '02134',
+    db: { host: 'db', port: 5432 },
+    tags: ['a', 'b'],
+    apiKey: 'secret'
+  };
+  const masked = { ...expected, apiKey: REDACTED };
+
+  it('maps and converts Valibot schemas', () => {
+    const schema = v.object({
+      port: v.number(),
+      zipCode: v.string(),
+      db: v.object({ host: v.string(), port: v.number() }),
+      tags: v.array(v.string()),
+      debug: v.optional(v.boolean()),
+      apiKey: v.pipe(v.string(), v.metadata({ sensitive: true }))
+    });
+    const config = objectify({ env, prefix: 'APP', schema });
+    expect(config).toEqual(expected);
+    expect(redact(config)).toEqual(masked);
+  });
+
+  it('keeps sensitive values out of Valibot messages', () => {
+    const schema = v.object({ database: v.object({ password: v.picklist(['a', 'b']) }) });
+    const result = safeObjectify({
+      env: { APP_DATABASE_PASSWORD: 'hunter2' },
+      prefix: 'APP',
+      schema
+    });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.message).not.toContain('hunter2');
+    expect(!result.success && result.error.issues[0]).toMatchObject({
+      envKey: 'APP_DATABASE_PASSWORD',
+      rawValue: REDACTED,
+      message: `Invalid type: Expected ("a" | "b") but received "${REDACTED}"`
+    });
+    expect(!result.success && result.error.cause).toBeUndefined();
+  });
+
+  it('awaits Valibot async checks in objectifyAsync', async () => {
+    const schema = v.objectAsync({
+      port: v.pipeAsync(
+        v.number(),
+        v.checkAsync(async (port) => port !== 81, 'Port in use')
+      )
+    });
+    expect(() => objectify({ env: { PORT: '80' }, schema })).toThrow(/use objectifyAsync/);
+    expect(await objectifyAsync({ env: { PORT: '80' }, schema })).toEqual({ port: 80 });
+    await expect(objectifyAsync({ env: { PORT: '81' }, schema })).rejects.toThrow(
+      'PORT (port): Port in use'
+    );
+  });
+
+  it('maps and converts ArkType schemas', () => {
+    const schema = type({
+      port: 'number',
+      zipCode: 'string',
+      db: { host: 'string', port: 'number' },
+      tags: 'string[]',
+      'debug?': 'boolean',
+      apiKey: type('string').describe('@sensitive')
+    });
+    const config = objectify({ env, prefix: 'APP', schema });
+    expect(config).toEqual(expected);
+    expect(redact(config)).toEqual(masked);
+  });
+
+  it('maps and converts Effect 4 schemas', () => {
+    const schema = Schema.toStandardSchemaV1(
+      Schema.Struct({
+        port: Schema.Number,
+        zipCode: Schema.String,
+        db: Schema.Struct({ host: Schema.String, port: Schema.Number }),
+        tags: Schema.Array(Schema.String),
+        debug: Schema.optional(Schema.Boolean),
+        apiKey: Schema.String.annotate({ description: '@sensitive' })
+      })
+    );
+    const config = objectify({ env, prefix: 'APP', schema });
+    expect(config).toEqual(expected);
+    expect(redact(config)).toEqual(masked);
+  });
+
+  it('reads Effect 4 encoded fields as their encoded type', () => {
+    const schema = Schema.toStandardSchemaV1(
+      Schema.Struct({ retries: Schema.NumberFromString, startedAt: Schema.Date })
+    );
+    const config = objectify({
+      env: { RETRIES: '3', STARTED_AT: '2024-01-02T00:00:00.000Z' },
+      schema
+    });
+    expect(config).toEqual({ retries: 3, startedAt: new Date('2024-01-02T00:00:00.000Z') });
+  });
+});
@@ -0,0 +1,390 @@
+import { isStandardSchema } from './standardSchema.js';
+
+/**
+ * A schema node laid out like a Zod v4 schema definition, which is what objectenvy reads to map
+ * env keys to config paths and to convert values. Adapters describe other libraries' schemas this
+ * way; `description` and `meta` carry `@sensitive` / `@coerce` tags.
+ *
+ * @category Schema
+ */
+export interface SchemaDescription {
+  _def: SchemaDefinition;
+  description?: string;
+  meta?: () => Record<string, unknown> | undefined;
+}
+
+/**
+ * The kinds of schema node a {@link SchemaDescription} can describe. `unknown` is any value whose
+ * raw string is converted by the schemaless rules.
+ *
+ * @category Schema
+ */
+export type SchemaDefinition =
+  | { type: 'object'; shape: Record<string, SchemaDescription> }
+  | { type: 'array'; element: SchemaDescription }
+  | { type: 'record'; valueType: SchemaDescription }
+  | { type: 'union' | 'intersection'; options: SchemaDescription[] }
+  | { type: 'optional'; innerType: SchemaDescription }
+  | { type: 'lazy'; getter: () => SchemaDescription }
+  | { type: 'enum'; entries: Record<string, string | number> }
+  | { type: 'literal'; values: unknown[] }
+  | { type: 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'tuple' | 'unknown' };
+
+/**
+ * Describes the schemas of one Standard Schema vendor for path extraction.
+ *
+ * @example
+ * const adapter: SchemaAdapter = {
+ *   vendor: 'my-validator',
+ *   describe: (schema) => ({ _def: { type: 'object', shape: { port: { _def: { type: 'number' } } } } })
+ * };
+ * objectify({ schema, schemaAdapters: [adapter] });
+ *
+ * @category Schema
+ */
+export interface SchemaAdapter {
+  /** The `~standard.vendor` of the schemas this adapter reads, e.g. `'valibot'`. */
+  vendor: string;
+  /** Describe a schema of that vendor. Return undefined to fall back to heuristic nesting. */
+  describe(schema: unknown): SchemaDescription | undefined;
+}
+
+type Tags = Pick<SchemaDescription, 'description' | 'meta'>;
+
+function node(def: SchemaDefinition, tags: Tags = {}): SchemaDescription {
+  return { _def: def, ...tags };
+}
+
+const unknownNode = (): SchemaDescription => node({ type: 'unknown' });
+
+const scalarTypes = new Set(['string', 'number', 'boolean', 'bigint', 'date']);
+
+function scalar(type: string, tags?: Tags): SchemaDescription {
+  return scalarTypes.has(type)
+    ? node({ type } as SchemaDefinition, tags)
+    : node({ type: 'unknown' }, tags);
+}
+
+function mapValues<T>(
+  record: Record<string, T>,
+  map: (value: T) => SchemaDescription
+): Record<string, SchemaDescription> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)]));
+}
+
+/**
+ * A union of members, collapsing unions of literals (ArkType booleans) and single members
+ */
+function union(members: SchemaDescription[], tags?: Tags): SchemaDescription {
+  if (members.length === 1) return { ...members[0]!, ...tags };
+  if (members.every((member) => member._def.type === 'literal')) {
+    const values = members.flatMap((member) => (member._def as { values: unknown[] }).values);
+    return node({ type: 'literal', values }, tags);
+  }
+  return node({ type: 'union', options: members }, tags);
+}
+
+const isNullish = (value: unknown) => value === null || value === undefined;
+
+// Valibot: schemas are plain objects with a `type`; `pipe()` keeps the first schema's fields and
+// lists its actions (description, metadata, transforms) in `pipe`
+
+interface ValibotSchema {
+  type: string;
+  entries?: Record<string, ValibotSchema>;
+  wrapped?: ValibotSchema;
+  item?: ValibotSchema;
+  value?: ValibotSchema;
+  options?: unknown[];
+  literal?: unknown;
+  enum?: Record<string, string | number>;
+  getter?: (input: unknown) => ValibotSchema;
+  pipe?: Array<{ type: string; description?: string; metadata?: Record<string, unknown> }>;
+}
+
+function valibotTags(schema: ValibotSchema): Tags {
+  const tags: Tags = {};
+  for (const action of schema.pipe ?? []) {
+    if (action.type === 'description') tags.description = action.description;
+    if (action.type === 'metadata') {
+      const { metadata } = action;
+      tags.meta = () => metadata;
+    }
+  }
+  return tags;
+}
+
+function describeValibot(schema: ValibotSchema): SchemaDescription {
+  const tags = valibotTags(schema);
+  switch (schema.type) {
+    case 'object':
+    case 'loose_object':
+    case 'strict_object':
+    case 'object_with_rest':
+      return node(
+        { type: 'object', shape: mapValues(schema.entries ?? {}, describeValibot) },
+        tags
+      );
+    case 'optional':
+    case 'exact_optional':
+    case 'undefinedable':
+    case 'nullable':
+    case 'nullish':
+    case 'non_optional':
+    case 'non_nullable':
+    case 'non_nullish':
+      return node({ type: 'optional', innerType: describeValibot(schema.wrapped!) }, tags);
+    case 'array':
+      return node({ type: 'array', element: describeValibot(schema.item!) }, tags);
+    case 'record':
+      return node({ type: 'record', valueType: describeValibot(schema.value!) }, tags);
+    case 'union':
+    case 'variant':
+      return union((schema.options as ValibotSchema[]).map(describeValibot), tags);
+    case 'intersect':
+      return node(
+        { type: 'intersection', options: (schema.options as ValibotSchema[]).map(describeValibot) },
+        tags
+      );
+    case 'lazy': {
+      const getter = schema.getter!;
+      return node({ type: 'lazy', getter: () => describeValibot(getter(undefined)) }, tags);
+    }
+    case 'picklist':
+      return node({ type: 'literal', values: schema.options ?? [] }, tags);
+    case 'enum':
+      return node({ type: 'enum', entries: schema.enum ?? {} }, tags);
+    case 'literal':
+      return node({ type: 'literal', values: [schema.literal] }, tags);
+    case 'tuple':
+    case 'loose_tuple':
+    case 'strict_tuple':
+    case 'tuple_with_rest':
+      return node({ type: 'tuple' }, tags);
+    default:
+      return scalar(schema.type, tags);
+  }
+}
+
+// ArkType: types are functions whose `json` serializes the type — keyword strings, arrays of union
+// branches, or nodes with `domain`, `proto`, `required`/`optional` props, `index` signatures,
+// `sequence` elements, `unit` literals and `in`/`morphs` for transforms
+
+type ArkJson = string | ArkJson[] | ArkNode;
+
+interface ArkNode {
+  domain?: string;
+  proto?: string;
+  unit?: unknown;
+  in?: ArkJson;
+  required?: Array<{ key: string; value: ArkJson }>;
+  optional?: Array<{ key: string; value: ArkJson }>;
+  index?: Array<{ signature: ArkJson; value: ArkJson }>;
+  sequence?: ArkJson | { prefix?: ArkJson[]; variadic?: ArkJson };
+  meta?: string | { description?: string; [key: string]: unknown };
+}
+
+function arkTags(json: ArkNode): Tags {
+  const { meta } = json;
+  if (typeof meta === 'string') return { description: meta };
+  if (meta && typeof meta === 'object') {
+    return typeof meta.description === 'string'
+      ? { description: meta.description, meta: () => meta }
+      : { meta: () => meta };
+  }
+  return {};
+}
+
+function describeArk(json: ArkJson): SchemaDescription {
+  if (typeof json === 'string') return scalar(json);
+  if (Array.isArray(json)) {
+    const branches = json.filter(
+      (branch) =>
+        !(branch && typeof branch === 'object' && 'unit' in branch && isNullish(branch.unit))
+    );
+    return union(branches.map(describeArk));
+  }
+  if (!json || typeof json !== 'object') return unknownNode();
+
+  const tags = arkTags(json);
+  if ('unit' in json) return node({ type: 'literal', values: [json.unit] }, tags);
+  if (json.in !== undefined) return { ...describeArk(json.in), ...tags };
+  if (json.proto === 'Date') return node({ type: 'date' }, tags);
+  if (json.proto === 'Array') {
+    const { sequence } = json;
+    if (sequence && typeof sequence === 'object' && !Array.isArray(sequence)) {
+      if ('prefix' in sequence) return node({ type: 'tuple' }, tags);
+      if ('variadic' in sequence) {
+        return node({ type: 'array', element: describeArk(sequence.variadic!) }, tags);
+      }
+    }
+    const element = sequence === undefined ? unknownNode() : describeArk(sequence as ArkJson);
+    return node({ type: 'array', element }, tags);
+  }
+  if (json.required || json.optional) {
+    const shape: Record<string, SchemaDescription> = {};
+    for (const { key, value } of json.required ?? []) shape[key] = describeArk(value);
+    for (const { key, value } of json.optional ?? []) {
+      shape[key] = node({ type: 'optional', innerType: describeArk(value) });
+    }
+    return node({ type: 'object', shape }, tags);
+  }
+  if (json.index?.[0]) {
+    return node({ type: 'record', valueType: describeArk(json.index[0].value) }, tags);
+  }
+  return scalar(json.domain ?? 'unknown', tags);
+}
+
+// Effect Schema: schemas carry their AST in `ast`, a tree of `_tag`ged nodes. Effect 3 names them
+// `TypeLiteral`, `TupleType`, `StringKeyword`…, keys annotations by symbols and marks optional
+// properties on the signature; Effect 4 names them `Objects`, `Arrays`, `String`…, keys
+// annotations by name and marks optional properties in the type's `context`. Transformations are
+// described by their encoded side (Effect 3 `from`, Effect 4 the last `encoding` link's `to`),
+// which is what the env supplies.
+
+interface EffectAst {
+  _tag: string;
+  annotations?: Record<PropertyKey, unknown>;
+  propertySignatures?: Array<{ name: PropertyKey; type: EffectAst; isOptional?: boolean }>;
+  indexSignatures?: Array<{ type: EffectAst }>;
+  types?: EffectAst[];
+  elements?: Array<{ type: EffectAst }>;
+  rest?: Array<EffectAst | { type: EffectAst }>;
+  from?: EffectAst;
+  f?: () => EffectAst;
+  thunk?: () => EffectAst;
+  literal?: unknown;
+  enums?: Array<[string, string | number]>;
+  context?: { isOptional?: boolean };
+  encoding?: Array<{ to: EffectAst }>;
+}
+
+const effectDescription = Symbol.for('effect/annotation/Description');
+const effectIdentifier = Symbol.for('effect/annotation/Identifier');
+
+const effectKeywords: Record<string, string> = {
+  StringKeyword: 'string',
+  NumberKeyword: 'number',
+  BooleanKeyword: 'boolean',
+  BigIntKeyword: 'bigint',
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  BigInt: 'bigint'
+};
+
+/** Union members that only make a value optional or nullable */
+const effectNullish = new Set(['UndefinedKeyword', 'Undefined', 'Null']);
+
+function effectTags(annotations: EffectAst['annotations']): Tags {
+  const description = annotations?.[effectDescription] ?? annotations?.['description'];
+  return typeof description === 'string' ? { description } : {};
+}
+
+/**
+ * Whether an Effect 4 `Declaration` is `Schema.Date`
+ */
+function isEffectDate(annotations: EffectAst['annotations']): boolean {
+  const representation = annotations?.['representation'] as { id?: unknown } | undefined;
+  return (
+    annotations?.[effectIdentifier] === 'DateFromSelf' ||
+    representation?.id === 'effect/schema/Date'
+  );
+}
+
+function describeEffect(ast: EffectAst): SchemaDescription {
+  const { _tag: tag, annotations } = ast;
+  const tags = effectTags(annotations);
+  const encoded = ast.encoding?.at(-1)?.to;
+  if (encoded) return { ...describeEffect(encoded), ...tags };
+  switch (tag) {
+    case 'TypeLiteral':
+    case 'Objects': {
+      const properties = ast.propertySignatures ?? [];
+      const [index] = ast.indexSignatures ?? [];
+      if (properties.length === 0 && index) {
+        return node({ type: 'record', valueType: describeEffect(index.type) }, tags);
+      }
+      const shape: Record<string, SchemaDescription> = {};
+      for (const { name, type, isOptional } of properties) {
+        if (typeof name !== 'string') continue;
+        const value = describeEffect(type);
+        const optional = isOptional ?? type.context?.isOptional;
+        shape[name] = optional ? node({ type: 'optional', innerType: value }) : value;
+      }
+      return node({ type: 'object', shape }, tags);
+    }
+    case 'Union': {
+      const members = (ast.types ?? []).filter(
+        ({ _tag: memberTag, literal }) =>
+          !effectNullish.has(memberTag) && !(memberTag === 'Literal' && literal === null)
+      );
+      return union(members.map(describeEffect), tags);
+    }
+    case 'TupleType':
+    case 'Arrays': {
+      const [rest] = ast.rest ?? [];
+      if ((ast.elements ?? []).length === 0 && rest) {
+        const element = 'type' in rest ? rest.type : rest;
+        return node({ type: 'array', element: describeEffect(element as EffectAst) }, tags);
+      }
+      return node({ type: 'tuple' }, tags);
+    }
+    case 'Refinement':
+    case 'Transformation':
+      return { ...describeEffect(ast.from!), ...tags };
+    case 'Suspend': {
+      const getter = (ast.thunk ?? ast.f)!;
+      return node({ type: 'lazy', getter: () => describeEffect(getter()) }, tags);
+    }
+    case 'Literal':
+      return node({ type: 'literal', values: [ast.literal] }, tags);
+    case 'Enums':
+    case 'Enum':
+      return node({ type: 'enum', entries: Object.fromEntries(ast.enums ?? []) }, tags);
+    case 'Declaration':
+      return isEffectDate(annotations)
+        ? node({ type: 'date' }, tags)
+        : node({ type: 'unknown' }, tags);
+    default:
+      return scalar(effectKeywords[tag] ?? 'unknown', tags);
+  }
+}
+
+/**
+ * Adapters for the Standard Schema libraries objectenvy understands out of the box: Valibot,
+ * ArkType and Effect Schema. Zod is read directly.
+ *
+ * @category Schema
+ */
+export const builtinSchemaAdapters: readonly SchemaAdapter[] = [
+  { vendor: 'valibot', describe: (schema) => describeValibot(schema as ValibotSchema) },
+  {
+    vendor: 'arktype',
+    describe: (schema) => {
+      const { json } = schema as { json?: ArkJson };
+      return json === undefined ? undefined : describeArk(json);
+    }
+  },
+  {
+    vendor: 'effect',
+    describe: (schema) => {
+      const { ast } = schema as { ast?: EffectAst };
+      return ast ? describeEffect(ast) : undefined;
+    }
+  }
+];
+
+/**
+ * Describe a Standard Schema with the adapter for its vendor (given adapters first, then the
+ * built-ins). Undefined when the value is not a Standard Schema or no adapter reads it.
+ */
+export function describeSchema(
+  schema: unknown,
+  adapters: readonly SchemaAdapter[] = []
+): SchemaDescription | undefined {
+  if (!isStandardSchema(schema)) return undefined;
+  const { vendor } = schema['~standard'];
+  const adapter = [...adapters, ...builtinSchemaAdapters].find((a) => a.vendor === vendor);
+  return adapter?.describe(schema);
+}
@@ -0,0 +1,55 @@
+import { bench, describe } from 'vitest';
+import { z } from 'zod';
+import { objectify } from './objectEnvy.js';
+
+/**
+ * A schema with `services` objects of `fields` settings each, and an env setting all of them:
+ * `SERVICE3_CONNECTION_POOL_SETTING7` → `service3.connectionPool.setting7`
+ */
+function fixture(services: number, fields: number) {
+  const env: Record<string, string> = {};
+  const shape: Record<string, z.ZodType> = {};
+  for (let s = 0; s < services; s++) {
+    const pool: Record<string, z.ZodType> = {};
+    for (let f = 0; f < fields; f++) {
+      pool[`setting${f}`] = z.number();
+      env[`SERVICE${s}_CONNECTION_POOL_SETTING${f}`] = String(f);
+    }
+    shape[`service${s}`] = z.object({ connectionPool: z.object(pool) });
+  }
+  return { env, schema: z.object(shape) };
+}
+
+/**
+ * One setting whose name is `words` words long, under three levels of nesting
+ */
+function longKeyFixture(words: number) {
+  const name = Array.from({ length: words }, (_, index) => `part${index}`);
+  const field = name.map((word, index) => (index === 0 ? word : `P${word.slice(1)}`)).join('');
+  const env = { [`ALPHA_BETA_GAMMA_${name.join('_').toUpperCase()}`]: '1' };
+  const schema = z.object({
+    alpha: z.object({ beta: z.object({ gamma: z.object({ [field]: z.number() }) }) })
+  });
+  return { env, schema };
+}
+
+describe('objectify with a schema, by env size', () => {
+  for (const [services, fields] of [
+    [10, 100],
+    [50, 100]
+  ] as const) {
+    const { env, schema } = fixture(services, fields);
+    bench(`${services * fields} variables`, () => {
+      objectify({ env, schema });
+    });
+  }
+});
+
+describe('objectify with a schema, by key length', () => {
+  for (const words of [4, 16, 64]) {
+    const { env, schema } = longKeyFixture(words);
+    bench(`${words + 3}-segment key`, () => {
+      objectify({ env, schema });
+    });
+  }
+});
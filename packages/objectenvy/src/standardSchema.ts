@@ -0,0 +1,88 @@
+/**
+ * The Standard Schema v1 interface, implemented by Zod, Valibot, ArkType, Effect Schema and other
+ * validators. Copied from the spec (https://standardschema.dev) so objectenvy needs no dependency
+ * to accept them.
+ *
+ * @category Schema
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+/**
+ * Types belonging to {@link StandardSchemaV1}
+ *
+ * @category Schema
+ */
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input'];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output'];
+}
+
+/**
+ * Whether a value implements Standard Schema v1. ArkType types are functions, so functions count.
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  if (!value || (typeof value !== 'object' && typeof value !== 'function')) return false;
+  const props = (value as { '~standard'?: unknown })['~standard'];
+  return (
+    !!props &&
+    typeof props === 'object' &&
+    (props as { version?: unknown }).version === 1 &&
+    typeof (props as { validate?: unknown }).validate === 'function'
+  );
+}
+
+/**
+ * Validate synchronously with a Standard Schema. `objectify()` is synchronous, so a validator that
+ * returns a Promise (async refinements) throws a `TypeError`; `objectifyAsync()` awaits it instead.
+ */
+export function validateStandardSchema<Output>(
+  schema: StandardSchemaV1<unknown, Output>,
+  value: unknown
+): StandardSchemaV1.Result<Output> {
+  const result = schema['~standard'].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError(
+      `The ${schema['~standard'].vendor} schema validates asynchronously; use objectifyAsync()`
+    );
+  }
+  return result;
+}
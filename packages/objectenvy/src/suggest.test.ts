@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { closestMatch, editDistance } from './suggest.js';
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and adjacent swaps', () => {
+    expect(editDistance('DATABASE', 'DATABASE')).toBe(0);
+    expect(editDistance('DATABSE', 'DATABASE')).toBe(1);
+    expect(editDistance('PROT', 'PORT')).toBe(1);
+    expect(editDistance('HOST', 'HOSTS')).toBe(1);
+    expect(editDistance('LEVEL', 'LEVL')).toBe(1);
+    expect(editDistance('', 'ABC')).toBe(3);
+    expect(editDistance('KITTEN', 'SITTING')).toBe(3);
+  });
+});
+
+describe('closestMatch', () => {
+  it('returns the nearest candidate within one edit per three characters', () => {
+    expect(closestMatch('DATABSE_HOST', ['DATABASE_PORT', 'DATABASE_HOST'])).toBe('DATABASE_HOST');
+    expect(closestMatch('PROT', ['PORT', 'HOST'])).toBe('PORT');
+  });
+
+  it('returns undefined when nothing is close', () => {
+    expect(closestMatch('TIMEOUT', ['PORT', 'HOST'])).toBeUndefined();
+    expect(closestMatch('AB', [])).toBeUndefined();
+  });
+});
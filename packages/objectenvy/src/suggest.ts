@@ -0,0 +1,42 @@
+/**
+ * Edit distance between two strings, counting insertions, deletions, substitutions and swaps of
+ * adjacent characters (`PROT` → `PORT` is one edit)
+ */
+export function editDistance(a: string, b: string): number {
+  // Three rolling rows: the swap rule looks two rows back
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previous2[j - 2]! + 1);
+      }
+      current.push(distance);
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * The candidate closest to `value`, if one is close enough to be a likely typo: at most one edit
+ * per three characters. Ties go to the earlier candidate.
+ */
+export function closestMatch(value: string, candidates: Iterable<string>): string | undefined {
+  const limit = Math.max(1, Math.floor(value.length / 3));
+  let best: string | undefined;
+  let bestDistance = limit + 1;
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.length - value.length) >= bestDistance) continue;
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -6,7 +6,10 @@ import type {
   WithoutPrefix,
   SchemaToEnv,
   BooleanString,
-  NumberString
+  NumberString,
+  BigIntString,
+  CoercedType,
+  CoercedEnv
 } from './typeUtils.js';
 import { z } from 'zod';
 
@@ -26,6 +29,15 @@ describe('Type Utilities', () => {
       }>();
     });
 
+    it('writes nullable fields as possibly empty variables', () => {
+      type Config = { proxy: string | null; port: number | null };
+
+      expectTypeOf<ToEnv<Config>>().toEqualTypeOf<{
+        PROXY: string;
+        PORT: NumberString | '';
+      }>();
+    });
+
     it('converts nested config to flat env keys', () => {
       type Config = {
         portNumber: number;
@@ -93,6 +105,63 @@ describe('Type Utilities', () => {
         TAG: string;
       }>();
     });
+
+    it('maps arrays of objects to indexed keys', () => {
+      type Config = {
+        hosts: string[];
+        servers: Array<{ host: string; port: number }>;
+      };
+
+      type Env = ToEnv<Config>;
+
+      expectTypeOf<Env>().toEqualTypeOf<{
+        HOSTS: string;
+        [key: `SERVERS_${number}_HOST`]: string;
+        [key: `SERVERS_${number}_PORT`]: NumberString;
+      }>();
+    });
+
+    it('keeps coerced Date, URL and bigint values as leaves', () => {
+      type Config = {
+        startedAt: Date;
+        api: { url: URL };
+        maxId: bigint;
+        holidays: Date[];
+      };
+
+      type Env = ToEnv<Config>;
+
+      expectTypeOf<Env>().toEqualTypeOf<{
+        STARTED_AT: string;
+        API_URL: string;
+        MAX_ID: BigIntString;
+        HOLIDAYS: string;
+      }>();
+    });
+  });
+
+  describe('CoercedType', () => {
+    it('applies default coercion without a coercer', () => {
+      expectTypeOf<CoercedType<'true'>>().toEqualTypeOf<boolean>();
+      expectTypeOf<CoercedType<'42'>>().toEqualTypeOf<number>();
+      expectTypeOf<CoercedType<'5s'>>().toEqualTypeOf<string>();
+    });
+
+    it('uses the output type of a named coercer', () => {
+      expectTypeOf<CoercedType<'5s', 'duration'>>().toEqualTypeOf<number>();
+      expectTypeOf<CoercedType<string, 'url'>>().toEqualTypeOf<URL>();
+      expectTypeOf<CoercedType<string, 'date'>>().toEqualTypeOf<Date>();
+      expectTypeOf<CoercedType<string, 'bigint'>>().toEqualTypeOf<bigint>();
+    });
+
+    it('maps env records with per-key coercers', () => {
+      type Env = { TIMEOUT: string; PORT: NumberString; HOST: string };
+      expectTypeOf<CoercedEnv<Env, { TIMEOUT: 'duration' }>>().toEqualTypeOf<{
+        TIMEOUT: number;
+        PORT: number;
+        HOST: string;
+      }>();
+    });
   });
 
   describe('FromEnv', () => {
@@ -109,6 +178,21 @@ describe('Type Utilities', () => {
         logLevel: string;
       }>();
     });
+
+    it('reads values that may be empty by the empty policy', () => {
+      type Env = { PROXY: ''; PORT: NumberString | ''; HOST: string };
+
+      expectTypeOf<FromEnv<Env, 'null'>>().toEqualTypeOf<{
+        proxy: null;
+        port: number | null;
+        host: string | null;
+      }>();
+      expectTypeOf<FromEnv<Env, 'empty-string'>>().toEqualTypeOf<{
+        proxy: '';
+        port: number | '';
+        host: string;
+      }>();
+    });
   });
 
   describe('WithPrefix', () => {
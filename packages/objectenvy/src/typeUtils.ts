@@ -5,9 +5,13 @@ import type {
   Simplify,
   UnionToIntersection
 } from 'type-fest';
+import type { EmptyValue } from './types.js';
 
 type Primitive = string | number | boolean;
 
+// Leaf values, including the class instances and bigints that coercers produce
+type Scalar = Primitive | bigint | Date | URL;
+
 // Depth-limited decrement map to prevent runaway instantiation
 type Depth = 0 | 1 | 2 | 3 | 4 | 5;
 type Dec<D extends Depth> = D extends 5
@@ -56,25 +60,29 @@ type FlattenToEnv<T, Prefix extends string = '', D extends Depth = 5> =
     ? Prefix extends ''
       ? Record<string, string>
       : Record<Prefix, string>
-    : // Arrays serialize to comma-separated strings at runtime (check before object)
-      [T] extends [Array<unknown>]
+    : // Arrays of primitives serialize to comma-separated strings at runtime (check before
+      // object); arrays of objects serialize to indexed keys such as SERVERS_0_HOST
+      [T] extends [Array<infer E>]
       ? Prefix extends ''
         ? never
-        : Record<Prefix, string>
-      : // Objects recurse through keys (check before primitives, use tuple to prevent distribution)
-        [T] extends [object]
-        ? {
-            [K in keyof T & string]: FlattenToEnv<
-              T[K],
-              `${Prefix}${Prefix extends '' ? '' : '_'}${ScreamingSnakeCase<K>}`,
-              Dec<D>
-            >;
-          }[keyof T & string]
-        : // Primitives (using tuple to prevent distribution over unions)
-          [T] extends [Primitive]
-          ? Prefix extends ''
-            ? never
-            : Record<Prefix, UncoercedType<T>>
+        : [E] extends [Scalar]
+          ? Record<Prefix, string>
+          : FlattenToEnv<E, `${Prefix}_${number}`, Dec<D>>
+      : // Leaf values, including Date and URL objects (using tuple to prevent distribution over
+        // unions); null comes from an empty variable
+        [T] extends [Scalar | null]
+        ? Prefix extends ''
+          ? never
+          : Record<Prefix, UncoercedType<Exclude<T, null>> | (null extends T ? '' : never)>
+        : // Other objects recurse through keys
+          [T] extends [object]
+          ? {
+              [K in keyof T & string]: FlattenToEnv<
+                T[K],
+                `${Prefix}${Prefix extends '' ? '' : '_'}${ScreamingSnakeCase<K>}`,
+                Dec<D>
+              >;
+            }[keyof T & string]
           : never;
 
 /**
@@ -89,8 +97,10 @@ type FlattenToEnv<T, Prefix extends string = '', D extends Depth = 5> =
  * `ToEnv` recursively traverses the config type `T`, joining key segments with underscores and
  * uppercasing them (`portNumber` → `PORT_NUMBER`, `log.level` → `LOG_LEVEL`). Value types are
  * converted via `UncoercedType`: `boolean` → `BooleanString`, `number` → `NumberString`,
- * `string` → `string` (literal unions are preserved). Arrays are serialized as `string` (they
- * become comma-joined at runtime via `envy()`).
+ * `bigint` → `BigIntString`, `string` → `string` (literal unions are preserved), and `Date`/`URL`
+ * values → `string` (ISO string / `href`). Arrays are serialized as `string` (they become
+ * comma-joined at runtime via `envy()`). Nullable values also accept `''`, the env value that
+ * `empty: 'null'` reads back as `null`.
  *
  * Recursion is capped at depth 5 to prevent TypeScript from hanging on deeply nested schemas.
  * For configs deeper than 5 levels, the type degrades to `Record<string, string>` at that level.
@@ -108,7 +118,7 @@ type FlattenToEnv<T, Prefix extends string = '', D extends Depth = 5> =
  * - You need more than 5 levels of nesting — the type degrades silently at depth 5.
  *
  * @pitfalls
- * - NEVER use `ToEnv` on config types that contain non-serialisable values (Date, Map, Set) —
+ * - NEVER use `ToEnv` on config types that contain non-serialisable values (Map, Set) —
  *   BECAUSE the type utility models them as `string`, masking type errors at compile time even
  *   though `envy()` will produce `'[object Object]'` at runtime.
  * - NEVER manually set the `D` depth parameter — BECAUSE it exists solely to bound recursion;
@@ -150,12 +160,14 @@ export type ToEnv<T, D extends Depth = 5> = Simplify<UnionToIntersection<Flatten
  * camelCased (`PORT_NUMBER` → `portNumber`).
  *
  * Value types are passed through `CoercedType`: literal `BooleanString` unions become `boolean`,
- * literal `NumberString` values become `number`, and other strings stay as-is.
+ * literal `NumberString` values become `number`, and other strings stay as-is. Values that may be
+ * `''` also read as `null` or `''` when `E` matches the `empty` option passed to `objectify()`.
  *
  * Recursion is capped at depth 5. The type is a compile-time companion to the runtime behaviour of
  * `objectify()` — the two should produce equivalent shapes for well-formed env objects.
  *
  * @typeParam T - A flat env record type with `SCREAMING_SNAKE_CASE` keys.
+ * @typeParam E - How empty values are read, as in the `empty` option. Defaults to `'absent'`.
  * @typeParam D - Internal recursion depth counter (do not set manually).
  *
  * @useWhen
@@ -192,16 +204,26 @@ export type ToEnv<T, D extends Depth = 5> = Simplify<UnionToIntersection<Flatten
  * @category Type Utilities
  * @see {@link ToEnv} for the inverse transformation
  */
-export type FromEnv<T, D extends Depth = 5> = Simplify<
+export type FromEnv<T, E extends EmptyValue = 'absent', D extends Depth = 5> = Simplify<
   UnionToIntersection<
     {
       [K in keyof T & string]: HasSibling<K, keyof T & string> extends true
-        ? BuildNested<SplitKey<K, D>, CoercedType<T[K]>>
-        : { [P in CamelCase<Lowercase<K>>]: CoercedType<T[K]> };
+        ? BuildNested<SplitKey<K, D>, ReadType<T[K], E>>
+        : { [P in CamelCase<Lowercase<K>>]: ReadType<T[K], E> };
     }[keyof T & string]
   >
 >;
 
+/**
+ * Config value type for an env string `T` read under empty-value policy `E`: an empty string is
+ * `null` or `''` instead of coerced, when `T` can be empty
+ */
+type ReadType<T, E extends EmptyValue> = E extends 'absent'
+  ? CoercedType<T>
+  : '' extends T
+    ? CoercedType<Exclude<T, ''>> | (E extends 'null' ? null : '')
+    : CoercedType<T>;
+
 /**
  * Add a `Prefix_` to all keys in an env record type.
  *
@@ -326,20 +348,54 @@ export type BooleanString = Simplify<
 
 export type NumberString = `${number}`;
 
-export type CoercedType<T> = T extends BooleanString
-  ? boolean
-  : T extends NumberString
-    ? number
-    : string;
+export type BigIntString = `${bigint}`;
+
+/**
+ * Output type of each named coercer. Augment it to type custom coercers:
+ * ```ts
+ * declare module 'objectenvy' {
+ *   interface CoercerOutputs { semver: string }
+ * }
+ * ```
+ *
+ * @category Type Utilities
+ */
+export interface CoercerOutputs {
+  duration: number;
+  bytes: number;
+  url: URL;
+  date: Date;
+  bigint: bigint;
+}
+
+/**
+ * Config value type for an env string `T`: the output of coercer `C` when given, otherwise the
+ * default coercion (`BooleanString` → `boolean`, `NumberString` → `number`, else `string`).
+ */
+export type CoercedType<
+  T,
+  C extends keyof CoercerOutputs | undefined = undefined
+> = C extends keyof CoercerOutputs
+  ? CoercerOutputs[C]
+  : T extends BooleanString
+    ? boolean
+    : T extends NumberString
+      ? number
+      : string;
 
-export type CoercedEnv<T> = {
-  [K in keyof T]: CoercedType<T[K]>;
+/**
+ * Coerce every value of an env record type, using the coercer named in `C` for its keys
+ */
+export type CoercedEnv<T, C extends { [K in keyof T]?: keyof CoercerOutputs } = {}> = {
+  [K in keyof T]: CoercedType<T[K], K extends keyof C ? C[K] : undefined>;
 };
 
 export type UncoercedType<T> = T extends boolean
   ? BooleanString
   : T extends number
     ? NumberString
-    : T extends string
-      ? T
-      : string;
+    : T extends bigint
+      ? BigIntString
+      : T extends string
+        ? T
+        : string;
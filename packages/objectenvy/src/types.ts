@@ -1,6 +1,14 @@
 import type { z } from 'zod';
+import type { CoercerDefinition } from './coercers.js';
+import type { SchemaAdapter } from './schemaAdapters.js';
+import type { StandardSchemaV1 } from './standardSchema.js';
+import type { JsonSchema } from './jsonSchema.js';
+import type { SecretResolver } from './resolvers.js';
 
-export type EnviablePrimitive = string | number | boolean;
+/**
+ * A leaf config value. `bigint`, `Date` and `URL` are produced only by coercers.
+ */
+export type EnviablePrimitive = string | number | boolean | bigint | Date | URL;
 
 /**
  * Nested configuration object with string keys and recursively nested values.
@@ -32,8 +40,10 @@ export type EnviableArray = Array<EnviablePrimitive | EnviableObject>;
  * @remarks
  * This union type covers every value shape that `objectify()` can produce. When `coerce: true` (the
  * default), string values from `process.env` may become `number` or `boolean` at runtime. When
- * comma-separated, they become arrays. Deeply nested objects arise when multiple env keys share a
- * prefix (or when a schema mandates nesting).
+ * comma-separated, they become arrays. Coercers (the `coercers` option) can also produce `bigint`,
+ * `Date` and `URL` values. Deeply nested objects arise when multiple env keys share a
+ * prefix (or when a schema mandates nesting). Empty variables become `null` under `empty: 'null'`
+ * and in nullable schema fields.
  *
  * @example
  * import type { ConfigValue } from 'objectenvy';
@@ -45,7 +55,7 @@ export type EnviableArray = Array<EnviablePrimitive | EnviableObject>;
  *
  * @category Type Utilities
  */
-export type EnviableValue = EnviablePrimitive | EnviableObject | EnviableArray;
+export type EnviableValue = EnviablePrimitive | EnviableObject | EnviableArray | null;
 
 /**
  * Strategy for merging arrays when combining configuration objects via `merge()` or `override()`.
@@ -92,13 +102,164 @@ export interface MergeOptions {
   arrayMergeStrategy?: ArrayMergeStrategy;
 }
 
+/**
+ * How `envy()` encodes array values.
+ *
+ * - `'comma'` — join items with commas (`'a,b'`), the format `objectify()` splits back into arrays.
+ *   Arrays that hold objects are always written as indexed keys.
+ * - `'indexed'` — one variable per item (`HOSTS_0=a`, `SERVERS_0_HOST=x`), which `objectify()`
+ *   reads back into arrays, including single-item arrays.
+ * - `'json'` — a JSON array (`'["a","b"]'`), for consumers that parse JSON.
+ *
+ * @category Type Utilities
+ * @defaultValue `'comma'`
+ */
+export type ArrayEncoding = 'comma' | 'indexed' | 'json';
+
+/**
+ * What `objectify()` does when one env variable sets a config path to a value and another sets a
+ * field below it, as `LOG=true` and `LOG_LEVEL=debug` do:
+ * - `'error'` — fail with an `ObjectEnvyError` naming both variables.
+ * - `'leaf-wins'` — keep the value, drop the variables below it: `{ log: true }`.
+ * - `'branch-wins'` — keep the fields, drop the value: `{ log: { level: 'debug' } }`.
+ * - `'value-key'` — keep both, moving the value to `_value`:
+ *   `{ log: { _value: true, level: 'debug' } }`.
+ *
+ * @category Type Utilities
+ */
+export type ConflictPolicy = 'error' | 'leaf-wins' | 'branch-wins' | 'value-key';
+
+/**
+ * How `objectify()` reads raw values that no coercer handles. Unset fields keep the defaults.
+ *
+ * @config
+ * @category Type Utilities
+ * @see {@link ObjectEnvyOptions.coercion}
+ */
+export interface CoercionPolicy {
+  /**
+   * Words read as `true`, in any case. Replaces the defaults: `true`, `yes` and `y`, plus `on` and
+   * `1` for fields a schema types as booleans.
+   * @example ['true', 'yes', 'on', 'enabled']
+   */
+  truthy?: string[];
+  /**
+   * Words read as `false`, in any case. Replaces the defaults: `false`, `no` and `n`, plus `off` and
+   * `0` for fields a schema types as booleans.
+   * @example ['false', 'no', 'off', 'disabled']
+   */
+  falsy?: string[];
+  /**
+   * Read hexadecimal integers such as `0x1F` as numbers.
+   * @default false
+   */
+  hex?: boolean;
+  /**
+   * Read octal integers such as `0o17` as numbers. A bare leading zero is never octal.
+   * @default false
+   */
+  octal?: boolean;
+  /**
+   * Read exponent notation such as `1e3` as numbers. Fields a schema types as numbers always accept
+   * it.
+   * @default false
+   */
+  exponent?: boolean;
+  /**
+   * Keep numbers written with leading zeros (`01234`) as strings, for zip codes and the like.
+   * Fields a schema types as numbers are still read as numbers.
+   * @default false
+   */
+  preserveLeadingZeros?: boolean;
+  /**
+   * Which values are split into arrays on `separator`:
+   * - `'all'` — any value containing it.
+   * - `'schema'` — only fields a schema types as arrays.
+   * - path patterns, as in `coercers` — matching paths, plus fields a schema types as arrays.
+   * @default 'all'
+   */
+  split?: 'all' | 'schema' | string[];
+  /**
+   * What array items are separated by. `envy()` joins arrays with it too.
+   * @default ','
+   */
+  separator?: string;
+}
+
+/**
+ * How `objectify()` reads a variable set to an empty string (`PROXY=`) while `coerce` is on:
+ * - `'absent'` — as if unset: left out of the config, and `.env` files or `defaults` may fill it in.
+ * - `'empty-string'` — as `''`, which no coercion touches.
+ * - `'null'` — as `null`.
+ *
+ * Under the last two the variable counts as set, so neither files nor `defaults` override it.
+ *
+ * @category Type Utilities
+ */
+export type EmptyValue = 'absent' | 'empty-string' | 'null';
+
+/**
+ * Options for `envy()`. Mirrors the key-shaping fields of `ObjectEnvyOptions`, so one options object
+ * can be shared by `objectify()` and `envy()`.
+ *
+ * @config
+ * @category Type Utilities
+ * @see {@link envy}
+ */
+export interface EnvyOptions {
+  /**
+   * Prefix added to every key, joined with `delimiter` (e.g. `'APP'` → `APP_PORT`).
+   */
+  prefix?: string;
+
+  /**
+   * Delimiter joining nesting levels. Words within a key are always joined with `_`, so
+   * `{ log: { filePath } }` with `'__'` becomes `LOG__FILE_PATH`.
+   * @default '_'
+   */
+  delimiter?: string;
+
+  /**
+   * Delimiter joining nesting levels, in place of `delimiter`, for env files read back with the
+   * same `nestingDelimiter`: `{ log: { filePath } }` with `'__'` becomes `LOG__FILE_PATH`, and the
+   * prefix is joined with it too (`APP__LOG__FILE_PATH`).
+   */
+  nestingDelimiter?: string;
+
+  /**
+   * How array values are encoded.
+   * @default 'comma'
+   */
+  arrayEncoding?: ArrayEncoding;
+
+  /**
+   * The same policy `objectify()` takes; only its `separator` applies, joining `'comma'`-encoded
+   * arrays.
+   */
+  coercion?: CoercionPolicy;
+
+  /**
+   * Schema the config conforms to: Zod, JSON Schema, or another Standard Schema its adapter can
+   * read. Only paths known to the schema are emitted; plain-object schemas are accepted for
+   * symmetry with `objectify()` and do not filter.
+   */
+  schema?: z.ZodObject<any> | StandardSchemaV1 | JsonSchema | EnviableObject;
+
+  /**
+   * Adapters for Standard Schema libraries without a built-in one, as in `objectify()`.
+   */
+  schemaAdapters?: SchemaAdapter[];
+}
+
 // Schema can be either Zod or a plain object with the same structure as T
 export type SchemaType<T> = z.ZodObject<any> | T;
 
 export type EnvLike = Record<string, string | undefined>;
 
 // Depth-limited schema type to prevent excessive type instantiation
-type SchemaWithDepth<T, D extends number = 2> = D extends 0 ? any : z.ZodObject<any> | T;
+type SchemaWithDepth<T, D extends number = 2> = D extends 0
+  ? any
+  : z.ZodObject<any> | StandardSchemaV1<unknown, T> | JsonSchema | T;
 
 /**
  * Configuration options for `objectify()` — controls prefix filtering,
@@ -112,7 +273,8 @@ type SchemaWithDepth<T, D extends number = 2> = D extends 0 ? any : z.ZodObject<
  * `process.env`, coerce values, use single-underscore nesting).
  *
  * When `schema` is provided, heuristic nesting is disabled — the schema structure governs nesting
- * exactly. Zod schemas additionally validate the output and throw `ZodError` on failure.
+ * exactly. Zod and Standard Schemas additionally validate the output and throw `ObjectEnvyError` on
+ * failure.
  *
  * @example
  * import { objectify } from 'objectenvy';
@@ -141,19 +303,107 @@ export interface ObjectEnvyOptions<T = EnviableObject> {
    */
   env?: EnvLike;
 
+  /**
+   * `.env` files to load before building the config. Files are merged in order (later files win)
+   * and missing files are skipped. Values from `env` (or `process.env`) always take precedence
+   * over file values.
+   * @example ['.env', '.env.local']
+   */
+  files?: string[];
+
+  /**
+   * Environment profile. When set (and `files` is not), loads the layered chain
+   * `.env` → `.env.local` → `.env.<mode>` → `.env.<mode>.local`, each layer overriding the
+   * previous one. An empty value in a later layer does not override a non-empty earlier value
+   * while `coerce` is on, and the actual env always wins.
+   * @example process.env.NODE_ENV
+   */
+  mode?: string;
+
+  /**
+   * Directory that relative `files` paths are resolved against.
+   * @default process.cwd()
+   */
+  cwd?: string;
+
   /**
    * Schema for validation and type inference.
-   * Can be either a Zod schema or a plain object with the same structure as your config.
-   * Zod schemas will validate, plain objects provide type inference only.
+   * Can be a Zod schema, any other Standard Schema v1 validator (Valibot, ArkType, Effect Schema),
+   * a JSON Schema document, or a plain object with the same structure as your config.
+   * Zod, Standard and JSON Schemas will validate, plain objects provide type inference only.
    */
   schema?: T extends EnviableObject ? SchemaWithDepth<T> : never;
 
   /**
-   * Whether to automatically coerce values to numbers/booleans
+   * Adapters that describe the structure of Standard Schemas from libraries objectenvy does not
+   * read out of the box, so env keys map to their fields. Matched by `~standard.vendor` before the
+   * built-in Valibot, ArkType and Effect Schema adapters. A Standard Schema no adapter reads is
+   * still used for validation, with heuristic nesting.
+   */
+  schemaAdapters?: SchemaAdapter[];
+
+  /**
+   * Whether to automatically coerce values to numbers/booleans. With a Zod schema, each value is
+   * converted to the type its field expects (string, number, boolean, bigint, date, enum, literal or
+   * array of those) instead of being guessed from its content.
    * @default true
    */
   coerce?: boolean;
 
+  /**
+   * Parse values shaped like a JSON object or array (`{...}` / `[...]`) with `JSON.parse` instead of
+   * comma-splitting them. Parsed objects merge with any config nested under the same path, with
+   * individual variables winning. With a Zod schema this is automatic for fields typed as an object,
+   * record, array or tuple. Malformed JSON throws an `ObjectEnvyError` naming the variable.
+   * Has no effect when `coerce` is false.
+   * @default false
+   */
+  json?: boolean;
+
+  /**
+   * Read numeric key segments as array indices without a schema: `SERVERS_0_HOST` →
+   * `servers[0].host`. With a schema, only fields it types as arrays take indices. Either way an
+   * array is only built when its indices run from 0 without gaps and it holds at most 1000 items.
+   * Other keys of a schema array fail with issue code `sparse_index`; without a schema they keep
+   * their plain camelCase path (`OAUTH_2_CLIENT_ID` → `oauth2ClientId`) and `onWarning` receives a
+   * `sparse_index` warning.
+   * @default false
+   */
+  indexedArrays?: boolean;
+
+  /**
+   * Named coercers and the config paths they apply to. Built-in names (`duration`, `bytes`, `url`,
+   * `date`, `bigint`) take just a list of paths; other names also need a `coerce` function. Path
+   * patterns use the same syntax as `sensitive`. Schema fields tagged `.meta({ coerce: 'name' })` or
+   * `.describe('@coerce name')` use that coercer wherever they are. A coercer replaces the default
+   * coercion for its paths; a value it rejects throws an `ObjectEnvyError` naming the variable.
+   * Has no effect when `coerce` is false.
+   *
+   * @example
+   * {
+   *   duration: ['*Timeout', 'retry.delay'],
+   *   bytes: ['maxUpload'],
+   *   semver: { paths: ['minVersion'], coerce: (raw) => raw.replace(/^v/, '') }
+   * }
+   */
+  coercers?: Record<string, string[] | CoercerDefinition>;
+
+  /**
+   * How raw values without a coercer become booleans, numbers and arrays: the words read as
+   * booleans, which number notations count, and where values split into arrays. Has no effect when
+   * `coerce` is false.
+   * @example { truthy: ['true', 'enabled'], falsy: ['false', 'disabled'], hex: true, split: 'schema' }
+   */
+  coercion?: CoercionPolicy;
+
+  /**
+   * Expand `${VAR}`, `${VAR:-default}` and `${VAR:?error}` references in values before coercion.
+   * References resolve against the merged env, including `files` and `defaults` output.
+   * Throws an `InterpolationError` on reference cycles or unsatisfied `${VAR:?error}` references.
+   * @default false
+   */
+  expand?: boolean;
+
   /**
    * Delimiter used to indicate nesting depth.
    * By default, each underscore creates a new nesting level.
@@ -162,6 +412,16 @@ export interface ObjectEnvyOptions<T = EnviableObject> {
    */
   delimiter?: string;
 
+  /**
+   * Delimiter marking nesting levels, with `_` left to separate words within a level — the .NET
+   * and Docker convention. `APP__DATABASE__MAX_POOL_SIZE` becomes `database.maxPoolSize` whatever
+   * other variables exist: every level is explicit, so neither smart nesting, `nonNestingPrefixes`
+   * nor `groups` apply, and schema paths match level by level. The prefix may be followed by
+   * either delimiter (`APP__LOG__LEVEL` or `APP_LOG__LEVEL`).
+   * @example '__'
+   */
+  nestingDelimiter?: string;
+
   /**
    * Prefix segments that should not trigger nesting even when multiple entries share the prefix.
    * For example, keys starting with 'max', 'min', 'is', 'enable', 'disable' will stay flat:
@@ -175,6 +435,43 @@ export interface ObjectEnvyOptions<T = EnviableObject> {
    */
   nonNestingPrefixes?: string[];
 
+  /**
+   * Pin env variables to config paths, whatever other variables exist. Keys are full variable
+   * names, prefix included; values are dot-joined paths. Works with and without a schema.
+   * @example { REDIS_URL: 'cache.url', APP_PG_DSN: 'database.url' }
+   */
+  keyMap?: Record<string, string>;
+
+  /**
+   * Fix the shape of every variable under a key prefix (after the `prefix` option is removed),
+   * instead of nesting only when several variables share it. The longest matching group wins.
+   * - `'nested'` — nest under the group: `REDIS_URL` → `redis.url`, even when it is the only one.
+   * - `'flat'` — one flat camelCase field per variable: `REDIS_URL` → `redisUrl`.
+   * - `{ path }` — an object at `path` with one flat camelCase field per variable:
+   *   `{ REDIS: { path: 'cache' } }` turns `REDIS_MAX_CONNS` into `cache.maxConns`.
+   *
+   * Only shapes configs built without a schema; a schema already fixes the shape.
+   * @example { REDIS: 'nested', FEATURE: 'flat', PG: { path: 'database' } }
+   */
+  groups?: Record<string, 'nested' | 'flat' | { path: string }>;
+
+  /**
+   * What to do when one variable sets a path to a value and another sets a field below it
+   * (`LOG=true` and `LOG_LEVEL=debug`); see {@link ConflictPolicy}. Unset, conflicts resolve as
+   * `'branch-wins'` and each dropped value is reported to `onWarning`.
+   * @example 'value-key' // { log: { _value: true, level: 'debug' } }
+   */
+  conflicts?: ConflictPolicy;
+
+  /**
+   * How variables set to an empty string are read while `coerce` is on; see {@link EmptyValue}.
+   * Pass a record to choose per config path, keyed by path patterns as in `coercers`; the first
+   * matching pattern wins. Where no policy applies, empty variables are absent, except that schema
+   * fields accepting `null` (such as Zod `.nullable()`) receive `null`.
+   * @example { proxy: 'null', 'log.prefix': 'empty-string' }
+   */
+  empty?: EmptyValue | Record<string, EmptyValue>;
+
   /**
    * Include only environment variables matching these patterns.
    * Matches against the normalized key (after prefix removal, in camelCase).
@@ -191,6 +488,60 @@ export interface ObjectEnvyOptions<T = EnviableObject> {
    */
   exclude?: string[];
 
+  /**
+   * Report prefixed env variables that match no schema path — usually typos such as
+   * `APP_DATABSE_HOST`. `'error'` fails with an `ObjectEnvyError` listing every such variable,
+   * `'warn'` reports each through `onWarning` and carries on. Both suggest the closest variable the
+   * schema expects. Variables left out by `include`/`exclude` are not reported. Without `prefix` or
+   * `include` only variables under a top-level schema field (`DATABSE_HOST` is not, `DATABASE_HSOT`
+   * is) are checked, so `PATH` and `HOME` pass. Needs a schema whose shape objectenvy can read (Zod,
+   * JSON Schema, a plain object or a schema with an adapter).
+   * @example 'error' // APP_DATABSE_HOST: Unknown variable; did you mean APP_DATABASE_HOST?
+   */
+  strict?: 'error' | 'warn';
+
+  /**
+   * Env variables being phased out, mapped to the config path they now feed (or a
+   * {@link DeprecatedKey} with a sunset date). Keys are full variable names, prefix included, so
+   * old names need not share the current prefix. While the replacement variable is unset the old
+   * one still works; when both are set the replacement wins. Either way a warning goes to
+   * `onWarning`. From the sunset date on, setting the old variable fails with an `ObjectEnvyError`.
+   * The replacement variable feeds the declared path too, as if `keyMap` listed it. An invalid
+   * sunset date throws an `ObjectEnvyError` naming the variable.
+   * @example { APP_DB_HOST: 'database.host', APP_DB_PASS: { path: 'database.password', sunset: '2026-01-01' } }
+   */
+  deprecations?: Record<string, string | DeprecatedKey>;
+
+  /**
+   * Receives deprecation warnings, values dropped by unset `conflicts` and, with `strict: 'warn'`,
+   * unknown-variable warnings. Defaults to
+   * `process.emitWarning()` with type `ObjectEnvyWarning`.
+   * @example (warning) => logger.warn(warning.message, { envKey: warning.envKey })
+   */
+  onWarning?: (warning: ConfigWarning) => void;
+
+  /**
+   * Config paths or key patterns whose values are secret. Sensitive values are masked by
+   * `redact()`, in `ObjectEnvyError` output and in `objectifyWithMeta()` metadata. Patterns ignore
+   * case and `.`/`_` separators; `*` matches any run of characters. Schema fields tagged with
+   * `.meta({ sensitive: true })` or `.describe('sensitive')` are always sensitive.
+   *
+   * Defaults to `defaultSensitivePatterns` (`*password*`, `*secret*`, `*token`, ...). Extend it without
+   * repeating the defaults: `sensitive: [...defaultSensitivePatterns, 'database.url']`
+   *
+   * @example ['database.password', '*Token']
+   * @default defaultSensitivePatterns
+   */
+  sensitive?: string[];
+
+  /**
+   * Give the returned config (and every nested object) non-enumerable `toJSON` and `util.inspect`
+   * hooks, so `JSON.stringify(config)` and `console.log(config)` print sensitive values masked.
+   * Property access still returns the real values.
+   * @default false
+   */
+  redact?: boolean;
+
   /**
    * Post-parse transform applied after the config has been built and validated.
    * Receives the fully coerced, validated config object and may return a wider type — use
@@ -225,4 +576,198 @@ export interface ObjectEnvyOptions<T = EnviableObject> {
    * });
    */
   defaults?: (raw: EnvLike) => Partial<Record<string, string | undefined>>;
+
+  /**
+   * Lets an `objectEnvy()` instance memoize configs built with `transform`, `defaults`, custom
+   * coercers or schema adapters. Functions can't be compared, so without a key those configs are
+   * rebuilt on every call; calls with the same key are assumed to pass equivalent functions.
+   * Ignored by `objectify()`.
+   * @example objectEnvy({ prefix: 'APP', transform: withUrls, cacheKey: 'with-urls' })
+   */
+  cacheKey?: string;
+}
+
+/**
+ * A deprecated env variable's replacement path and, optionally, when it stops working.
+ *
+ * @config
+ * @category Type Utilities
+ * @see {@link ObjectEnvyOptions.deprecations}
+ */
+export interface DeprecatedKey {
+  /** Config path the variable now feeds, dot-joined, e.g. `'database.host'` */
+  path: string;
+  /**
+   * From this date on, setting the variable is an error rather than a warning. A `YYYY-MM-DD`
+   * string is midnight UTC and must name a real day.
+   */
+  sunset?: string | Date;
+}
+
+/**
+ * A non-fatal problem with the env, passed to the `onWarning` option.
+ *
+ * - `'deprecated_key'` — a variable listed in `deprecations` is set.
+ * - `'unknown_key'` — with `strict: 'warn'`, a prefixed variable matched no schema path.
+ * - `'conflicting_key'` — with `conflicts` unset, a variable's value was dropped because other
+ *   variables set fields below it.
+ * - `'sparse_index'` — with `indexedArrays`, an indexed variable was kept out of its array because
+ *   the indices skip one or pass the 1000-item limit.
+ *
+ * @category Type Utilities
+ */
+export interface ConfigWarning {
+  code: 'deprecated_key' | 'unknown_key' | 'conflicting_key' | 'sparse_index';
+  /** The variable the warning is about, e.g. `APP_DB_HOST` */
+  envKey: string;
+  /** What to do about it, e.g. `Deprecated; use APP_DATABASE_HOST instead` */
+  message: string;
+  /** The variable to use instead, when there is one */
+  replacement?: string;
+}
+
+/**
+ * Options for `objectifyAsync()`: everything `objectify()` takes, plus resolvers for secret
+ * references.
+ *
+ * @config
+ * @category Type Utilities
+ * @see {@link ObjectEnvyOptions}
+ */
+export interface AsyncObjectEnvyOptions<T = EnviableObject> extends ObjectEnvyOptions<T> {
+  /**
+   * Resolvers by URI scheme (without the colon). A value starting with `<scheme>:` is passed whole
+   * to its resolver and replaced by the string it resolves to, before coercion and validation.
+   * `file:` is built in and can be replaced.
+   * @example { secret: (ref) => vault.read(ref.slice('secret://'.length)) }
+   */
+  resolvers?: Record<string, SecretResolver>;
+
+  /**
+   * Variables that may be read from files, as path patterns matched against env keys (as in
+   * `sensitive`): `X_FILE=<path>` sets `X`, and `X=file:<path>` is replaced by the file. When
+   * unset, only fields the schema or `keyMap` declares read files: `X_FILE` when `X_FILE` is not
+   * declared itself, and `file:` when `X` is sensitive. So `APP_LOG_FILE=/var/log/app.log` and
+   * `APP_DB_URL=file:./dev.db` keep their values, and without a schema or `keyMap` no file is read.
+   * @example ['db.password', 'tls.key']
+   */
+  secretFiles?: string[];
+}
+
+/**
+ * Where the raw value behind a config path came from.
+ *
+ * - `'env'` — the `env` option (or `process.env`).
+ * - `'file'` — one of the loaded `.env` files (`files` or `mode`).
+ * - `'defaults'` — the output of the `defaults` factory.
+ *
+ * @category Type Utilities
+ */
+export type ConfigSource = 'env' | 'defaults' | 'file';
+
+/**
+ * Provenance of a single config path, as returned by `objectifyWithMeta()`.
+ *
+ * @category Type Utilities
+ * @see {@link objectifyWithMeta}
+ */
+export interface ConfigPathMeta {
+  /** Env variable that produced the value, with prefix, e.g. `APP_LOG_LEVEL` */
+  envKey: string;
+  /** The raw string read for `envKey`, after `${VAR}` expansion; `'[REDACTED]'` when sensitive */
+  rawValue: string;
+  /** Which layer supplied `rawValue` */
+  source: ConfigSource;
+  /** The `.env` file that supplied `rawValue`, when `source` is `'file'` */
+  file?: string;
+  /** Whether coercion changed the raw string (number, boolean or array) */
+  coerced: boolean;
+  /** Whether the path is sensitive (see the `sensitive` option) */
+  sensitive: boolean;
+}
+
+/**
+ * Map from dot-joined config path (e.g. `'log.level'`) to its provenance.
+ *
+ * @example
+ * const { meta } = objectifyWithMeta({ prefix: 'APP' });
+ * meta['log.level']; // { envKey: 'APP_LOG_LEVEL', rawValue: 'debug', source: 'env', coerced: false }
+ *
+ * @category Type Utilities
+ */
+export type ConfigMeta = Record<string, ConfigPathMeta>;
+
+/**
+ * One changed config path in a reload, as reported to `subscribe()` listeners.
+ *
+ * @category Type Utilities
+ */
+export interface ConfigChange {
+  /** Dot-joined config path, e.g. `'log.level'`. Arrays are compared whole. */
+  path: string;
+  /** Whether the path was added, removed or given a different value */
+  kind: 'added' | 'removed' | 'changed';
+  /** The value before the reload; absent for `added` */
+  previous?: EnviableValue;
+  /** The value after the reload; absent for `removed` */
+  value?: EnviableValue;
+  /** Whether the path is sensitive, so loggers can mask `previous` and `value` */
+  sensitive: boolean;
+}
+
+/**
+ * What `subscribe()` listeners receive on a reload.
+ *
+ * - `'change'` — the config reloaded with differences: `config` is the new config, `previous` the
+ *   one it replaces and `changes` lists every changed path.
+ * - `'error'` — loading failed (typically an `ObjectEnvyError`); `config` is the last good config,
+ *   which stays in effect.
+ *
+ * @category Type Utilities
+ */
+export type ConfigEvent<T> =
+  | { type: 'change'; config: T; previous: T; changes: ConfigChange[] }
+  | { type: 'error'; error: unknown; config: T };
+
+/**
+ * Options for `watch()` on an `objectEnvy()` instance.
+ *
+ * @config
+ * @category Type Utilities
+ */
+export interface WatchOptions {
+  /**
+   * Milliseconds to wait after a file change before reloading, so one save (or a burst of saves)
+   * reloads once.
+   * @default 50
+   */
+  debounce?: number;
+}
+
+/**
+ * Live-reload methods of an `objectEnvy()` instance.
+ *
+ * @category Type Utilities
+ */
+export interface ConfigWatcher<T> {
+  /**
+   * Watch the instance's `.env` files (`files`, or the `mode` chain) and reload when they change.
+   * Loads the current config first, throwing if it is invalid. Until watching stops, `objectify()`
+   * without overrides returns the config in effect, as `reload()` does, rather than rebuilding.
+   * @returns A function that stops watching.
+   */
+  watch(options?: WatchOptions): () => void;
+
+  /**
+   * Call `listener` on every reload that changes the config or fails. A listener that throws is
+   * reported as a process warning (code `OBJECTENVY_LISTENER_ERROR`); the others still run.
+   * @returns A function that unsubscribes the listener.
+   */
+  subscribe(listener: (event: ConfigEvent<T>) => void): () => void;
+
+  /**
+   * Reload now (e.g. after changing `process.env`), notify listeners, and return the config in
+   * effect: the new one, or the last good one when loading failed.
+   */
+  reload(): T;
 }
@@ -137,6 +137,48 @@ describe('coerceValue', () => {
     expect(coerceValue(',')).toBe('');
     expect(coerceValue(',,,')).toBe('');
   });
+
+  describe('with a coercion policy', () => {
+    it('reads booleans from custom words only', () => {
+      const policy = { truthy: ['enabled', 'On'], falsy: ['disabled', 'off'] };
+      expect(coerceValue('enabled', policy)).toBe(true);
+      expect(coerceValue('ON', policy)).toBe(true);
+      expect(coerceValue('Disabled', policy)).toBe(false);
+      expect(coerceValue('true', policy)).toBe('true');
+      expect(coerceValue('no', { truthy: ['enabled'] })).toBe(false);
+    });
+
+    it('reads hex, octal and exponent numbers when enabled', () => {
+      expect(coerceValue('0x1F')).toBe('0x1F');
+      expect(coerceValue('0x1F', { hex: true })).toBe(31);
+      expect(coerceValue('-0XFF', { hex: true })).toBe(-255);
+      expect(coerceValue('0o17', { octal: true })).toBe(15);
+      expect(coerceValue('0o17', { hex: true })).toBe('0o17');
+      expect(coerceValue('0o19', { octal: true })).toBe('0o19');
+      expect(coerceValue('1e3')).toBe('1e3');
+      expect(coerceValue('1e3', { exponent: true })).toBe(1000);
+      expect(coerceValue('-2.5E-3', { exponent: true })).toBe(-0.0025);
+    });
+
+    it('keeps leading zeros when asked', () => {
+      const policy = { preserveLeadingZeros: true };
+      expect(coerceValue('01234', policy)).toBe('01234');
+      expect(coerceValue('00.5', policy)).toBe('00.5');
+      expect(coerceValue('0', policy)).toBe(0);
+      expect(coerceValue('0.5', policy)).toBe(0.5);
+      expect(coerceValue('01234,5', policy)).toEqual(['01234', 5]);
+    });
+
+    it('splits on a custom separator', () => {
+      expect(coerceValue('a;b;3', { separator: ';' })).toEqual(['a', 'b', 3]);
+      expect(coerceValue('a,b|c', { separator: '|' })).toEqual(['a,b', 'c']);
+    });
+
+    it('does not split unless split is all', () => {
+      expect(coerceValue('a,b', { split: 'schema' })).toBe('a,b');
+      expect(coerceValue('a,b', { split: ['tags'] })).toBe('a,b');
+    });
+  });
 });
 
 describe('setNestedValue', () => {
@@ -163,5 +205,12 @@ describe('setNestedValue', () => {
     setNestedValue(obj, ['log', 'path'], '/var/log');
     expect(obj).toEqual({ log: { level: 'debug', path: '/var/log' } });
   });
-});
 
+  it('creates arrays for numeric segments', () => {
+    const obj: Record<string, unknown> = {};
+    setNestedValue(obj, ['servers', 0, 'host'], 'a');
+    setNestedValue(obj, ['servers', 1, 'port'], 80);
+    setNestedValue(obj, ['tags', 0], 'x');
+    expect(obj).toEqual({ servers: [{ host: 'a' }, { port: 80 }], tags: ['x'] });
+  });
+});
@@ -1,3 +1,5 @@
+import type { CoercionPolicy } from './types.js';
+
 /**
  * Convert a `SCREAMING_SNAKE_CASE` string to `camelCase`.
  *
@@ -85,26 +87,138 @@ export function toSnakeCase(str: string): string {
 }
 
 /**
- * Set a nested value in an object using a path array
+ * Whether a value is a plain object (a config branch), as opposed to an array, `null` or a class
+ * instance such as `Date` or `URL`, which are leaf values
  */
-export function setNestedValue(obj: Record<string, unknown>, path: string[], value: unknown): void {
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+function normalizePattern(text: string): string {
+  return text.replace(/[._]/g, '').toLowerCase();
+}
+
+function compilePattern(pattern: string): RegExp {
+  const source = normalizePattern(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a predicate that matches a config path or env key when any pattern matches one of its
+ * trailing segment runs, ignoring case and `.`/`_` separators; `*` matches any run of characters.
+ * `'database.password'` matches `app.database.password` and `APP_DATABASE_PASSWORD` alike.
+ */
+export function pathPatternMatcher(
+  patterns: string[]
+): (path: ReadonlyArray<string | number>) => boolean {
+  const compiled = patterns.map(compilePattern);
+  return (path) => {
+    if (compiled.length === 0) return false;
+    const words = path.flatMap((segment) => String(segment).split('_')).filter(Boolean);
+    for (let start = 0; start < words.length; start++) {
+      const candidate = words.slice(start).join('').toLowerCase();
+      if (compiled.some((pattern) => pattern.test(candidate))) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * Set a nested value in an object using a path array. Numeric path segments index into arrays,
+ * which are created as needed: `['servers', 0, 'host']` → `{ servers: [{ host }] }`.
+ */
+export function setNestedValue(
+  obj: Record<string, unknown>,
+  path: Array<string | number>,
+  value: unknown
+): void {
   let current = obj;
   for (let i = 0; i < path.length - 1; i++) {
     const key = path[i]!;
     if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
-      current[key] = {};
+      current[key] = typeof path[i + 1] === 'number' ? [] : {};
     }
     current = current[key] as Record<string, unknown>;
   }
   const lastKey = path[path.length - 1];
-  if (lastKey) {
+  if (lastKey !== undefined && lastKey !== '') {
     current[lastKey] = value;
   }
 }
 
+/**
+ * Read the value at a path, or undefined when any part of the path is missing
+ */
+export function getNestedValue(obj: unknown, path: Array<string | number>): unknown {
+  let current = obj;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
 const trueEquivalents = new Set(['true', 'yes', 'y']);
 const falseEquivalents = new Set(['false', 'no', 'n']);
 
+/**
+ * Whether `lower` is one of `words`, compared in any case
+ */
+function isWord(words: string[], lower: string): boolean {
+  return words.some((word) => word.toLowerCase() === lower);
+}
+
+/**
+ * Read a boolean word: the policy's `truthy`/`falsy` words when it sets them, otherwise the
+ * `coerceValue` words, plus `on`/`off` and `1`/`0` for values a schema says are booleans.
+ */
+function readBoolean(value: string, policy: CoercionPolicy, schema: boolean): boolean | undefined {
+  const lower = value.toLowerCase();
+  if (
+    policy.truthy
+      ? isWord(policy.truthy, lower)
+      : trueEquivalents.has(lower) || (schema && (lower === 'on' || lower === '1'))
+  ) {
+    return true;
+  }
+  if (
+    policy.falsy
+      ? isWord(policy.falsy, lower)
+      : falseEquivalents.has(lower) || (schema && (lower === 'off' || lower === '0'))
+  ) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Read a value the schema says is a boolean: the `coerceValue` words plus `on`/`off` and `1`/`0`,
+ * any case, or the policy's own words. Undefined when the value is none of them.
+ */
+export function parseBoolean(value: string, policy: CoercionPolicy = {}): boolean | undefined {
+  return readBoolean(value, policy, true);
+}
+
+/**
+ * Read a `0x1F` or `0o17` integer, optionally signed, when the policy turns that notation on.
+ * Undefined for anything else.
+ */
+export function parsePrefixedInteger(value: string, policy: CoercionPolicy): number | undefined {
+  const match = /^([-+]?)0(x[\da-f]+|o[0-7]+)$/i.exec(value);
+  if (!match) return undefined;
+  const digits = match[2]!;
+  const hex = digits[0]!.toLowerCase() === 'x';
+  if (hex ? !policy.hex : !policy.octal) return undefined;
+  const num = parseInt(digits.slice(1), hex ? 16 : 8);
+  if (!Number.isSafeInteger(num)) return undefined;
+  return match[1] === '-' ? -num : num;
+}
+
 /**
  * Coerce a raw environment variable string to its most appropriate JavaScript type.
  *
@@ -119,7 +233,12 @@ const falseEquivalents = new Set(['false', 'no', 'n']);
  * 4. **Floats** — strings matching `/^-?\d+\.\d+$/` are parsed with `parseFloat`.
  * 5. **Strings** — everything else is returned unchanged.
  *
+ * A {@link CoercionPolicy} changes these rules: its `separator` replaces the comma, `split` other
+ * than `'all'` turns step 1 off, `truthy`/`falsy` replace the words of step 2, `hex`, `octal` and
+ * `exponent` add number notations, and `preserveLeadingZeros` keeps `'01234'` a string.
+ *
  * @param value - A raw string value from an environment variable.
+ * @param policy - How to read booleans, numbers and arrays; the rules above when omitted.
  * @returns The coerced value: `boolean`, `number`, a `string`, or an array thereof.
  *
  * @useWhen
@@ -130,16 +249,21 @@ const falseEquivalents = new Set(['false', 'no', 'n']);
  * - The value must stay a string regardless of content (e.g., `'123'` must stay `'123'`) — pass
  *   `coerce: false` to `objectify()` instead, or handle the type downstream.
  * - You need locale-aware number parsing — `parseFloat`/`parseInt` are locale-independent but only
- *   handle decimal notation; scientific notation (`'1e5'`) is NOT coerced to a number.
+ *   handle decimal notation; scientific notation (`'1e5'`) is NOT coerced to a number unless the
+ *   policy sets `exponent: true`.
  *
  * @pitfalls
  * - NEVER use `coerceValue` on values that use commas as decimal separators (e.g., `'3,14'` in
  *   some locales) — BECAUSE the function will treat this as an array `[3, 14]` rather than the
  *   float `3.14`.
- * - NEVER pass leading-zero strings you want preserved as strings (e.g., zip codes `'01234'`) —
- *   BECAUSE the integer regex matches and `parseInt('01234', 10)` returns `1234`.
- * - NEVER rely on `'on'`/`'off'` being coerced to booleans — BECAUSE only `true/false/yes/no/y/n`
- *   are in the boolean equivalents set; `'on'` stays as the string `'on'`.
+ * - NEVER pass leading-zero strings you want preserved as strings (e.g., zip codes `'01234'`)
+ *   without `preserveLeadingZeros: true` — BECAUSE the integer regex matches and
+ *   `parseInt('01234', 10)` returns `1234`.
+ * - NEVER pass a JSON document (`'{"a":1,"b":2}'`) — BECAUSE it is split on its commas like any
+ *   other list; parse it with `JSON.parse`, or pass `json: true` to `objectify()`.
+ * - NEVER rely on `'on'`/`'off'` being coerced to booleans without a policy — BECAUSE only
+ *   `true/false/yes/no/y/n` are in the default boolean words; `'on'` stays as the string `'on'`.
+ *   List them in `truthy`/`falsy` to read them.
  *
  * @example
  * import { coerceValue } from 'objectenvy';
@@ -150,23 +274,28 @@ const falseEquivalents = new Set(['false', 'no', 'n']);
  * coerceValue('localhost');   // 'localhost' (string unchanged)
  * coerceValue('a,b,c');       // ['a', 'b', 'c'] (array)
  * coerceValue('1,2,3');       // [1, 2, 3] (array of numbers)
+ * coerceValue('enabled', { truthy: ['enabled'] }); // true
+ * coerceValue('0x1F', { hex: true });               // 31
+ * coerceValue('a|b', { separator: '|' });           // ['a', 'b']
  *
  * @category Parsing
  * @see {@link objectify} which calls `coerceValue` internally when `coerce: true` (the default)
  */
 export function coerceValue(
-  value: string
+  value: string,
+  policy: CoercionPolicy = {}
 ): string | number | boolean | Array<string | number | boolean> {
-  // Check for comma-separated values (arrays)
-  if (value.includes(',')) {
+  const separator = policy.separator ?? ',';
+  // Check for separated values (arrays)
+  if ((policy.split ?? 'all') === 'all' && separator !== '' && value.includes(separator)) {
     const elements = value
-      .split(',')
+      .split(separator)
       .map((element) => element.trim())
       .filter((element) => element.length > 0);
 
     // Only return array if we have multiple elements after filtering
     if (elements.length > 1) {
-      return elements.map((element) => coerceValue(element) as string | number | boolean);
+      return elements.map((element) => coerceValue(element, policy) as string | number | boolean);
     }
     // If only one element after filtering, treat as single value
     if (elements.length === 1) {
@@ -179,10 +308,13 @@ export function coerceValue(
   }
 
   // Boolean
-  if (trueEquivalents.has(value.toLowerCase())) return true;
-  if (falseEquivalents.has(value.toLowerCase())) return false;
+  const bool = readBoolean(value, policy, false);
+  if (bool !== undefined) return bool;
 
   // Number
+  const prefixed = parsePrefixedInteger(value, policy);
+  if (prefixed !== undefined) return prefixed;
+  if (policy.preserveLeadingZeros && /^-?0\d/.test(value)) return value;
   if (/^-?\d+$/.test(value)) {
     const num = parseInt(value, 10);
     if (Number.isSafeInteger(num)) return num;
@@ -191,6 +323,10 @@ export function coerceValue(
     const num = parseFloat(value);
     if (Number.isFinite(num)) return num;
   }
+  if (policy.exponent && /^-?\d+(?:\.\d+)?e[-+]?\d+$/i.test(value)) {
+    const num = Number(value);
+    if (Number.isFinite(num)) return num;
+  }
 
   // Default to string
   return value;
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffConfig, watchFiles } from './watch.js';
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('diffConfig', () => {
+  it('lists added, removed and changed leaf paths', () => {
+    const previous = { port: 80, log: { level: 'info', pretty: true }, name: 'a' };
+    const next = { port: 81, log: { level: 'info', format: 'json' }, name: 'a' };
+    expect(diffConfig(previous, next)).toEqual([
+      { path: 'port', kind: 'changed', previous: 80, value: 81, sensitive: false },
+      { path: 'log.pretty', kind: 'removed', previous: true, sensitive: false },
+      { path: 'log.format', kind: 'added', value: 'json', sensitive: false }
+    ]);
+  });
+
+  it('compares arrays, dates and URLs by value', () => {
+    const config = () => ({
+      hosts: ['a', 'b'],
+      since: new Date(0),
+      url: new URL('https://example.com')
+    });
+    expect(diffConfig(config(), config())).toEqual([]);
+    expect(diffConfig(config(), { ...config(), hosts: ['a'] })).toEqual([
+      { path: 'hosts', kind: 'changed', previous: ['a', 'b'], value: ['a'], sensitive: false }
+    ]);
+  });
+
+  it('treats a leaf turning into an object as one change', () => {
+    expect(diffConfig({ db: 'x' }, { db: { host: 'y' } })).toEqual([
+      { path: 'db', kind: 'changed', previous: 'x', value: { host: 'y' }, sensitive: false }
+    ]);
+  });
+
+  it('flags sensitive paths', () => {
+    const isSensitive = (path: Array<string | number>) => path.at(-1) === 'password';
+    expect(diffConfig({ db: { password: 'a' } }, { db: { password: 'b' } }, isSensitive)).toEqual([
+      { path: 'db.password', kind: 'changed', previous: 'a', value: 'b', sensitive: true }
+    ]);
+  });
+});
+
+describe('watchFiles', () => {
+  let dir: string;
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'objectenvy-watch-'));
+    writeFileSync(join(dir, '.env'), 'A=1\n');
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('calls back once per burst of changes to a watched file', async () => {
+    let calls = 0;
+    stop = watchFiles(['.env'], dir, () => calls++, 50);
+
+    writeFileSync(join(dir, '.env'), 'A=2\n');
+    writeFileSync(join(dir, '.env'), 'A=3\n');
+    await waitFor(() => calls > 0);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(calls).toBe(1);
+  });
+
+  it('picks up files created after watching starts and ignores other files', async () => {
+    let calls = 0;
+    stop = watchFiles(['.env.local'], dir, () => calls++, 10);
+
+    writeFileSync(join(dir, 'other'), 'x');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(calls).toBe(0);
+
+    writeFileSync(join(dir, '.env.local'), 'A=2\n');
+    await waitFor(() => calls > 0);
+  });
+
+  it('skips directories that do not exist', () => {
+    stop = watchFiles([join(dir, 'missing', '.env')], dir, () => {}, 10);
+    expect(typeof stop).toBe('function');
+  });
+});
@@ -0,0 +1,115 @@
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import type { ConfigChange, EnviableValue } from './types.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * Deep equality for config values: objects by key, arrays by item, `Date`/`URL` by value
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof URL && b instanceof URL) return a.href === b.href;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && sameValue(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * The leaf paths that differ between two configs. Nested objects are compared key by key; arrays
+ * and other values are compared whole. A path that turns from a leaf into an object (or back) is
+ * one `changed` entry.
+ */
+export function diffConfig(
+  previous: unknown,
+  next: unknown,
+  isSensitive: (path: Array<string | number>) => boolean = () => false,
+  base: string[] = []
+): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const before = isPlainObject(previous) ? previous : {};
+  const after = isPlainObject(next) ? next : {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const path = [...base, key];
+    const had = key in before && before[key] !== undefined;
+    const has = key in after && after[key] !== undefined;
+    const oldValue = before[key] as EnviableValue | undefined;
+    const newValue = after[key] as EnviableValue | undefined;
+
+    if (had && has && isPlainObject(oldValue) && isPlainObject(newValue)) {
+      changes.push(...diffConfig(oldValue, newValue, isSensitive, path));
+      continue;
+    }
+    if (had && has && sameValue(oldValue, newValue)) continue;
+
+    const change: ConfigChange = {
+      path: path.join('.'),
+      kind: !had ? 'added' : !has ? 'removed' : 'changed',
+      sensitive: isSensitive(path)
+    };
+    if (had) change.previous = oldValue;
+    if (has) change.value = newValue;
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Call `onChange` once per burst of changes to any of `files` (relative to `cwd`). Directories are
+ * watched rather than the files themselves, so files created or replaced after watching starts
+ * (editors often save by renaming) are picked up; directories that do not exist are skipped.
+ * Watching does not keep the process alive.
+ *
+ * @returns A function that stops watching.
+ */
+export function watchFiles(
+  files: string[],
+  cwd: string,
+  onChange: () => void,
+  debounce: number
+): () => void {
+  const namesByDir = new Map<string, Set<string>>();
+  for (const file of files) {
+    const path = resolve(cwd, file);
+    const dir = dirname(path);
+    const names = namesByDir.get(dir) ?? new Set<string>();
+    names.add(basename(path));
+    namesByDir.set(dir, names);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounce);
+    timer.unref();
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const [dir, names] of namesByDir) {
+    try {
+      const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+        if (filename === null || names.has(filename.toString())) schedule();
+      });
+      // A removed directory ends its watcher; the others keep going
+      watcher.on('error', () => watcher.close());
+      watchers.push(watcher);
+    } catch {
+      // Directory does not exist
+    }
+  }
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}